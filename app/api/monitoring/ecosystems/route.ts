@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+import { isMockApiEnabled, listEcosystems } from "@/lib/api/mock/store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  if (!isMockApiEnabled()) return NextResponse.json({ error: "Servidor simulado desactivado." }, { status: 404 })
+  return NextResponse.json(listEcosystems())
+}
@@ -0,0 +1,9 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { isMockApiEnabled, queryImages } from "@/lib/api/mock/store"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  if (!isMockApiEnabled()) return NextResponse.json({ error: "Servidor simulado desactivado." }, { status: 404 })
+  return NextResponse.json(queryImages(request.nextUrl.searchParams, new URL(request.url)))
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { MockApiError, isMockApiEnabled, uploadMultiple } from "@/lib/api/mock/store"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(request: NextRequest) {
+  if (!isMockApiEnabled()) return NextResponse.json({ error: "Servidor simulado desactivado." }, { status: 404 })
+
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch {
+    return NextResponse.json({ error: "Se esperaba un cuerpo multipart/form-data." }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await uploadMultiple(formData), { status: 201 })
+  } catch (error) {
+    if (error instanceof MockApiError) return NextResponse.json({ error: error.message }, { status: error.status })
+    throw error
+  }
+}
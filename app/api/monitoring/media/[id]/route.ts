@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getMedia, isMockApiEnabled } from "@/lib/api/mock/store"
+
+export const dynamic = "force-dynamic"
+
+// Sirve los archivos subidos al servidor simulado
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!isMockApiEnabled()) return NextResponse.json({ error: "Servidor simulado desactivado." }, { status: 404 })
+
+  const { id } = await params
+  const media = getMedia(Number(id))
+  if (!media) return NextResponse.json({ error: "Imagen no encontrada." }, { status: 404 })
+
+  return new NextResponse(media.data, { headers: { "Content-Type": media.contentType } })
+}
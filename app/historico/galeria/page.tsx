@@ -7,36 +7,22 @@ import { Header } from "@/components/header"
 import { ArrowLeft, Camera, Loader2, X, ChevronLeft, ChevronRight } from "lucide-react"
 import { useEffect, useState } from "react"
 import Link from "next/link"
-
-interface ImageRecord {
-  id: number
-  ecosystem: number
-  image: string
-  capture_date: string
-  vegetation_percentage: number
-  water_percentage: number
-}
-
-const API_IMAGES = "https://sistemahidalgodroneva.site/api/monitoring/images/"
+import { getImages, type ImageResult } from "@/lib/api"
 
 export default function GaleriaPage() {
-  const [images, setImages] = useState<ImageRecord[]>([])
+  const [images, setImages] = useState<ImageResult[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [selectedImage, setSelectedImage] = useState<ImageRecord | null>(null)
+  const [selectedImage, setSelectedImage] = useState<ImageResult | null>(null)
 
   useEffect(() => {
     const fetchData = async () => {
       setLoading(true)
       setError(null)
       try {
-        const response = await fetch(API_IMAGES)
-        if (!response.ok) {
-          throw new Error("Fallo al cargar las imágenes.")
-        }
-        const data: ImageRecord[] = await response.json()
+        const data = await getImages()
         // Sort by date descending (most recent first)
-        const sorted = data.sort((a, b) => new Date(b.capture_date).getTime() - new Date(a.capture_date).getTime())
+        const sorted = [...data].sort((a, b) => new Date(b.capture_date).getTime() - new Date(a.capture_date).getTime())
         setImages(sorted)
       } catch (e) {
         setError("Error al obtener los datos. Verifique la conexión con la API.")
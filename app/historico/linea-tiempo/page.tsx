@@ -7,15 +7,7 @@ import { Header } from "@/components/header"
 import { ArrowLeft, Calendar, Loader2, MapPin } from "lucide-react"
 import { useEffect, useState } from "react"
 import Link from "next/link"
-
-interface Ecosystem {
-  id: number
-  name: string
-  location: string | null
-  created_at: string
-}
-
-const API_ECOSYSTEMS = "https://sistemahidalgodroneva.site/api/monitoring/ecosystems/"
+import { getEcosystems, type Ecosystem } from "@/lib/api"
 
 export default function LineaTiempoPage() {
   const [ecosystems, setEcosystems] = useState<Ecosystem[]>([])
@@ -27,13 +19,9 @@ export default function LineaTiempoPage() {
       setLoading(true)
       setError(null)
       try {
-        const response = await fetch(API_ECOSYSTEMS)
-        if (!response.ok) {
-          throw new Error("Fallo al cargar los ecosistemas.")
-        }
-        const data: Ecosystem[] = await response.json()
+        const data = await getEcosystems()
         // Sort by date descending (most recent first)
-        const sorted = data.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+        const sorted = [...data].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
         setEcosystems(sorted)
       } catch (e) {
         setError("Error al obtener los datos. Verifique la conexión con la API.")
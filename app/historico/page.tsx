@@ -8,31 +8,13 @@ import { Button } from "@/components/ui/button"
 import { Loader2 } from "lucide-react"
 import { Header } from "@/components/header"
 import { Dialog, DialogContent } from "@/components/ui/dialog"
-
-interface Ecosystem {
-  id: number
-  name: string
-  location: string | null
-  created_at: string
-}
-
-interface ImageRecord {
-  id: number
-  ecosystem: number
-  image: string
-  capture_date: string
-  vegetation_percentage: number
-  water_percentage: number
-}
-
-const API_ECOSYSTEMS = "https://sistemahidalgodroneva.site/api/monitoring/ecosystems/"
-const API_IMAGES = "https://sistemahidalgodroneva.site/api/monitoring/images/"
+import { getEcosystems, getImages, type Ecosystem, type ImageResult } from "@/lib/api"
 
 export default function HistoricoPage() {
   const router = useRouter()
 
   const [ecosystems, setEcosystems] = useState<Ecosystem[]>([])
-  const [images, setImages] = useState<ImageRecord[]>([])
+  const [images, setImages] = useState<ImageResult[]>([])
   const [loading, setLoading] = useState(true)
   const [modalError, setModalError] = useState<string | null>(null)
 
@@ -48,18 +30,11 @@ export default function HistoricoPage() {
 
   const fetchData = async () => {
     try {
-      const [ecoRes, imgRes] = await Promise.all([
-        fetch(API_ECOSYSTEMS),
-        fetch(API_IMAGES),
+      const [ecosystemData, imagesData] = await Promise.all([
+        getEcosystems(),
+        getImages(),
       ])
 
-      if (!ecoRes.ok || !imgRes.ok) {
-        throw new Error("Fallo en la conexión con el servidor")
-      }
-
-      const ecosystemData: Ecosystem[] = await ecoRes.json()
-      const imagesData: ImageRecord[] = await imgRes.json()
-
       setEcosystems(ecosystemData)
       setImages(imagesData)
     } catch (error) {
@@ -74,11 +49,11 @@ export default function HistoricoPage() {
   }, [])
 
   const processed = useMemo(() => {
-    const recentEco = ecosystems
+    const recentEco = [...ecosystems]
       .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
       .slice(0, 3)
 
-    const recentImages = images
+    const recentImages = [...images]
       .sort((a, b) => new Date(b.capture_date).getTime() - new Date(a.capture_date).getTime())
       .slice(0, 12)
 
@@ -6,6 +6,9 @@ import { Header } from "@/components/header"
 import { ArrowLeft, TrendingUp, TrendingDown, Minus, Loader2 } from "lucide-react"
 import { useEffect, useState, useMemo } from "react"
 import Link from "next/link"
+import { getImages, type ImageResult } from "@/lib/api"
+import { selectTrendImages } from "@/lib/image-lineage"
+import { useTrendChoices } from "@/hooks/use-trend-choices"
 import {
   LineChart,
   Line,
@@ -19,19 +22,11 @@ import {
   ResponsiveContainer,
 } from "recharts"
 
-interface ImageRecord {
-  id: number
-  ecosystem: number
-  image: string
-  capture_date: string
-  vegetation_percentage: number
-  water_percentage: number
-}
-
-const API_IMAGES = "https://sistemahidalgodroneva.site/api/monitoring/images/"
-
 export default function TendenciasPage() {
-  const [images, setImages] = useState<ImageRecord[]>([])
+  const [allImages, setAllImages] = useState<ImageResult[]>([])
+  const trendChoices = useTrendChoices()
+  // Solo la versión de cada captura elegida para las tendencias
+  const images = useMemo(() => selectTrendImages(allImages, trendChoices), [allImages, trendChoices])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -40,12 +35,7 @@ export default function TendenciasPage() {
       setLoading(true)
       setError(null)
       try {
-        const response = await fetch(API_IMAGES)
-        if (!response.ok) {
-          throw new Error("Fallo al cargar las imágenes.")
-        }
-        const data: ImageRecord[] = await response.json()
-        setImages(data)
+        setAllImages(await getImages())
       } catch (e) {
         setError("Error al obtener los datos. Verifique la conexión con la API.")
         console.error("Error fetching data:", e)
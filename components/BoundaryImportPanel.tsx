@@ -0,0 +1,124 @@
+"use client"
+
+import type React from "react"
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { FileUp, Loader2, MapPin, X } from "lucide-react"
+import { BOUNDARY_FILE_ACCEPT, type ImportedBoundary } from "@/lib/geo-import"
+
+interface BoundaryImportPanelProps {
+  boundaries: ImportedBoundary[]
+  selectedBoundaryId: string | null
+  isImporting: boolean
+  onFile: (file: File) => void
+  onSelect: (boundaryId: string) => void
+  onLoad: () => void
+  onClear: () => void
+}
+
+// Sección del panel lateral para importar límites desde archivo
+const BoundaryImportPanel: React.FC<BoundaryImportPanelProps> = ({
+  boundaries,
+  selectedBoundaryId,
+  isImporting,
+  onFile,
+  onSelect,
+  onLoad,
+  onClear,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setIsDragging(false)
+    const file = e.dataTransfer.files?.[0]
+    if (file) onFile(file)
+  }
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) onFile(file)
+    // Permite volver a elegir el mismo archivo
+    e.target.value = ""
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+        <FileUp className="h-4 w-4 text-blue-600" />
+        Importar límites
+      </h3>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`p-3 border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors ${
+          isDragging ? "border-blue-500 bg-blue-50" : "border-gray-300 bg-gray-50 hover:border-blue-300"
+        }`}
+      >
+        {isImporting ? (
+          <div className="flex items-center justify-center gap-2 text-xs text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+            Leyendo archivo...
+          </div>
+        ) : (
+          <>
+            <p className="text-xs text-gray-700 font-medium">Arrastra un archivo o haz clic</p>
+            <p className="text-[11px] text-gray-500 mt-1">GeoJSON, KML, KMZ o Shapefile (.zip)</p>
+          </>
+        )}
+        <input ref={inputRef} type="file" accept={BOUNDARY_FILE_ACCEPT} className="hidden" onChange={handleInputChange} />
+      </div>
+
+      {boundaries.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-gray-600 px-1">
+            <span>
+              {boundaries.length} {boundaries.length === 1 ? "elemento encontrado" : "elementos encontrados"}
+            </span>
+            <button onClick={onClear} className="text-gray-400 hover:text-gray-600" title="Descartar importación">
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {boundaries.map((boundary) => (
+              <button
+                key={boundary.id}
+                onClick={() => onSelect(boundary.id)}
+                className={`w-full flex items-center gap-2 px-2 py-1.5 text-xs rounded-md border text-left transition-colors ${
+                  boundary.id === selectedBoundaryId
+                    ? "border-orange-400 bg-orange-50 text-orange-800"
+                    : "border-gray-200 bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                <MapPin className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate" title={boundary.name}>
+                  {boundary.name}
+                </span>
+                {boundary.geometry.type === "MultiPolygon" && (
+                  <span className="ml-auto text-[10px] text-gray-500">{boundary.geometry.coordinates.length} partes</span>
+                )}
+              </button>
+            ))}
+          </div>
+          <Button
+            onClick={onLoad}
+            disabled={!selectedBoundaryId}
+            size="sm"
+            className="w-full bg-orange-500 hover:bg-orange-600 text-white rounded-lg font-medium"
+          >
+            Cargar en el mapa
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BoundaryImportPanel
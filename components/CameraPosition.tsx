@@ -0,0 +1,27 @@
+import type React from "react"
+import { MapPin } from "lucide-react"
+import type { CaptureMetadata } from "@/lib/api"
+import { formatCoordinates, hasPosition } from "@/lib/photo-metadata"
+
+// Posición y altura de la cámara según el EXIF/XMP de la foto; nada si no trae GPS
+const CameraPosition: React.FC<{ capture: CaptureMetadata }> = ({ capture }) => {
+  if (!hasPosition(capture)) return null
+
+  return (
+    <p className="text-xs text-slate-600 flex items-center gap-1">
+      <MapPin className="w-3 h-3 text-blue-600 flex-shrink-0" />
+      <a
+        href={`https://www.google.com/maps?q=${capture.latitude},${capture.longitude}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-blue-600 hover:underline"
+      >
+        {formatCoordinates(capture.latitude, capture.longitude)}
+      </a>
+      {capture.relative_altitude_m !== undefined && <span>· {Math.round(capture.relative_altitude_m)} m</span>}
+      {capture.camera_model && <span className="truncate">· {capture.camera_model}</span>}
+    </p>
+  )
+}
+
+export default CameraPosition
@@ -0,0 +1,317 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { RotateCcw, ZoomIn, ZoomOut } from "lucide-react"
+import { resolveMediaUrl, type ImageResult } from "@/lib/api"
+import {
+  COMPARISON_MODES,
+  INITIAL_VIEW,
+  captureDelta,
+  clampView,
+  daysBetween,
+  orderCaptures,
+  zoomView,
+  type ComparisonMode,
+  type ComparisonView,
+} from "@/lib/image-comparison"
+
+interface CaptureComparisonProps {
+  isOpen: boolean
+  onClose: () => void
+  // Las dos capturas a comparar, en cualquier orden; se ordenan por fecha
+  captures: [ImageResult, ImageResult] | null
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("es-ES", { year: "numeric", month: "short", day: "numeric" })
+
+// ------------------------------ //
+// VISOR CON ZOOM Y DESPLAZAMIENTO
+// ------------------------------ //
+
+interface ComparisonViewportProps {
+  setView: React.Dispatch<React.SetStateAction<ComparisonView>>
+  // Si se indica, arrastrar el tirador (data-handle) mueve la cortinilla en lugar de desplazar
+  onSwipe?: (percent: number) => void
+  paneRef?: React.MutableRefObject<HTMLDivElement | null>
+  children: React.ReactNode
+}
+
+const ComparisonViewport: React.FC<ComparisonViewportProps> = ({ setView, onSwipe, paneRef, children }) => {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const dragRef = useRef<{ kind: "pan" | "swipe"; x: number; y: number } | null>(null)
+
+  // La rueda se escucha sin `passive` para que no desplace el diálogo mientras se amplía
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = container.getBoundingClientRect()
+      const origin = { x: event.clientX - rect.left, y: event.clientY - rect.top }
+      const factor = event.deltaY < 0 ? 1.2 : 1 / 1.2
+      setView((prev) => zoomView(prev, factor, origin, rect.width, rect.height))
+    }
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => container.removeEventListener("wheel", handleWheel)
+  }, [setView])
+
+  const swipeTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect || !onSwipe) return
+    onSwipe(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)))
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const onHandle = !!onSwipe && !!(event.target as HTMLElement).closest("[data-handle]")
+    dragRef.current = { kind: onHandle ? "swipe" : "pan", x: event.clientX, y: event.clientY }
+    event.currentTarget.setPointerCapture(event.pointerId)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    if (drag.kind === "swipe") {
+      swipeTo(event.clientX)
+      return
+    }
+    const dx = event.clientX - drag.x
+    const dy = event.clientY - drag.y
+    drag.x = event.clientX
+    drag.y = event.clientY
+    const { width, height } = event.currentTarget.getBoundingClientRect()
+    setView((prev) => clampView({ ...prev, x: prev.x + dx, y: prev.y + dy }, width, height))
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+  }
+
+  return (
+    <div
+      ref={(node) => {
+        containerRef.current = node
+        if (paneRef) paneRef.current = node
+      }}
+      className="relative h-[55vh] overflow-hidden rounded-lg bg-slate-900 cursor-grab active:cursor-grabbing select-none touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {children}
+    </div>
+  )
+}
+
+// Una captura con la transformación compartida; las dos capas usan la misma para ir sincronizadas
+const CaptureLayer: React.FC<{ image: ImageResult; view: ComparisonView; style?: React.CSSProperties }> = ({
+  image,
+  view,
+  style,
+}) => (
+  <div className="absolute inset-0" style={style}>
+    <div
+      className="w-full h-full"
+      style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`, transformOrigin: "0 0" }}
+    >
+      <img
+        src={resolveMediaUrl(image.image) || "/placeholder.jpg"}
+        alt={`Captura ${image.id}`}
+        className="w-full h-full object-contain pointer-events-none"
+        draggable={false}
+      />
+    </div>
+  </div>
+)
+
+const CaptureLabel: React.FC<{ image: ImageResult; prefix: string; className: string }> = ({
+  image,
+  prefix,
+  className,
+}) => (
+  <span className={`absolute top-2 px-2 py-1 rounded bg-black/60 text-white text-xs pointer-events-none ${className}`}>
+    {prefix} · #{image.id} · {formatDate(image.capture_date)}
+  </span>
+)
+
+// ------------------------------ //
+// DIÁLOGO DE COMPARACIÓN
+// ------------------------------ //
+
+// Comparación antes/después de dos capturas del mismo ecosistema
+const CaptureComparison: React.FC<CaptureComparisonProps> = ({ isOpen, onClose, captures }) => {
+  const [mode, setMode] = useState<ComparisonMode>("swipe")
+  const [swipe, setSwipe] = useState(50)
+  const [opacity, setOpacity] = useState(50)
+  const [view, setView] = useState<ComparisonView>(INITIAL_VIEW)
+  const paneRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    setView(INITIAL_VIEW)
+    setSwipe(50)
+    setOpacity(50)
+  }, [captures])
+
+  if (!captures) return null
+
+  const [before, after] = orderCaptures(...captures)
+  const deltas = captureDelta(before, after)
+  const days = daysBetween(before, after)
+
+  const changeMode = (next: ComparisonMode) => {
+    setMode(next)
+    // El tamaño del visor cambia entre modos; se parte de la vista completa
+    setView(INITIAL_VIEW)
+  }
+
+  const zoomFromCenter = (factor: number) => {
+    const rect = paneRef.current?.getBoundingClientRect()
+    if (!rect) return
+    setView((prev) => zoomView(prev, factor, { x: rect.width / 2, y: rect.height / 2 }, rect.width, rect.height))
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl w-full max-h-[95vh] overflow-y-auto z-[10060]">
+        <DialogTitle>
+          Comparar capturas #{before.id} y #{after.id}
+        </DialogTitle>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex border border-slate-300 rounded-lg overflow-hidden">
+            {COMPARISON_MODES.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={mode === value ? "default" : "ghost"}
+                size="sm"
+                onClick={() => changeMode(value)}
+                className="rounded-none border-0 shadow-none"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="sm" onClick={() => zoomFromCenter(1 / 1.5)} aria-label="Alejar">
+              <ZoomOut className="w-4 h-4" />
+            </Button>
+            <span className="w-12 text-center text-xs text-slate-600">{Math.round(view.scale * 100)}%</span>
+            <Button variant="outline" size="sm" onClick={() => zoomFromCenter(1.5)} aria-label="Acercar">
+              <ZoomIn className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setView(INITIAL_VIEW)} aria-label="Restablecer vista">
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {mode === "side-by-side" ? (
+          <div className="grid grid-cols-2 gap-2">
+            <ComparisonViewport setView={setView} paneRef={paneRef}>
+              <CaptureLayer image={before} view={view} />
+              <CaptureLabel image={before} prefix="Antes" className="left-2" />
+            </ComparisonViewport>
+            <ComparisonViewport setView={setView}>
+              <CaptureLayer image={after} view={view} />
+              <CaptureLabel image={after} prefix="Después" className="left-2" />
+            </ComparisonViewport>
+          </div>
+        ) : (
+          <ComparisonViewport setView={setView} paneRef={paneRef} onSwipe={mode === "swipe" ? setSwipe : undefined}>
+            <CaptureLayer image={before} view={view} />
+            <CaptureLayer
+              image={after}
+              view={view}
+              style={mode === "swipe" ? { clipPath: `inset(0 0 0 ${swipe}%)` } : { opacity: opacity / 100 }}
+            />
+            {mode === "swipe" && (
+              <div
+                data-handle
+                className="absolute inset-y-0 w-6 -ml-3 flex justify-center cursor-ew-resize"
+                style={{ left: `${swipe}%` }}
+              >
+                <div className="w-0.5 h-full bg-white shadow" />
+                <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white shadow border border-slate-300" />
+              </div>
+            )}
+            <CaptureLabel image={before} prefix="Antes" className="left-2" />
+            <CaptureLabel image={after} prefix="Después" className="right-2" />
+          </ComparisonViewport>
+        )}
+
+        {mode === "swipe" && (
+          <label className="flex items-center gap-3 text-xs text-slate-600">
+            Cortinilla
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={swipe}
+              onChange={(e) => setSwipe(Number(e.target.value))}
+              className="flex-1"
+            />
+          </label>
+        )}
+        {mode === "blend" && (
+          <label className="flex items-center gap-3 text-xs text-slate-600">
+            Antes
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={opacity}
+              onChange={(e) => setOpacity(Number(e.target.value))}
+              className="flex-1"
+            />
+            Después
+          </label>
+        )}
+        <p className="text-[11px] text-slate-500">
+          Usa la rueda del ratón para acercar y arrastra para desplazarte; ambas capturas se mueven juntas.
+        </p>
+
+        <div>
+          <h4 className="text-sm font-semibold text-slate-800 mb-2">
+            Cambios entre capturas {days > 0 && <span className="font-normal text-slate-500">({days} días)</span>}
+          </h4>
+          <table className="w-full text-sm border border-slate-200 rounded-lg overflow-hidden">
+            <thead className="bg-slate-50 text-slate-700">
+              <tr>
+                <th className="px-3 py-2 text-left">Métrica</th>
+                <th className="px-3 py-2 text-right">Antes</th>
+                <th className="px-3 py-2 text-right">Después</th>
+                <th className="px-3 py-2 text-right">Cambio</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deltas.map(({ label, unit, before: from, after: to, diff, higherIsBetter }) => {
+                const improved = diff !== 0 && diff > 0 === higherIsBetter
+                const color = diff === 0 ? "text-slate-500" : improved ? "text-green-600" : "text-red-600"
+                return (
+                  <tr key={label} className="border-t border-slate-100">
+                    <td className="px-3 py-2 text-slate-700">{label}</td>
+                    <td className="px-3 py-2 text-right">
+                      {from.toFixed(2)} {unit}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {to.toFixed(2)} {unit}
+                    </td>
+                    <td className={`px-3 py-2 text-right font-semibold ${color}`}>
+                      {diff > 0 ? "▲" : diff < 0 ? "▼" : "—"} {Math.abs(diff).toFixed(2)} {unit}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CaptureComparison
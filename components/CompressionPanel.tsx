@@ -0,0 +1,124 @@
+"use client"
+
+import type React from "react"
+import { Card } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Loader2, Minimize2 } from "lucide-react"
+import {
+  COMPRESSION_MAX_DIMENSIONS,
+  formatFileSize,
+  type CompressedImage,
+  type CompressionOptions,
+} from "@/lib/image-compression"
+
+interface CompressionPanelProps {
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  options: CompressionOptions
+  onOptionsChange: (options: CompressionOptions) => void
+  files: File[]
+  results: (CompressedImage | null)[]
+  processing: boolean
+}
+
+// Reducción opcional de las fotos antes de subirlas, pensada para conexiones lentas en campo
+const CompressionPanel: React.FC<CompressionPanelProps> = ({
+  enabled,
+  onEnabledChange,
+  options,
+  onOptionsChange,
+  files,
+  results,
+  processing,
+}) => {
+  if (files.length === 0) return null
+
+  const originalTotal = files.reduce((sum, file) => sum + file.size, 0)
+  const compressedTotal = results.reduce((sum, result, index) => sum + (result?.file.size ?? files[index].size), 0)
+
+  return (
+    <Card className="p-4 border border-slate-200 space-y-3">
+      <div className="flex items-center gap-2">
+        <Minimize2 className="w-4 h-4 text-blue-600" />
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+          <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+          Reducir y comprimir antes de subir
+        </label>
+        <span className="ml-auto text-xs text-slate-500">{formatFileSize(originalTotal)} en total</span>
+      </div>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="compression-dimension" className="text-xs text-slate-600">
+                Lado mayor máximo
+              </Label>
+              <select
+                id="compression-dimension"
+                value={options.maxDimensionPx}
+                onChange={(e) => onOptionsChange({ ...options, maxDimensionPx: Number(e.target.value) })}
+                className="mt-1 h-8 w-full rounded-md border border-slate-200 bg-white px-2 text-sm"
+              >
+                {COMPRESSION_MAX_DIMENSIONS.map((dimension) => (
+                  <option key={dimension} value={dimension}>
+                    {dimension} px
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="compression-quality" className="text-xs text-slate-600">
+                Calidad: {Math.round(options.quality * 100)}%
+              </Label>
+              <input
+                id="compression-quality"
+                type="range"
+                min={0.4}
+                max={0.95}
+                step={0.05}
+                value={options.quality}
+                onChange={(e) => onOptionsChange({ ...options, quality: Number(e.target.value) })}
+                className="mt-3 w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+            </div>
+          </div>
+
+          <ul className="text-xs text-slate-600 space-y-0.5 max-h-40 overflow-y-auto">
+            {files.map((file, index) => {
+              const result = results[index]
+              return (
+                <li key={index} className="flex items-center gap-2">
+                  <span className="truncate">
+                    {index + 1}. {file.name}
+                  </span>
+                  <span className="ml-auto whitespace-nowrap">
+                    {result ? (
+                      <>
+                        {formatFileSize(file.size)} → <strong>{formatFileSize(result.file.size)}</strong>
+                        {result.scale > 1 && ` · ${result.width}×${result.height} px`}
+                      </>
+                    ) : (
+                      <Loader2 className="w-3 h-3 animate-spin text-blue-600" />
+                    )}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+
+          <p className="text-xs text-slate-700">
+            {processing
+              ? "Comprimiendo imágenes…"
+              : `Se subirán ${formatFileSize(compressedTotal)} en lugar de ${formatFileSize(originalTotal)}.`}
+          </p>
+          <p className="text-xs text-slate-500">
+            La resolución en terreno se ajusta al nuevo tamaño, así que las áreas calculadas no cambian.
+          </p>
+        </>
+      )}
+    </Card>
+  )
+}
+
+export default CompressionPanel
@@ -0,0 +1,142 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { AlertTriangle, Copy, Loader2, SkipForward } from "lucide-react"
+import { resolveMediaUrl } from "@/lib/api"
+import type { DuplicateMatch } from "@/lib/image-hash"
+
+interface DuplicatesPanelProps {
+  files: File[]
+  previewUrls: string[]
+  duplicates: DuplicateMatch[]
+  checking: boolean
+  // Capturas del ecosistema que no se pudieron comparar y si falló la consulta del historial
+  uncheckedHistory: number
+  historyFailed: boolean
+  onSkip: (index: number) => void
+}
+
+const formatCaptureDate = (date: string) => (date ? new Date(date).toLocaleDateString("es-MX") : "sin fecha")
+
+// Aviso de fotos que parecen repetidas, con la pareja al lado para confirmarlo
+const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({
+  files,
+  previewUrls,
+  duplicates,
+  checking,
+  uncheckedHistory,
+  historyFailed,
+  onSkip,
+}) => {
+  // Las que el usuario decidió conservar; se recuerdan por archivo para que sobrevivan a quitar otras
+  const [kept, setKept] = useState<File[]>([])
+  const visible = duplicates.filter((duplicate) => !kept.includes(files[duplicate.index]))
+
+  // Sin este aviso, no encontrar duplicados parecería una revisión completa
+  const historyNotice =
+    files.length === 0 || checking
+      ? null
+      : historyFailed
+        ? "No se pudo revisar el historial del ecosistema: solo se compararon las fotos de este lote."
+        : uncheckedHistory > 0
+          ? `${uncheckedHistory === 1 ? "1 captura anterior no se pudo comparar" : `${uncheckedHistory} capturas anteriores no se pudieron comparar`}; revisa a mano que no estés repitiendo fotos.`
+          : null
+
+  if (visible.length === 0) {
+    if (checking && files.length > 0) {
+      return (
+        <p className="text-xs text-slate-500 flex items-center gap-2">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Buscando fotos repetidas…
+        </p>
+      )
+    }
+    return historyNotice ? (
+      <p className="text-xs text-slate-500 flex items-center gap-2">
+        <AlertTriangle className="w-3 h-3 text-amber-600" />
+        {historyNotice}
+      </p>
+    ) : null
+  }
+
+  return (
+    <Card className="p-4 border border-amber-200 bg-amber-50 space-y-3">
+      <div className="flex items-center gap-2">
+        <Copy className="w-4 h-4 text-amber-700" />
+        <p className="text-sm font-medium text-amber-800">
+          {visible.length === 1 ? "1 foto parece repetida" : `${visible.length} fotos parecen repetidas`}
+        </p>
+        {checking && <Loader2 className="ml-auto w-3 h-3 animate-spin text-amber-700" />}
+      </div>
+      <p className="text-xs text-amber-800">
+        Subir la misma foto dos veces altera los promedios mensuales del ecosistema.
+      </p>
+      {historyNotice && <p className="text-xs text-amber-800">{historyNotice}</p>}
+
+      <ul className="space-y-3">
+        {visible.map((duplicate) => {
+          const file = files[duplicate.index]
+          const matchUrl =
+            duplicate.batchIndex !== null
+              ? previewUrls[duplicate.batchIndex]
+              : resolveMediaUrl(duplicate.historical?.thumbnail ?? duplicate.historical?.image)
+          const matchLabel =
+            duplicate.batchIndex !== null
+              ? `${duplicate.batchIndex + 1}. ${files[duplicate.batchIndex]?.name} (este lote)`
+              : `Captura #${duplicate.historical?.id} ya subida (${formatCaptureDate(duplicate.historical?.capture_date ?? "")})`
+
+          return (
+            <li key={duplicate.index} className="p-3 rounded-lg bg-white border border-amber-200 space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <figure>
+                  <img
+                    src={previewUrls[duplicate.index] || "/placeholder.svg"}
+                    alt={file.name}
+                    className="w-full h-28 object-cover rounded-md bg-slate-100"
+                  />
+                  <figcaption className="mt-1 text-xs text-slate-700 truncate">
+                    {duplicate.index + 1}. {file.name}
+                  </figcaption>
+                </figure>
+                <figure>
+                  <img
+                    src={matchUrl || "/placeholder.svg"}
+                    alt={matchLabel}
+                    className="w-full h-28 object-cover rounded-md bg-slate-100"
+                  />
+                  <figcaption className="mt-1 text-xs text-slate-700 truncate">{matchLabel}</figcaption>
+                </figure>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-slate-500">
+                  {duplicate.distance === 0 ? "Idénticas" : `Diferencia: ${duplicate.distance} de 64 bits`}
+                </span>
+                <Button
+                  onClick={() => setKept((prev) => [...prev, file])}
+                  size="sm"
+                  variant="outline"
+                  className="ml-auto h-8 text-xs bg-white"
+                >
+                  Conservar
+                </Button>
+                <Button
+                  onClick={() => onSkip(duplicate.index)}
+                  size="sm"
+                  className="h-8 text-xs bg-amber-600 hover:bg-amber-700 text-white"
+                >
+                  <SkipForward className="w-3 h-3 mr-1" />
+                  Omitir esta foto
+                </Button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </Card>
+  )
+}
+
+export default DuplicatesPanel
@@ -0,0 +1,157 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plane, X } from "lucide-react"
+import { CAMERA_PRESETS, computeGsd, formatGsd, getCameraPreset } from "@/lib/camera"
+import { formatLength } from "@/lib/geodesy"
+import {
+  DEFAULT_FLIGHT_PARAMS,
+  FLIGHT_PLAN_FORMATS,
+  formatFlightTime,
+  type FlightPlan,
+  type FlightPlanFormat,
+  type FlightPlanParams,
+} from "@/lib/flight-plan"
+
+export type FlightPlanTarget = "selected" | "drawn"
+
+interface FlightPlanPanelProps {
+  plan: FlightPlan | null
+  canUseSelected: boolean
+  canUseDrawn: boolean
+  onGenerate: (target: FlightPlanTarget, params: FlightPlanParams) => void
+  onExport: (format: FlightPlanFormat) => void
+  onClear: () => void
+}
+
+type NumericParam = keyof typeof DEFAULT_FLIGHT_PARAMS
+
+const NUMERIC_FIELDS: { key: NumericParam; label: string; min: number; max: number; step: number }[] = [
+  { key: "altitudeM", label: "Altura (m)", min: 10, max: 500, step: 5 },
+  { key: "speedMs", label: "Velocidad (m/s)", min: 1, max: 20, step: 0.5 },
+  { key: "frontOverlap", label: "Traslape frontal (%)", min: 0, max: 95, step: 5 },
+  { key: "sideOverlap", label: "Traslape lateral (%)", min: 0, max: 95, step: 5 },
+  { key: "angleDeg", label: "Rumbo de líneas (°)", min: 0, max: 179, step: 5 },
+]
+
+// Sección del panel lateral para planear el vuelo de captura sobre el área
+const FlightPlanPanel: React.FC<FlightPlanPanelProps> = ({
+  plan,
+  canUseSelected,
+  canUseDrawn,
+  onGenerate,
+  onExport,
+  onClear,
+}) => {
+  const [target, setTarget] = useState<FlightPlanTarget>("drawn")
+  const [cameraId, setCameraId] = useState(CAMERA_PRESETS[0].id)
+  const [values, setValues] = useState(DEFAULT_FLIGHT_PARAMS)
+
+  const camera = getCameraPreset(cameraId) ?? CAMERA_PRESETS[0]
+  const effectiveTarget = target === "drawn" ? (canUseDrawn ? "drawn" : "selected") : canUseSelected ? "selected" : "drawn"
+  const canGenerate = effectiveTarget === "drawn" ? canUseDrawn : canUseSelected
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+        <Plane className="h-4 w-4 text-blue-600" />
+        Plan de vuelo
+      </h3>
+
+      <Select value={effectiveTarget} onValueChange={(value) => setTarget(value as FlightPlanTarget)}>
+        <SelectTrigger className="w-full border-gray-300 bg-white h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="z-[1001]">
+          <SelectItem value="drawn" disabled={!canUseDrawn}>Área dibujada</SelectItem>
+          <SelectItem value="selected" disabled={!canUseSelected}>Ecosistema seleccionado</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select value={cameraId} onValueChange={setCameraId}>
+        <SelectTrigger className="w-full border-gray-300 bg-white h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="z-[1001]">
+          {CAMERA_PRESETS.map((preset) => (
+            <SelectItem key={preset.id} value={preset.id}>
+              {preset.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="grid grid-cols-2 gap-2">
+        {NUMERIC_FIELDS.map(({ key, label, min, max, step }) => (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={`flight-${key}`} className="text-[11px] text-gray-600 font-normal">
+              {label}
+            </Label>
+            <Input
+              id={`flight-${key}`}
+              type="number"
+              min={min}
+              max={max}
+              step={step}
+              value={values[key]}
+              onChange={(e) => setValues((prev) => ({ ...prev, [key]: Number(e.target.value) }))}
+              className="h-8 text-xs bg-white"
+            />
+          </div>
+        ))}
+        <div className="space-y-1">
+          <div className="text-[11px] text-gray-600">GSD estimado</div>
+          <div className="h-8 flex items-center text-xs font-medium text-gray-900">
+            {formatGsd(computeGsd(values.altitudeM, camera))}
+          </div>
+        </div>
+      </div>
+
+      <Button
+        onClick={() => onGenerate(effectiveTarget, { ...values, camera })}
+        disabled={!canGenerate}
+        size="sm"
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium"
+      >
+        Generar plan
+      </Button>
+
+      {plan && (
+        <div className="text-xs p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-1">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium text-gray-700">Resumen del vuelo</span>
+            <button onClick={onClear} className="text-gray-400 hover:text-gray-600" title="Quitar plan del mapa">
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <div className="flex justify-between"><span className="text-gray-600">Líneas / waypoints</span><span className="font-medium text-gray-900">{plan.transects} / {plan.waypoints.length}</span></div>
+          <div className="flex justify-between"><span className="text-gray-600">Separación de líneas</span><span className="font-medium text-gray-900">{formatLength(plan.lineSpacingM)}</span></div>
+          <div className="flex justify-between"><span className="text-gray-600">Foto cada</span><span className="font-medium text-gray-900">{formatLength(plan.triggerDistanceM)}</span></div>
+          <div className="flex justify-between"><span className="text-gray-600">GSD</span><span className="font-medium text-gray-900">{formatGsd(plan.gsdMPerPx)}</span></div>
+          <div className="flex justify-between"><span className="text-gray-600">Distancia</span><span className="font-medium text-gray-900">{formatLength(plan.distanceM)}</span></div>
+          <div className="flex justify-between"><span className="text-gray-600">Fotos / tiempo</span><span className="font-medium text-gray-900">~{plan.estimatedPhotos} / {formatFlightTime(plan.estimatedTimeS)}</span></div>
+          <div className="grid grid-cols-3 gap-2 pt-2">
+            {(Object.keys(FLIGHT_PLAN_FORMATS) as FlightPlanFormat[]).map((format) => (
+              <Button
+                key={format}
+                onClick={() => onExport(format)}
+                size="sm"
+                variant="outline"
+                className="h-8 px-1 text-[11px] bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+              >
+                {FLIGHT_PLAN_FORMATS[format].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FlightPlanPanel
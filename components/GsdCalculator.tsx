@@ -0,0 +1,102 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { X } from "lucide-react"
+import { CAMERA_PRESETS, computeGsd, formatResolution, getCameraPreset } from "@/lib/camera"
+
+interface GsdCalculatorProps {
+  // Ancho real de la foto; si se conoce tiene prioridad sobre el de la ficha de la cámara
+  imageWidthPx?: number
+  // `widthPx`: ancho con el que se calculó, para escalar el resultado a fotos de otro ancho
+  onApply: (metersPerPixel: number, applyToAll: boolean, widthPx: number) => void
+  onClose: () => void
+}
+
+// Calculadora de resolución en terreno a partir de los datos del vuelo y la cámara
+const GsdCalculator: React.FC<GsdCalculatorProps> = ({ imageWidthPx, onApply, onClose }) => {
+  const [cameraId, setCameraId] = useState(CAMERA_PRESETS[0].id)
+  const [altitudeM, setAltitudeM] = useState(80)
+  const [focalLengthMm, setFocalLengthMm] = useState(CAMERA_PRESETS[0].focalLengthMm)
+  const [sensorWidthMm, setSensorWidthMm] = useState(CAMERA_PRESETS[0].sensorWidthMm)
+  const [widthPx, setWidthPx] = useState(imageWidthPx || CAMERA_PRESETS[0].imageWidthPx)
+
+  const gsd = computeGsd(altitudeM, { sensorWidthMm, focalLengthMm, imageWidthPx: widthPx })
+
+  const handleCameraChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setCameraId(e.target.value)
+    const preset = getCameraPreset(e.target.value)
+    if (!preset) return
+    setFocalLengthMm(preset.focalLengthMm)
+    setSensorWidthMm(preset.sensorWidthMm)
+    // El ancho real de la foto manda sobre el de la ficha (la imagen pudo recortarse o reducirse)
+    if (!imageWidthPx) setWidthPx(preset.imageWidthPx)
+  }
+
+  const fields: { id: string; label: string; value: number; step: number; onChange: (value: number) => void }[] = [
+    { id: "gsd-altitude", label: "Altura de vuelo (m)", value: altitudeM, step: 1, onChange: setAltitudeM },
+    { id: "gsd-focal", label: "Distancia focal (mm)", value: focalLengthMm, step: 0.01, onChange: setFocalLengthMm },
+    { id: "gsd-sensor", label: "Ancho del sensor (mm)", value: sensorWidthMm, step: 0.1, onChange: setSensorWidthMm },
+    { id: "gsd-width", label: "Ancho de la imagen (px)", value: widthPx, step: 1, onChange: setWidthPx },
+  ]
+
+  return (
+    <div className="mt-2 p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-slate-700">Calcular resolución (GSD)</span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Cerrar calculadora">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <select
+        value={cameraId}
+        onChange={handleCameraChange}
+        className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs"
+      >
+        {CAMERA_PRESETS.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.label}
+          </option>
+        ))}
+        <option value="custom">Otra cámara</option>
+      </select>
+      <div className="grid grid-cols-2 gap-2">
+        {fields.map((field) => (
+          <div key={field.id}>
+            <Label htmlFor={field.id} className="text-[11px] text-slate-600 font-normal">
+              {field.label}
+            </Label>
+            <Input
+              id={field.id}
+              type="number"
+              min={0}
+              step={field.step}
+              value={field.value}
+              onChange={(e) => {
+                field.onChange(Number(e.target.value))
+                if (field.id !== "gsd-altitude") setCameraId("custom")
+              }}
+              className="h-7 text-xs bg-white"
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-slate-700">
+        Resultado: <strong>{gsd > 0 ? formatResolution(gsd) : "datos incompletos"}</strong>
+      </p>
+      <div className="flex gap-2">
+        <Button onClick={() => onApply(gsd, false, widthPx)} disabled={gsd <= 0} size="sm" className="h-7 text-xs bg-blue-600 hover:bg-blue-700 text-white">
+          Aplicar a esta imagen
+        </Button>
+        <Button onClick={() => onApply(gsd, true, widthPx)} disabled={gsd <= 0} size="sm" variant="outline" className="h-7 text-xs">
+          Aplicar a todas
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default GsdCalculator
@@ -0,0 +1,112 @@
+"use client"
+
+import type React from "react"
+import { Button } from "@/components/ui/button"
+import { GitBranch, Loader2 } from "lucide-react"
+import { useImageLineage } from "@/hooks/use-image-lineage"
+import { isMaskCorrection, type ImageResult } from "@/lib/api"
+
+interface ImageLineagePanelProps {
+  image: ImageResult
+  // Capturas ya cargadas por la vista; las que falten se piden al servidor
+  knownImages: ImageResult[]
+  onSelectVersion: (image: ImageResult) => void
+}
+
+const describeVersion = (image: ImageResult) => {
+  if (!image.is_adjusted) return "Original"
+  if (isMaskCorrection(image)) return "Máscara corregida"
+  if (image.metadata?.adjustments) return "Ajuste de color"
+  return "Ajustada"
+}
+
+const formatDiff = (value: number) => (value === 0 ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(2)}`)
+
+// Árbol de versiones de la captura: permite verlas, comparar sus métricas y elegir la que cuenta en tendencias
+const ImageLineagePanel: React.FC<ImageLineagePanelProps> = ({ image, knownImages, onSelectVersion }) => {
+  const { versions, trendId, loading, chooseTrendVersion } = useImageLineage(image, knownImages)
+
+  if (versions.length <= 1) {
+    return loading ? (
+      <p className="text-xs text-slate-500 flex items-center gap-2">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Buscando otras versiones de la captura…
+      </p>
+    ) : null
+  }
+
+  const original = versions[0].image
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+        <GitBranch className="w-4 h-4 text-purple-600" />
+        Versiones de la captura ({versions.length})
+        {loading && <Loader2 className="w-3 h-3 animate-spin text-slate-400" />}
+      </h4>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs border border-slate-200 rounded-lg overflow-hidden">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              <th className="px-2 py-1 text-left">Versión</th>
+              <th className="px-2 py-1 text-right">Lirio</th>
+              <th className="px-2 py-1 text-right">Δ Lirio</th>
+              <th className="px-2 py-1 text-right">Agua</th>
+              <th className="px-2 py-1 text-right">Área de lirio</th>
+              <th className="px-2 py-1 text-center">Tendencias</th>
+              <th className="px-2 py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {versions.map(({ image: version, depth }) => {
+              const current = version.id === image.id
+              return (
+                <tr key={version.id} className={`border-t border-slate-100 ${current ? "bg-purple-50" : ""}`}>
+                  <td className="px-2 py-1 text-slate-700" style={{ paddingLeft: `${0.5 + depth * 1}rem` }}>
+                    {depth > 0 && <span className="text-slate-400 mr-1">└</span>}
+                    {describeVersion(version)} <span className="font-mono text-slate-500">#{version.id}</span>
+                  </td>
+                  <td className="px-2 py-1 text-right">{version.vegetation_percentage.toFixed(2)}%</td>
+                  <td className="px-2 py-1 text-right text-slate-500">
+                    {formatDiff(version.vegetation_percentage - original.vegetation_percentage)}
+                  </td>
+                  <td className="px-2 py-1 text-right">{version.water_percentage.toFixed(2)}%</td>
+                  <td className="px-2 py-1 text-right">{version.vegetation_area_m2.toFixed(2)} m²</td>
+                  <td className="px-2 py-1 text-center">
+                    <input
+                      type="radio"
+                      name={`trend-version-${original.id}`}
+                      checked={trendId === version.id}
+                      onChange={() => chooseTrendVersion(version.id)}
+                      aria-label={`Usar #${version.id} en las tendencias`}
+                    />
+                  </td>
+                  <td className="px-2 py-1 text-right">
+                    {current ? (
+                      <span className="text-purple-700 font-medium">Viendo</span>
+                    ) : (
+                      <Button
+                        onClick={() => onSelectVersion(version)}
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs text-blue-600"
+                      >
+                        Ver
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        Solo la versión marcada en «Tendencias» entra en los promedios y comparaciones entre vuelos. La elección se
+        guarda en este navegador.
+      </p>
+    </div>
+  )
+}
+
+export default ImageLineagePanel
@@ -2,7 +2,21 @@
 
 import type React from "react"
 import { useState, useEffect, useRef, useCallback, useMemo } from "react"
-import { MapContainer, TileLayer, FeatureGroup, useMap, LayersControl, Marker, Popup, Polygon } from "react-leaflet"
+import {
+  MapContainer,
+  TileLayer,
+  FeatureGroup,
+  useMap,
+  LayersControl,
+  LayerGroup,
+  Marker,
+  Popup,
+  Polygon,
+  Polyline,
+  CircleMarker,
+  Tooltip as LeafletTooltip,
+  GeoJSON as GeoJSONLayer,
+} from "react-leaflet"
 import { EditControl } from "react-leaflet-draw"
 import L from "leaflet"
 import { GeoSearchControl, OpenStreetMapProvider } from "leaflet-geosearch"
@@ -13,6 +27,7 @@ import { Tooltip as UITooltip, TooltipContent, TooltipProvider, TooltipTrigger }
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
 import dynamic from "next/dynamic"
+import { createPortal } from "react-dom"
 import { 
   Navigation, 
   Minimize2, 
@@ -33,12 +48,74 @@ import {
   Satellite, 
   Zap, 
   BarChart as BarChartIcon, 
-  Download 
+  Download,
+  AlertTriangle,
+  Brush
 } from "lucide-react"
 import toast from "react-hot-toast"
 import Image from "next/image"
 import Link from "next/link"
 import { useIsMobile } from "@/hooks/use-mobile"
+import { useApiCacheVersion } from "@/hooks/use-api-cache"
+import BoundaryImportPanel from "@/components/BoundaryImportPanel"
+import FlightPlanPanel, { type FlightPlanTarget } from "@/components/FlightPlanPanel"
+import CameraPosition from "@/components/CameraPosition"
+import MaskEditor from "@/components/MaskEditor"
+import ImageLineagePanel from "@/components/ImageLineagePanel"
+import RoiImage from "@/components/RoiImage"
+import { hasPosition } from "@/lib/photo-metadata"
+import { formatRoiFraction } from "@/lib/roi"
+import { selectTrendImages } from "@/lib/image-lineage"
+import { useTrendChoices } from "@/hooks/use-trend-choices"
+import { parseBoundaryFile, type ImportedBoundary } from "@/lib/geo-import"
+import {
+  formatAreaHa,
+  formatAreaKm2,
+  formatAreaM2,
+  formatLength,
+  measurePolygons,
+  type PolygonMeasurement,
+} from "@/lib/geodesy"
+import {
+  fixPolygons,
+  needsPolygonFixes,
+  validatePolygons,
+  type PolygonIssue,
+  type ReferencePolygon,
+} from "@/lib/polygon-validation"
+import { EXPORT_FORMATS, buildEcosystemFeature, downloadFeatures, type ExportFormat } from "@/lib/geo-export"
+import {
+  FLIGHT_PLAN_FORMATS,
+  downloadFlightPlan,
+  generateFlightPlan,
+  type FlightPlan,
+  type FlightPlanFormat,
+  type FlightPlanParams,
+} from "@/lib/flight-plan"
+import { formatGsd, formatResolution } from "@/lib/camera"
+import {
+  featureCollectionToWKT,
+  geometryToLeafletPolygons,
+  geometryToWKT,
+  getPolygonsCenter,
+  leafletPolygonsToGeometry,
+  wktToLeafletPolygons,
+  type LeafletPolygons,
+} from "@/lib/wkt"
+import {
+  CHANGE_PERIODS,
+  COLOR_RAMPS,
+  computeEcosystemCoverage,
+  getChoroplethColor,
+  getChoroplethScale,
+  getLegendStops,
+  loadCoverageImages,
+  type ChoroplethMode,
+  type ChoroplethScale,
+  type ColorRampId,
+  type EcosystemCoverage,
+} from "@/lib/choropleth"
+import { getEcosystems, getImages, isMaskCorrection, resolveMediaUrl, type Ecosystem, type ImageResult } from "@/lib/api"
 import { 
   Bar, 
   CartesianGrid, 
@@ -92,37 +169,11 @@ const MapResizer: React.FC = () => {
   return null;
 };
 
-// Interfaces
-interface Ecosystem {
-  id: number
-  name: string
-  location: string
-  created_at: string
-}
-
-interface HistoricalImage {
-  id: number
-  ecosystem: number
-  image: string
-  description: string
-  metadata: {
-    resolution_m_per_px: number
-  }
-  capture_date: string
-  vegetation_percentage: number
-  vegetation_area_m2: number
-  water_percentage: number
-  water_area_m2: number
-  is_adjusted: boolean
-  parent_image: number | null
-  adjusted_images: number[]
-}
-
 // Analysis History Modal Props
 interface AnalysisHistoryModalProps {
   isOpen: boolean;
   onClose: () => void;
-  historicalImages: HistoricalImage[];
+  historicalImages: ImageResult[];
   ecosystemName: string;
 }
 
@@ -171,9 +222,10 @@ const AnalysisHistoryModal: React.FC<AnalysisHistoryModalProps> = ({
   historicalImages,
   ecosystemName,
 }) => {
+  const trendChoices = useTrendChoices()
   const monthlyAverages = useMemo(() => {
-    const groupByMonth = (images: HistoricalImage[]) => {
-      const groups: { [key: string]: (HistoricalImage & { monthName: string })[] } = {};
+    const groupByMonth = (images: ImageResult[]) => {
+      const groups: { [key: string]: (ImageResult & { monthName: string })[] } = {};
 
       images.forEach(image => {
         const date = new Date(image.capture_date);
@@ -193,7 +245,8 @@ const AnalysisHistoryModal: React.FC<AnalysisHistoryModalProps> = ({
       return groups;
     };
 
-    const monthlyGroups = groupByMonth(historicalImages);
+    // Una sola versión por captura: la elegida para las tendencias
+    const monthlyGroups = groupByMonth(selectTrendImages(historicalImages, trendChoices));
     const sortedMonths = Object.keys(monthlyGroups).sort().reverse();
 
     return sortedMonths.map(monthKey => {
@@ -210,7 +263,7 @@ const AnalysisHistoryModal: React.FC<AnalysisHistoryModalProps> = ({
         count: monthData.length,
       };
     });
-  }, [historicalImages]);
+  }, [historicalImages, trendChoices]);
 
   const exportToCSV = useCallback(() => {
     if (typeof window === 'undefined' || typeof document === 'undefined') {
@@ -628,9 +681,9 @@ const AnalysisHistoryModal: React.FC<AnalysisHistoryModalProps> = ({
 interface HistoryListModalProps {
   isOpen: boolean
   onClose: () => void
-  historicalImages: HistoricalImage[]
+  historicalImages: ImageResult[]
   ecosystemName: string
-  onViewDetail: (image: HistoricalImage) => void
+  onViewDetail: (image: ImageResult) => void
   onCreateNewAnalysis: () => void
   // Nueva prop para abrir el modal de análisis comparativo
   onViewComparativeAnalysis: () => void;
@@ -775,14 +828,23 @@ const HistoryListModal: React.FC<HistoryListModalProps> = ({
 interface ImageDetailModalProps {
   isOpen: boolean
   onClose: () => void
-  image: HistoricalImage | null
+  image: ImageResult | null
+  // Capturas del ecosistema ya cargadas, para montar el árbol de versiones
+  knownImages: ImageResult[]
+  onCorrectionSaved: (correction: ImageResult) => void
+  onSelectVersion: (version: ImageResult) => void
 }
 
 const ImageDetailModal: React.FC<ImageDetailModalProps> = ({
   isOpen,
   onClose,
   image,
+  knownImages,
+  onCorrectionSaved,
+  onSelectVersion,
 }) => {
+  const [isMaskEditorOpen, setIsMaskEditorOpen] = useState(false)
+
   if (!image) return null
 
   const formatDateForDisplay = (dateString: string) => {
@@ -808,20 +870,39 @@ const ImageDetailModal: React.FC<ImageDetailModalProps> = ({
             {/* Imagen */}
             <div className="space-y-4">
               <div className="bg-gray-100 rounded-lg overflow-hidden border border-gray-200">
-                <img
-                  src={image.image || "/placeholder.svg"}
-                  alt={`Captura ${image.id}`}
-                  className="w-full h-64 object-cover"
-                  onError={(e) => {
-                    (e.target as HTMLImageElement).onerror = null
-                      ; (e.target as HTMLImageElement).src =
-                        'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" class="lucide lucide-image-off"><path d="M10.5 8.5h.01"/><path d="M16 4h2a2 2 0 0 1 2 2v2"/><path d="M20 16v2a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2v-9c0-.6.4-1.2.9-1.6L4 4"/></svg>'
-                  }}
-                />
+                {image.metadata?.roi ? (
+                  <div className="flex justify-center">
+                    <RoiImage
+                      src={image.image || "/placeholder.svg"}
+                      alt={`Captura ${image.id}`}
+                      roi={image.metadata.roi}
+                      imgClassName="max-h-64 w-auto"
+                    />
+                  </div>
+                ) : (
+                  <img
+                    src={image.image || "/placeholder.svg"}
+                    alt={`Captura ${image.id}`}
+                    className="w-full h-64 object-cover"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).onerror = null
+                        ; (e.target as HTMLImageElement).src =
+                          'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" class="lucide lucide-image-off"><path d="M10.5 8.5h.01"/><path d="M16 4h2a2 2 0 0 1 2 2v2"/><path d="M20 16v2a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2v-9c0-.6.4-1.2.9-1.6L4 4"/></svg>'
+                    }}
+                  />
+                )}
               </div>
               <div className="text-sm text-gray-600">
                 <p>Haz clic en la imagen para verla en tamaño completo</p>
               </div>
+              <Button
+                onClick={() => setIsMaskEditorOpen(true)}
+                variant="outline"
+                className="w-full text-gray-700 bg-transparent"
+              >
+                <Brush className="w-4 h-4 mr-2" />
+                Corregir máscara
+              </Button>
             </div>
 
             {/* Información */}
@@ -847,12 +928,21 @@ const ImageDetailModal: React.FC<ImageDetailModalProps> = ({
                     </span>
                   </div>
 
-                  <div className="flex items-center justify-between py-2 border-b border-gray-200">
-                    <span className="text-sm font-medium text-gray-700">Resolución:</span>
-                    <span className="text-sm text-gray-900">
-                      {image.metadata.resolution_m_per_px} m/px
-                    </span>
-                  </div>
+                  {image.metadata?.resolution_m_per_px > 0 && (
+                    <div className="flex items-center justify-between py-2 border-b border-gray-200">
+                      <span className="text-sm font-medium text-gray-700">Resolución:</span>
+                      <span className="text-sm text-gray-900">
+                        {formatResolution(image.metadata.resolution_m_per_px)}
+                      </span>
+                    </div>
+                  )}
+
+                  {hasPosition(image.metadata) && (
+                    <div className="flex items-center justify-between py-2 border-b border-gray-200">
+                      <span className="text-sm font-medium text-gray-700">Posición de la cámara:</span>
+                      <CameraPosition capture={image.metadata} />
+                    </div>
+                  )}
 
                   <div className="flex items-center justify-between py-2 border-b border-gray-200">
                     <span className="text-sm font-medium text-gray-700 flex items-center gap-2">
@@ -900,6 +990,44 @@ const ImageDetailModal: React.FC<ImageDetailModalProps> = ({
                       {image.is_adjusted ? 'Ajustada' : 'Original'}
                     </span>
                   </div>
+
+                  {image.metadata?.roi && (
+                    <div className="flex items-center justify-between py-2 border-b border-gray-200">
+                      <span className="text-sm font-medium text-gray-700">Zona analizada:</span>
+                      <span className="text-sm text-gray-900">{formatRoiFraction(image.metadata.roi)}</span>
+                    </div>
+                  )}
+
+                  {image.parent_image && (
+                    <div className="flex items-center justify-between py-2 border-b border-gray-200">
+                      <span className="text-sm font-medium text-gray-700">Derivada de:</span>
+                      <span className="text-sm text-gray-900 font-mono">#{image.parent_image}</span>
+                    </div>
+                  )}
+
+                  {isMaskCorrection(image) && (
+                    <div className="flex items-center justify-between py-2 border-b border-gray-200">
+                      <span className="text-sm font-medium text-gray-700">Máscara:</span>
+                      <a
+                        href={resolveMediaUrl(image.image)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs font-medium text-purple-700 underline"
+                      >
+                        Corregida a mano
+                      </a>
+                    </div>
+                  )}
+
+                  {image.metadata?.adjustments && (
+                    <div className="flex items-center justify-between py-2 border-b border-gray-200">
+                      <span className="text-sm font-medium text-gray-700">Ajustes:</span>
+                      <span className="text-xs font-medium text-purple-700">
+                        Brillo {image.metadata.adjustments.brightness}% · Contraste {image.metadata.adjustments.contrast}% ·
+                        Saturación {image.metadata.adjustments.saturate}%
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -945,82 +1073,53 @@ const ImageDetailModal: React.FC<ImageDetailModalProps> = ({
               </div>
             </div>
           </div>
+
+          <div className="mt-6 bg-white rounded-lg p-4 border border-gray-200">
+            <ImageLineagePanel image={image} knownImages={knownImages} onSelectVersion={onSelectVersion} />
+          </div>
         </div>
+        {/* Anidado en el contenido para que Radix lo trate como diálogo hijo */}
+        <MaskEditor
+          isOpen={isMaskEditorOpen}
+          onClose={() => setIsMaskEditorOpen(false)}
+          image={image}
+          onSaved={(correction) => {
+            setIsMaskEditorOpen(false)
+            onCorrectionSaved(correction)
+          }}
+        />
       </DialogContent>
     </Dialog>
   )
 }
 
-// Parse WKT POLYGON to Leaflet coordinates
-const parseWKTPolygon = (wkt: string): [number, number][] | null => {
-  try {
-    const cleanWkt = wkt.toUpperCase().replace(/SRID=\d+;/, "")
-    const match = cleanWkt.match(/POLYGON\s*\(\((.*?)\)\)/)
-
-    if (!match) {
-      console.error("WKT no tiene el formato esperado POLYGON ((...)): ", wkt)
-      return null
-    }
-
-    const coordsString = match[1]
-    const coords = coordsString.split(",").map((pair) => {
-      const [lng, lat] = pair.trim().split(/\s+/).map(Number)
-
-      if (isNaN(lat) || isNaN(lng)) {
-        throw new Error("Coordenadas no numéricas detectadas.")
-      }
-
-      return [lat, lng] as [number, number]
-    })
-
-    return coords
-  } catch (error) {
-    console.error("Error al parsear WKT:", error)
-    return null
-  }
-}
-
-// Calculate center of polygon
-const getPolygonCenter = (coords: [number, number][]): [number, number] => {
-  const latSum = coords.reduce((sum, coord) => sum + coord[0], 0)
-  const lngSum = coords.reduce((sum, coord) => sum + coord[1], 0)
-  return [latSum / coords.length, lngSum / coords.length]
-}
-
-// Convert Leaflet polygon coordinates to WKT format
-const convertToWKT = (geoJson: any): string | null => {
-  try {
-    const features = geoJson.features || []
-
-    for (const feature of features) {
-      if (feature.geometry.type === "Polygon") {
-        const coordinates = feature.geometry.coordinates[0]
-        const wktCoords = coordinates.map((coord: [number, number]) => `${coord[0]} ${coord[1]}`).join(", ")
-        return `SRID=4326;POLYGON ((${wktCoords}))`
-      }
-    }
-
-    return null
-  } catch (error) {
-    console.error("[v0] Error converting to WKT:", error)
-    return null
-  }
-}
-
 // Función para obtener el polígono dibujado actual
-const getCurrentDrawnPolygon = (featureGroupRef: React.RefObject<L.FeatureGroup>) => {
+const getCurrentDrawnPolygon = (featureGroupRef: React.RefObject<L.FeatureGroup | null>) => {
   if (!featureGroupRef.current) return null;
 
   const geoJson = featureGroupRef.current.toGeoJSON();
-  const wktLocation = convertToWKT(geoJson);
+  const wktLocation = featureCollectionToWKT(geoJson);
 
   return {
     geoJson,
     wktLocation,
-    drawnItemsCount: featureGroupRef.current.getLayers().length
+    drawnItemsCount: featureGroupRef.current.getLayers().length,
+    ...measureDrawnLayers(featureGroupRef.current)
   };
 }
 
+// Todos los polígonos dibujados (polígonos y rectángulos) en coordenadas [lat, lng]
+const getDrawnPolygons = (featureGroup: L.FeatureGroup): LeafletPolygons => {
+  const geoJson = featureGroup.toGeoJSON() as GeoJSON.FeatureCollection
+  return geoJson.features.flatMap((feature) =>
+    feature.geometry ? geometryToLeafletPolygons(feature.geometry) || [] : [],
+  )
+}
+
+// Área y perímetro geodésicos de todo lo dibujado
+const measureDrawnLayers = (featureGroup: L.FeatureGroup): PolygonMeasurement =>
+  measurePolygons(getDrawnPolygons(featureGroup))
+
 const GeoSearch: React.FC<{ onLocationFound: (label: string) => void }> = ({ onLocationFound }) => {
   const map = useMap();
 
@@ -1086,6 +1185,11 @@ const DrawControl: React.FC<{ featureGroupRef: React.RefObject<L.FeatureGroup>;
     onCountUpdate()
   }
 
+  // Mantiene las mediciones al día mientras se editan los vértices
+  const _onEditing = () => {
+    onCountUpdate()
+  }
+
   return (
     <FeatureGroup ref={featureGroupRef}>
       <EditControl
@@ -1093,6 +1197,9 @@ const DrawControl: React.FC<{ featureGroupRef: React.RefObject<L.FeatureGroup>;
         onCreated={_onCreated}
         onDeleted={_onDeleted}
         onEdited={_onEdited}
+        onEditVertex={_onEditing}
+        onEditMove={_onEditing}
+        onEditResize={_onEditing}
         draw={{
           polyline: false,
           polygon: {
@@ -1132,6 +1239,250 @@ const MapViewController: React.FC<{ center: [number, number] | null; zoom: numbe
   return null;
 };
 
+// Formatea el valor del coroplético según el modo (cobertura o cambio)
+const formatChoroplethValue = (value: number, mode: ChoroplethMode) =>
+  mode === "latest" ? `${value.toFixed(1)}%` : `${value > 0 ? "+" : ""}${value.toFixed(1)} pp`
+
+// Capa de resumen: dibuja el polígono de cada ecosistema con su nombre,
+// coloreado según la cobertura de lirio cuando hay datos
+const EcosystemOverviewLayer: React.FC<{
+  ecosystems: Ecosystem[]
+  selectedEcosystemId: number | null
+  onSelect: (ecosystemId: string) => void
+  coverage: Map<number, EcosystemCoverage>
+  mode: ChoroplethMode
+  getColor: (value: number) => string
+}> = ({ ecosystems, selectedEcosystemId, onSelect, coverage, mode, getColor }) => {
+  const polygons = useMemo(
+    () =>
+      ecosystems
+        .filter((ecosystem) => ecosystem.location && ecosystem.location.trim() !== "")
+        .map((ecosystem) => ({ ecosystem, coords: wktToLeafletPolygons(ecosystem.location as string) }))
+        .filter((item): item is { ecosystem: Ecosystem; coords: LeafletPolygons } => !!item.coords),
+    [ecosystems],
+  )
+
+  return (
+    <LayerGroup>
+      {polygons
+        // El ecosistema seleccionado ya se dibuja resaltado aparte
+        .filter(({ ecosystem }) => ecosystem.id !== selectedEcosystemId)
+        .map(({ ecosystem, coords }) => {
+          const value = coverage.get(ecosystem.id)?.value ?? null
+          const hasData = value !== null
+
+          return (
+            <Polygon
+              key={ecosystem.id}
+              positions={coords}
+              pathOptions={{
+                color: hasData ? getColor(value) : "#6b7280",
+                fillColor: hasData ? getColor(value) : "#9ca3af",
+                fillOpacity: hasData ? 0.55 : 0.15,
+                weight: 2,
+                dashArray: hasData ? undefined : "4 4",
+              }}
+              eventHandlers={{ click: () => onSelect(ecosystem.id.toString()) }}
+            >
+              <LeafletTooltip direction="center" permanent>
+                <div className="text-center">
+                  <div className="font-semibold">{ecosystem.name}</div>
+                  <div className="text-[11px]">{hasData
+                      ? formatChoroplethValue(value, mode)
+                      : coverage.has(ecosystem.id) && mode === "change"
+                        ? "Sin datos para el periodo"
+                        : "Sin datos"}</div>
+                </div>
+              </LeafletTooltip>
+            </Polygon>
+          )
+        })}
+    </LayerGroup>
+  )
+}
+
+// Vista previa de los límites importados; el elegido se resalta
+const BoundaryPreviewLayer: React.FC<{
+  boundaries: ImportedBoundary[]
+  selectedBoundaryId: string | null
+  onSelect: (boundaryId: string) => void
+}> = ({ boundaries, selectedBoundaryId, onSelect }) => {
+  const map = useMap()
+
+  // Encuadra el mapa cuando se importa un archivo nuevo
+  useEffect(() => {
+    if (boundaries.length === 0) return
+    const bounds = L.geoJSON(
+      boundaries.map((boundary) => ({ type: "Feature" as const, geometry: boundary.geometry, properties: {} })),
+    ).getBounds()
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [40, 40] })
+  }, [boundaries, map])
+
+  return (
+    <>
+      {boundaries.map((boundary) => {
+        const isSelected = boundary.id === selectedBoundaryId
+        return (
+          <GeoJSONLayer
+            // La clave incluye la selección porque GeoJSON no actualiza su estilo al cambiar props
+            key={`${boundary.id}-${isSelected}`}
+            data={boundary.geometry}
+            style={{
+              color: "#f97316",
+              weight: isSelected ? 3 : 1.5,
+              fillOpacity: isSelected ? 0.3 : 0.08,
+              dashArray: isSelected ? undefined : "6 4",
+            }}
+            eventHandlers={{ click: () => onSelect(boundary.id) }}
+          >
+            <LeafletTooltip sticky>{boundary.name}</LeafletTooltip>
+          </GeoJSONLayer>
+        )
+      })}
+    </>
+  )
+}
+
+// Vista previa de la ruta de vuelo y sus waypoints
+const FlightPlanLayer: React.FC<{ plan: FlightPlan | null }> = ({ plan }) => {
+  const map = useMap()
+
+  useEffect(() => {
+    if (!plan) return
+    const bounds = L.latLngBounds(plan.waypoints.map(({ lat, lng }) => [lat, lng] as [number, number]))
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [40, 40] })
+  }, [plan, map])
+
+  if (!plan) return null
+
+  return (
+    <>
+      <Polyline
+        positions={plan.waypoints.map(({ lat, lng }) => [lat, lng] as [number, number])}
+        pathOptions={{ color: "#f59e0b", weight: 2, dashArray: "6 4" }}
+      >
+        <LeafletTooltip sticky>
+          {plan.transects} líneas · {plan.params.altitudeM} m · GSD {formatGsd(plan.gsdMPerPx)}
+        </LeafletTooltip>
+      </Polyline>
+      {plan.waypoints.map((waypoint, index) => (
+        <CircleMarker
+          key={index}
+          center={[waypoint.lat, waypoint.lng]}
+          radius={index === 0 ? 6 : 4}
+          pathOptions={{
+            color: index === 0 ? "#16a34a" : "#b45309",
+            fillColor: index === 0 ? "#22c55e" : "#f59e0b",
+            fillOpacity: 1,
+            weight: 1,
+          }}
+        >
+          <LeafletTooltip>
+            WP {index + 1} · línea {waypoint.transect}
+            {index === 0 ? " (inicio)" : ""}
+          </LeafletTooltip>
+        </CircleMarker>
+      ))}
+    </>
+  )
+}
+
+// Control de Leaflet con la leyenda y la configuración del coroplético
+const ChoroplethLegend: React.FC<{
+  mode: ChoroplethMode
+  onModeChange: (mode: ChoroplethMode) => void
+  periodDays: number
+  onPeriodChange: (days: number) => void
+  rampId: ColorRampId
+  onRampChange: (rampId: ColorRampId) => void
+  scale: ChoroplethScale
+  getColor: (value: number) => string
+}> = ({ mode, onModeChange, periodDays, onPeriodChange, rampId, onRampChange, scale, getColor }) => {
+  const map = useMap()
+  const [container, setContainer] = useState<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    const legendControl = new L.Control({ position: "bottomright" })
+    legendControl.onAdd = () => {
+      const div = L.DomUtil.create("div", "leaflet-bar bg-white rounded-lg shadow-md")
+      // Evita que los clics en la leyenda muevan o hagan zoom al mapa
+      L.DomEvent.disableClickPropagation(div)
+      L.DomEvent.disableScrollPropagation(div)
+      setContainer(div)
+      return div
+    }
+    legendControl.addTo(map)
+
+    return () => {
+      legendControl.remove()
+      setContainer(null)
+    }
+  }, [map])
+
+  if (!container) return null
+
+  const stops = getLegendStops(scale)
+  const gradient = `linear-gradient(to right, ${stops.map((stop) => getColor(stop)).join(", ")})`
+
+  return createPortal(
+    <div className="p-3 w-56 space-y-2 text-xs text-gray-700">
+      <div className="font-semibold text-gray-900">
+        {mode === "latest" ? "Cobertura de lirio (última captura)" : "Cambio de cobertura de lirio"}
+      </div>
+      <div className="h-3 rounded" style={{ background: gradient }} />
+      <div className="flex justify-between text-[10px] text-gray-500">
+        {stops.map((stop) => (
+          <span key={stop}>{mode === "latest" ? `${stop}%` : `${stop > 0 ? "+" : ""}${stop}`}</span>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2 pt-2 border-t border-gray-200">
+        <label className="col-span-2 flex flex-col gap-1">
+          Mostrar
+          <select
+            value={mode}
+            onChange={(e) => onModeChange(e.target.value as ChoroplethMode)}
+            className="border border-gray-300 rounded px-1 py-0.5 bg-white"
+          >
+            <option value="latest">Cobertura más reciente</option>
+            <option value="change">Cambio en el periodo</option>
+          </select>
+        </label>
+        {mode === "change" && (
+          <label className="flex flex-col gap-1">
+            Periodo
+            <select
+              value={periodDays}
+              onChange={(e) => onPeriodChange(Number(e.target.value))}
+              className="border border-gray-300 rounded px-1 py-0.5 bg-white"
+            >
+              {CHANGE_PERIODS.map((period) => (
+                <option key={period.days} value={period.days}>
+                  {period.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className={`flex flex-col gap-1 ${mode === "change" ? "" : "col-span-2"}`}>
+          Colores
+          <select
+            value={rampId}
+            onChange={(e) => onRampChange(e.target.value as ColorRampId)}
+            className="border border-gray-300 rounded px-1 py-0.5 bg-white"
+          >
+            {(Object.keys(COLOR_RAMPS) as ColorRampId[]).map((id) => (
+              <option key={id} value={id}>
+                {COLOR_RAMPS[id].label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>,
+    container,
+  )
+}
+
 // CORRECCIÓN: Importar el PhotoAnalyzer modal con configuración segura
 const PhotoAnalyzerModal = dynamic(() => import("@/components/photo-analyzer"), {
   ssr: false,
@@ -1156,13 +1507,20 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
 
   const [ecosystems, setEcosystems] = useState<Ecosystem[]>([])
   const [selectedEcosystem, setSelectedEcosystem] = useState<Ecosystem | null>(null)
-  const [selectedPolygonCoords, setSelectedPolygonCoords] = useState<[number, number][] | null>(null)
+  const [selectedPolygonCoords, setSelectedPolygonCoords] = useState<LeafletPolygons | null>(null)
   const [mapCenter, setMapCenter] = useState<[number, number] | null>(null)
   const [isLoadingEcosystems, setIsLoadingEcosystems] = useState(true)
   const [geocodedMarker, setGeocodedMarker] = useState<[number, number] | null>(null)
 
   const [locationName, setLocationName] = useState("")
   const [drawnItemsCount, setDrawnItemsCount] = useState(0)
+  const [drawnMeasurement, setDrawnMeasurement] = useState<PolygonMeasurement>({ areaM2: 0, perimeterM: 0 })
+  const [importedBoundaries, setImportedBoundaries] = useState<ImportedBoundary[]>([])
+  const [selectedBoundaryId, setSelectedBoundaryId] = useState<string | null>(null)
+  const [isImportingBoundary, setIsImportingBoundary] = useState(false)
+  const [polygonIssues, setPolygonIssues] = useState<{ issues: PolygonIssue[]; onContinue: () => void } | null>(null)
+  const [exportScope, setExportScope] = useState<"selected" | "all" | "drawn">("all")
+  const [flightPlan, setFlightPlan] = useState<FlightPlan | null>(null)
   const [isPanelOpen, setIsPanelOpen] = useState(true)
 
   const isMobile = useIsMobile()
@@ -1221,9 +1579,18 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
   // NUEVO ESTADO para el modal de análisis comparativo
   const [isAnalysisHistoryModalOpen, setIsAnalysisHistoryModalOpen] = useState(false)
   const [selectedEcosystemForHistory, setSelectedEcosystemForHistory] = useState<Ecosystem | null>(null)
-  const [historicalImages, setHistoricalImages] = useState<HistoricalImage[]>([])
-  const [selectedImage, setSelectedImage] = useState<HistoricalImage | null>(null)
+  const [historicalImages, setHistoricalImages] = useState<ImageResult[]>([])
+  const [selectedImage, setSelectedImage] = useState<ImageResult | null>(null)
   const [isLoadingHistory, setIsLoadingHistory] = useState(false)
+  const ecosystemsCacheVersion = useApiCacheVersion("ecosystems/")
+  const imagesCacheVersion = useApiCacheVersion("images/")
+  const trendChoices = useTrendChoices()
+
+  // Estado del mapa coroplético
+  const [coverageImages, setCoverageImages] = useState<ImageResult[]>([])
+  const [choroplethMode, setChoroplethMode] = useState<ChoroplethMode>("latest")
+  const [choroplethPeriod, setChoroplethPeriod] = useState(CHANGE_PERIODS[1].days)
+  const [colorRamp, setColorRamp] = useState<ColorRampId>("infestacion")
 
   // Función para navegar al inicio
   const handleGoHome = () => {
@@ -1252,7 +1619,13 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
   }
 
   // Función para crear nuevo análisis desde polígono existente
-  const handleCreateNewAnalysisFromPolygon = (ecosystem: Ecosystem, polygonCoords: [number, number][]) => {
+  const handleCreateNewAnalysisFromPolygon = (ecosystem: Ecosystem, polygonCoords: LeafletPolygons) => {
+    const geometry = leafletPolygonsToGeometry(polygonCoords);
+    if (!geometry) {
+      toast.error(`El polígono de ${ecosystem.name} no tiene vértices suficientes para crear un análisis`, { icon: "⚠️" });
+      return;
+    }
+
     if (featureGroupRef.current) {
       featureGroupRef.current.clearLayers();
     }
@@ -1266,7 +1639,7 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
 
     if (featureGroupRef.current) {
       featureGroupRef.current.addLayer(polygon);
-      setDrawnItemsCount(1);
+      updateDrawnItemsCount();
     }
 
     const polygonData = {
@@ -1275,16 +1648,14 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
         features: [
           {
             type: "Feature",
-            geometry: {
-              type: "Polygon",
-              coordinates: [polygonCoords.map(coord => [coord[1], coord[0]])]
-            },
+            geometry,
             properties: {}
           }
         ]
       },
-      wktLocation: `SRID=4326;POLYGON ((${polygonCoords.map(coord => `${coord[1]} ${coord[0]}`).join(", ")}))`,
-      drawnItemsCount: 1
+      wktLocation: geometryToWKT(geometry),
+      drawnItemsCount: 1,
+      ...measurePolygons(polygonCoords)
     };
 
     const analysisData = {
@@ -1307,6 +1678,13 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
       return
     }
 
+    validateDrawnPolygons(openNewAnalysis)
+  }
+
+  const openNewAnalysis = () => {
+    const polygonData = getCurrentDrawnPolygon(featureGroupRef);
+    if (!polygonData) return
+
     const analysisData = {
       ...polygonData,
       locationName: locationName || selectedEcosystem?.name || "Nueva Área de Análisis",
@@ -1318,20 +1696,13 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
     toast.success("Creando nuevo análisis...", { icon: "🚀" })
   }
 
-  // Función para cargar todas las imágenes desde la API y filtrar por ecosistema
-  const fetchAllImages = async (): Promise<HistoricalImage[]> => {
+  // Función para cargar las imágenes de un ecosistema (filtradas en el servidor)
+  const fetchEcosystemImages = async (ecosystemId: number): Promise<ImageResult[]> => {
     try {
       setIsLoadingHistory(true)
-      const response = await fetch(`https://sistemahidalgodroneva.site/api/monitoring/images/`)
-
-      if (!response.ok) {
-        throw new Error(`Error al cargar imágenes: ${response.statusText}`)
-      }
-
-      const data = await response.json()
-      return data
+      return await getImages({ ecosystem: ecosystemId, ordering: "-capture_date" })
     } catch (error) {
-      console.error('Error fetching all images:', error)
+      console.error('Error fetching ecosystem images:', error)
       throw error
     } finally {
       setIsLoadingHistory(false)
@@ -1346,8 +1717,7 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
 
       setSelectedEcosystemForHistory(ecosystem)
 
-      const allImages = await fetchAllImages()
-      const filteredImages = allImages.filter(image => image.ecosystem === ecosystemId)
+      const filteredImages = await fetchEcosystemImages(ecosystemId)
 
       setHistoricalImages(filteredImages)
       setActiveModal('history')
@@ -1360,11 +1730,17 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
   }
 
   // Función para ver el detalle de una imagen histórica
-  const handleViewHistoricalDetail = (image: HistoricalImage) => {
+  const handleViewHistoricalDetail = (image: ImageResult) => {
     setSelectedImage(image)
     setActiveModal('imageDetail')
   }
 
+  // La corrección de la máscara es una captura nueva; el detalle pasa a mostrarla
+  const handleCorrectionSaved = (correction: ImageResult) => {
+    setSelectedImage(correction)
+    toast.success(`Corrección guardada como captura #${correction.id}`)
+  }
+
   // NUEVA FUNCIÓN: Maneja la apertura del modal de análisis comparativo
   const handleViewComparativeAnalysis = () => {
     setActiveModal(null); // Cierra el modal de la lista
@@ -1382,13 +1758,10 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
     const fetchEcosystems = async () => {
       setIsLoadingEcosystems(true)
       try {
-        const response = await fetch("https://sistemahidalgodroneva.site/api/monitoring/ecosystems/")
-        if (!response.ok) {
-          throw new Error(`Failed to fetch ecosystems: ${response.statusText}`)
-        }
-        const data: Ecosystem[] = await response.json()
+        const data = await getEcosystems()
         setEcosystems(data)
-        toast.success(`${data.length} ecosistemas cargados`, { icon: "🌍" })
+        // Las recargas tras invalidar la caché no vuelven a anunciarse
+        if (ecosystemsCacheVersion === 0) toast.success(`${data.length} ecosistemas cargados`, { icon: "🌍" })
       } catch (error) {
         console.error("Error fetching ecosystems:", error)
         toast.error("Error al cargar ecosistemas desde la API", { icon: "❌" })
@@ -1398,7 +1771,54 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
     }
 
     fetchEcosystems()
-  }, [])
+  }, [ecosystemsCacheVersion])
+
+  // Capturas recientes de cada ecosistema (y las del inicio del periodo) para colorear el mapa
+  useEffect(() => {
+    const controller = new AbortController()
+    loadCoverageImages(
+      ecosystems.map((ecosystem) => ecosystem.id),
+      choroplethMode,
+      choroplethPeriod,
+      controller.signal,
+    )
+      .then(setCoverageImages)
+      .catch((error) => {
+        if (controller.signal.aborted) return
+        console.error("Error al cargar la cobertura de los ecosistemas:", error)
+      })
+    return () => controller.abort()
+  }, [ecosystems, choroplethMode, choroplethPeriod, imagesCacheVersion])
+
+  const ecosystemCoverage = useMemo(
+    () => computeEcosystemCoverage(coverageImages, choroplethMode, choroplethPeriod, trendChoices),
+    [coverageImages, choroplethMode, choroplethPeriod, trendChoices],
+  )
+  const choroplethScale = useMemo(
+    () => getChoroplethScale(ecosystemCoverage, choroplethMode),
+    [ecosystemCoverage, choroplethMode],
+  )
+  const getCoverageColor = useCallback(
+    (value: number) => getChoroplethColor(value, choroplethScale, colorRamp),
+    [choroplethScale, colorRamp],
+  )
+
+  // El seleccionado conserva el contorno azul, con el relleno del coroplético si hay datos
+  const selectedCoverageValue = selectedEcosystem ? ecosystemCoverage.get(selectedEcosystem.id)?.value ?? null : null
+  const selectedPolygonStyle = {
+    color: "#1a73e8",
+    fillColor: selectedCoverageValue !== null ? getCoverageColor(selectedCoverageValue) : "#1a73e8",
+    fillOpacity: selectedCoverageValue !== null ? 0.55 : 0.2,
+    weight: 3,
+  }
+
+  // Si llegan capturas nuevas mientras el historial está abierto, se actualiza
+  useEffect(() => {
+    if (imagesCacheVersion === 0 || !selectedEcosystemForHistory) return
+    getImages({ ecosystem: selectedEcosystemForHistory.id, ordering: "-capture_date" })
+      .then(setHistoricalImages)
+      .catch((error) => console.error("Error al actualizar el historial:", error))
+  }, [imagesCacheVersion, selectedEcosystemForHistory])
 
   const geocodeLocationByName = async (locationName: string): Promise<[number, number] | null> => {
     try {
@@ -1423,7 +1843,7 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
   const handleEcosystemSelect = async (ecosystemId: string) => {
     if (featureGroupRef.current) {
       featureGroupRef.current.clearLayers()
-      setDrawnItemsCount(0)
+      updateDrawnItemsCount()
     }
 
     if (ecosystemId === "none") {
@@ -1445,10 +1865,10 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
     setSelectedPolygonCoords(null)
 
     if (ecosystem.location) {
-      const coords = parseWKTPolygon(ecosystem.location)
+      const coords = wktToLeafletPolygons(ecosystem.location)
       if (coords) {
         setSelectedPolygonCoords(coords)
-        const center = getPolygonCenter(coords)
+        const center = getPolygonsCenter(coords)
         console.log("Parsed Polygon Coordinates:", coords)
         setMapCenter(center)
         toast.success(`Ecosistema "${ecosystem.name}" cargado y ubicado`, { icon: "📍" })
@@ -1476,6 +1896,7 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
   const updateDrawnItemsCount = useCallback(() => {
     if (featureGroupRef.current) {
       setDrawnItemsCount(featureGroupRef.current.getLayers().length)
+      setDrawnMeasurement(measureDrawnLayers(featureGroupRef.current))
     }
   }, [])
 
@@ -1513,6 +1934,68 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
     }
   }, [handleCreated, handleEdited, handleDeleted])
 
+  // Polígonos de los ecosistemas existentes para detectar superposiciones
+  const ecosystemReferencePolygons = useMemo(
+    () =>
+      ecosystems
+        .map((ecosystem) => ({
+          id: ecosystem.id,
+          name: ecosystem.name,
+          polygons: ecosystem.location ? wktToLeafletPolygons(ecosystem.location) : null,
+        }))
+        .filter((reference): reference is ReferencePolygon => !!reference.polygons),
+    [ecosystems],
+  )
+
+  // Corrige cada capa dibujada en su sitio, sin fusionarlas; las que no quedan válidas se quitan
+  const applyPolygonFixes = () => {
+    const group = featureGroupRef.current
+    if (!group) return
+    group.getLayers().forEach((layer) => {
+      if (!(layer instanceof L.Polygon)) return
+      const polygons = geometryToLeafletPolygons(layer.toGeoJSON().geometry) || []
+      if (!needsPolygonFixes(polygons)) return
+      const fixed = fixPolygons(polygons)
+      if (fixed.length === 0) group.removeLayer(layer)
+      else layer.setLatLngs(fixed)
+    })
+    updateDrawnItemsCount()
+  }
+
+  /**
+   * Valida la geometría antes de abrir el analizador. Cualquier problema se
+   * muestra al usuario, que decide si corregir automáticamente o continuar;
+   * nada de lo dibujado cambia sin su confirmación.
+   */
+  const validateDrawnPolygons = (onValid: () => void) => {
+    if (!featureGroupRef.current) return
+
+    const issues = validatePolygons(getDrawnPolygons(featureGroupRef.current), {
+      selectedEcosystem: ecosystemReferencePolygons.find((e) => e.id === selectedEcosystem?.id) || null,
+      ecosystems: ecosystemReferencePolygons,
+    })
+
+    if (issues.length === 0) {
+      onValid()
+      return
+    }
+
+    setPolygonIssues({ issues, onContinue: onValid })
+  }
+
+  const handlePolygonAutoFix = () => {
+    if (!polygonIssues) return
+    const { onContinue } = polygonIssues
+    setPolygonIssues(null)
+    applyPolygonFixes()
+
+    if (!featureGroupRef.current || featureGroupRef.current.getLayers().length === 0) {
+      toast.error("Después de la corrección no quedó ningún polígono válido. Dibuja el área de nuevo.", { icon: "⚠️" })
+      return
+    }
+    validateDrawnPolygons(onContinue)
+  }
+
   const handleAnalyzeClick = () => {
     const polygonData = getCurrentDrawnPolygon(featureGroupRef);
 
@@ -1521,6 +2004,13 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
       return;
     }
 
+    validateDrawnPolygons(openAnalysis)
+  }
+
+  const openAnalysis = () => {
+    const polygonData = getCurrentDrawnPolygon(featureGroupRef);
+    if (!polygonData) return
+
     let ecosystemId = "new";
     let finalLocationName = locationName;
 
@@ -1540,6 +2030,112 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
     toast.success("Abriendo formulario de análisis...", { icon: "🚀" });
   };
 
+  // Importación de límites desde archivo (GeoJSON, KML/KMZ, Shapefile)
+  const handleBoundaryFile = async (file: File) => {
+    setIsImportingBoundary(true)
+    try {
+      const boundaries = await parseBoundaryFile(file)
+      setImportedBoundaries(boundaries)
+      setSelectedBoundaryId(boundaries.length === 1 ? boundaries[0].id : null)
+      toast.success(
+        boundaries.length === 1
+          ? `Se importó "${boundaries[0].name}"`
+          : `${boundaries.length} elementos encontrados. Elige uno para cargarlo.`,
+        { icon: "🗺️" },
+      )
+    } catch (error) {
+      console.error("Error al importar límites:", error)
+      toast.error(error instanceof Error ? error.message : "No se pudo importar el archivo", { icon: "❌" })
+    } finally {
+      setIsImportingBoundary(false)
+    }
+  }
+
+  const handleClearBoundaries = () => {
+    setImportedBoundaries([])
+    setSelectedBoundaryId(null)
+  }
+
+  // Carga el elemento elegido en el grupo de dibujo para tratarlo como un polígono dibujado
+  const handleLoadBoundary = () => {
+    const boundary = importedBoundaries.find((b) => b.id === selectedBoundaryId)
+    const polygons = boundary ? geometryToLeafletPolygons(boundary.geometry) : null
+    if (!boundary || !polygons || !featureGroupRef.current) return
+
+    const polygon = L.polygon(polygons, { color: "#1a73e8", fillColor: "#1a73e8", fillOpacity: 0.2, weight: 3 })
+    featureGroupRef.current.clearLayers()
+    featureGroupRef.current.addLayer(polygon)
+    updateDrawnItemsCount()
+
+    if (!selectedEcosystem) setLocationName(boundary.name)
+    mapRef.current?.fitBounds(polygon.getBounds(), { padding: [40, 40] })
+    handleClearBoundaries()
+    toast.success(`"${boundary.name}" cargado. Ya puedes analizarlo.`, { icon: "✅" })
+  }
+
+  // Exporta el ecosistema seleccionado, todos o el área dibujada con sus métricas
+  const handleExport = (format: ExportFormat) => {
+    try {
+      let features: GeoJSON.Feature[] = []
+      let baseName = "ecosistemas"
+
+      if (exportScope === "drawn") {
+        const geoJson = featureGroupRef.current?.toGeoJSON() as GeoJSON.FeatureCollection | undefined
+        features = (geoJson?.features || []).map((feature, index) => ({
+          ...feature,
+          properties: {
+            name: `${locationName || "Área dibujada"}${index > 0 ? ` ${index + 1}` : ""}`,
+            ecosystem_id: selectedEcosystem?.id ?? null,
+          },
+        }))
+        baseName = `area-dibujada-${locationName || "mapa"}`
+      } else {
+        const targets = exportScope === "selected" ? (selectedEcosystem ? [selectedEcosystem] : []) : ecosystems
+        features = targets
+          .map((ecosystem) => buildEcosystemFeature(ecosystem, ecosystemCoverage.get(ecosystem.id)?.latest))
+          .filter((feature): feature is GeoJSON.Feature => feature !== null)
+        if (exportScope === "selected" && selectedEcosystem) baseName = `ecosistema-${selectedEcosystem.name}`
+      }
+
+      if (features.length === 0) {
+        toast.error("No hay geometrías para exportar con la opción elegida", { icon: "⚠️" })
+        return
+      }
+
+      downloadFeatures(features, format, baseName)
+      toast.success(`${EXPORT_FORMATS[format].label} exportado (${features.length} elementos)`, { icon: "📦" })
+    } catch (error) {
+      console.error("Error al exportar geometrías:", error)
+      toast.error("Error al exportar las geometrías", { icon: "❌" })
+    }
+  }
+
+  // Plan de vuelo en cuadrícula sobre el ecosistema seleccionado o el área dibujada
+  const handleGenerateFlightPlan = (target: FlightPlanTarget, params: FlightPlanParams) => {
+    const polygons =
+      target === "selected" ? selectedPolygonCoords : featureGroupRef.current ? getDrawnPolygons(featureGroupRef.current) : null
+    if (!polygons || polygons.length === 0) {
+      toast.error("No hay un área para planear el vuelo", { icon: "⚠️" })
+      return
+    }
+
+    try {
+      const plan = generateFlightPlan(polygons, params)
+      setFlightPlan(plan)
+      toast.success(`Plan generado: ${plan.transects} líneas, ${plan.waypoints.length} waypoints`, { icon: "🛩️" })
+    } catch (error) {
+      console.error("Error al generar el plan de vuelo:", error)
+      toast.error(error instanceof Error ? error.message : "No se pudo generar el plan de vuelo", { icon: "❌" })
+    }
+  }
+
+  const handleExportFlightPlan = (format: FlightPlanFormat) => {
+    if (!flightPlan) return
+    const baseName = `plan-vuelo-${selectedEcosystem?.name || locationName || "area"}`
+    downloadFlightPlan(flightPlan, format, baseName)
+    toast.success(`${FLIGHT_PLAN_FORMATS[format].label} exportado`, { icon: "📦" })
+  }
+
   const handleLocationFound = (label: string) => {
     setLocationName(label)
   }
@@ -1691,11 +2287,30 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
             </div>
           )}
 
+          <BoundaryImportPanel
+            boundaries={importedBoundaries}
+            selectedBoundaryId={selectedBoundaryId}
+            isImporting={isImportingBoundary}
+            onFile={handleBoundaryFile}
+            onSelect={setSelectedBoundaryId}
+            onLoad={handleLoadBoundary}
+            onClear={handleClearBoundaries}
+          />
+
           <div className="flex items-center justify-between text-xs px-1">
             <span className="text-gray-600">Elementos dibujados</span>
             <Badge variant={drawnItemsCount > 0 ? "default" : "secondary"} className="bg-blue-600 text-white">{drawnItemsCount}</Badge>
           </div>
 
+          {drawnItemsCount > 0 && drawnMeasurement.areaM2 > 0 && (
+            <div className="text-xs p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-1">
+              <div className="font-medium text-gray-700 mb-1">Medición geodésica</div>
+              <div className="flex justify-between"><span className="text-gray-600">Área</span><span className="font-medium text-gray-900">{formatAreaM2(drawnMeasurement.areaM2)}</span></div>
+              <div className="flex justify-between"><span className="text-gray-600"></span><span className="text-gray-700">{formatAreaHa(drawnMeasurement.areaM2)} · {formatAreaKm2(drawnMeasurement.areaM2)}</span></div>
+              <div className="flex justify-between"><span className="text-gray-600">Perímetro</span><span className="font-medium text-gray-900">{formatLength(drawnMeasurement.perimeterM)}</span></div>
+            </div>
+          )}
+
           {!isActionEnabled && (
             <div className="text-center p-6 border-2 border-dashed border-gray-300 rounded-lg bg-gray-50">
               <Plus className="h-8 w-8 text-gray-400 mx-auto mb-2" />
@@ -1717,6 +2332,47 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
             </div>
           )}
 
+          <div className="space-y-2 pt-3 border-t border-gray-200">
+            <h3 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+              <Download className="h-4 w-4 text-blue-600" />
+              Exportar geometrías
+            </h3>
+            <Select value={exportScope} onValueChange={(value) => setExportScope(value as typeof exportScope)}>
+              <SelectTrigger className="w-full border-gray-300 bg-white h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[1001]">
+                <SelectItem value="all">Todos los ecosistemas</SelectItem>
+                <SelectItem value="selected" disabled={!selectedEcosystem}>Ecosistema seleccionado</SelectItem>
+                <SelectItem value="drawn" disabled={drawnItemsCount === 0}>Área dibujada</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                <Button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  size="sm"
+                  variant="outline"
+                  className="h-8 px-2 text-xs bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                >
+                  {EXPORT_FORMATS[format].label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="pt-3 border-t border-gray-200">
+            <FlightPlanPanel
+              plan={flightPlan}
+              canUseSelected={!!selectedPolygonCoords}
+              canUseDrawn={drawnItemsCount > 0}
+              onGenerate={handleGenerateFlightPlan}
+              onExport={handleExportFlightPlan}
+              onClear={() => setFlightPlan(null)}
+            />
+          </div>
+
           <div className="text-xs text-gray-600 pt-3 border-t border-gray-200">
             <div className="font-medium mb-2 text-gray-700">Instrucciones</div>
             <ul className="space-y-1.5 text-gray-600">
@@ -1744,7 +2400,15 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
       </div>
 
       {/* Mapa */}
-      <div className="flex-1 relative mt-16">
+      <div
+        className="flex-1 relative mt-16"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault()
+          const file = e.dataTransfer.files?.[0]
+          if (file) handleBoundaryFile(file)
+        }}
+      >
         <MapContainer 
           center={mapCenter || [21.0, -99.0]} 
           zoom={mapCenter ? 14 : 6} 
@@ -1773,8 +2437,29 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
             <LayersControl.BaseLayer name="Híbrido (Satélite + Nombres)">
               <TileLayer attribution='© <a href="https://maps.google.com">Google Hybrid</a>' url="https://mt1.google.com/vt/lyrs=y&x={x}&y={y}&z={z}" />
             </LayersControl.BaseLayer>
+            <LayersControl.Overlay checked name="Todos los ecosistemas">
+              <EcosystemOverviewLayer
+                ecosystems={ecosystems}
+                selectedEcosystemId={selectedEcosystem?.id ?? null}
+                onSelect={handleEcosystemSelect}
+                coverage={ecosystemCoverage}
+                mode={choroplethMode}
+                getColor={getCoverageColor}
+              />
+            </LayersControl.Overlay>
           </LayersControl>
 
+          <ChoroplethLegend
+            mode={choroplethMode}
+            onModeChange={setChoroplethMode}
+            periodDays={choroplethPeriod}
+            onPeriodChange={setChoroplethPeriod}
+            rampId={colorRamp}
+            onRampChange={setColorRamp}
+            scale={choroplethScale}
+            getColor={getCoverageColor}
+          />
+
           {/* CORRECCIÓN: Agregar el componente MapResizer */}
           <MapResizer />
           
@@ -1782,8 +2467,14 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
           <DrawControl featureGroupRef={featureGroupRef} onCountUpdate={updateDrawnItemsCount} />
 
           {mapCenter && <MapViewController center={mapCenter} zoom={14} />}
+          <BoundaryPreviewLayer
+            boundaries={importedBoundaries}
+            selectedBoundaryId={selectedBoundaryId}
+            onSelect={setSelectedBoundaryId}
+          />
+          <FlightPlanLayer plan={flightPlan} />
           {selectedPolygonCoords && selectedEcosystem && (
-            <Polygon positions={selectedPolygonCoords} pathOptions={{ color: "#1a73e8", fillColor: "#1a73e8", fillOpacity: 0.2, weight: 3 }}>
+            <Polygon positions={selectedPolygonCoords} pathOptions={selectedPolygonStyle}>
               <Popup>
                 <div className="text-sm space-y-2 min-w-[250px]">
                   <div className="font-semibold text-gray-900 text-base">{selectedEcosystem?.name}</div>
@@ -1836,6 +2527,51 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
 
       {/* MODALES */}
 
+      <Dialog open={!!polygonIssues} onOpenChange={(open) => !open && setPolygonIssues(null)}>
+        <DialogContent className="max-w-lg z-[10050]">
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Revisa el polígono antes de analizar
+          </DialogTitle>
+          <ul className="space-y-2 text-sm">
+            {polygonIssues?.issues.map((issue) => (
+              <li
+                key={issue.code}
+                className={`p-3 rounded-lg border ${
+                  issue.severity === "error" ? "bg-red-50 border-red-200 text-red-800" : "bg-amber-50 border-amber-200 text-amber-800"
+                }`}
+              >
+                <span className="font-medium">{issue.severity === "error" ? "Error: " : "Advertencia: "}</span>
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap justify-end gap-2 pt-2">
+            <Button variant="outline" size="sm" onClick={() => setPolygonIssues(null)}>
+              Cancelar
+            </Button>
+            {polygonIssues?.issues.some((issue) => issue.fixable) && (
+              <Button size="sm" onClick={handlePolygonAutoFix} className="bg-blue-600 hover:bg-blue-700 text-white">
+                Corregir automáticamente
+              </Button>
+            )}
+            {polygonIssues && polygonIssues.issues.every((issue) => issue.severity === "warning") && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  const { onContinue } = polygonIssues
+                  setPolygonIssues(null)
+                  onContinue()
+                }}
+              >
+                Continuar de todos modos
+              </Button>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <PhotoAnalyzerModal
         isOpen={isAnalyzerModalOpen}
         onClose={handleCloseAnalyzerModal}
@@ -1858,6 +2594,9 @@ const MapComponent: React.FC<{ onAnalyze?: (data: any) => void }> = ({ onAnalyze
         isOpen={activeModal === 'imageDetail'}
         onClose={closeAllModals}
         image={selectedImage}
+        knownImages={historicalImages}
+        onCorrectionSaved={handleCorrectionSaved}
+        onSelectVersion={setSelectedImage}
       />
 
       {/* NUEVO RENDERIZADO DEL MODAL DE ANÁLISIS HISTÓRICO */}
@@ -0,0 +1,393 @@
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { Brush, Eraser, Loader2, Pentagon, RotateCcw, Save, Undo2 } from "lucide-react"
+import { isMaskCorrection, resolveMediaUrl, saveMaskCorrection, type ImageResult } from "@/lib/api"
+import { SEGMENT_COLORS, SEGMENT_VEGETATION } from "@/lib/segmentation-pixels"
+import {
+  MASK_CLASSES,
+  fillPolygon,
+  findMaskPhoto,
+  loadEditableMask,
+  maskCoverage,
+  maskToPng,
+  paintOverlay,
+  paintStroke,
+  replaceMaskData,
+  type EditableMask,
+  type EditableMaskSource,
+  type MaskClass,
+  type MaskPoint,
+  type MaskRect,
+} from "@/lib/mask-editor"
+
+type MaskTool = "brush" | "eraser" | "polygon"
+
+const TOOLS: { value: MaskTool; label: string; icon: typeof Brush }[] = [
+  { value: "brush", label: "Pincel", icon: Brush },
+  { value: "eraser", label: "Borrador", icon: Eraser },
+  { value: "polygon", label: "Polígono", icon: Pentagon },
+]
+
+// Pasos de deshacer que se guardan; cada uno es una copia completa de la máscara
+const MAX_UNDO_STEPS = 20
+
+const classColor = (value: MaskClass) => `rgb(${SEGMENT_COLORS[value].slice(0, 3).join(", ")})`
+
+interface MaskEditorProps {
+  isOpen: boolean
+  onClose: () => void
+  image: ImageResult
+  onSaved: (correction: ImageResult) => void
+}
+
+/**
+ * Editor de la máscara agua / lirio / otro de una captura. Parte de la
+ * máscara corregida guardada o, si no la hay, de una clasificación por
+ * índices de color hecha en el navegador; recalcula la cobertura con cada
+ * trazo y guarda el resultado como captura ajustada.
+ */
+const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, image, onSaved }) => {
+  const photoCanvasRef = useRef<HTMLCanvasElement>(null)
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null)
+  const maskRef = useRef<EditableMask | null>(null)
+  // Máscara inicial, a la que vuelve el borrador
+  const initialRef = useRef<Uint8Array | null>(null)
+  const overlayRef = useRef<ImageData | null>(null)
+  const undoRef = useRef<Uint8Array[]>([])
+  const lastPointRef = useRef<MaskPoint | null>(null)
+
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [maskSource, setMaskSource] = useState<EditableMaskSource | null>(null)
+  // Captura con la foto de fondo: la propia o, si es una corrección, la original de la que deriva
+  const [photoImage, setPhotoImage] = useState<ImageResult | null>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [tool, setTool] = useState<MaskTool>("brush")
+  const [maskClass, setMaskClass] = useState<MaskClass>(SEGMENT_VEGETATION)
+  const [radius, setRadius] = useState(12)
+  const [polygon, setPolygon] = useState<MaskPoint[]>([])
+  const [undoCount, setUndoCount] = useState(0)
+  const [edited, setEdited] = useState(false)
+  const [saving, setSaving] = useState(false)
+  // Sube con cada trazo para volver a calcular la cobertura a partir de los conteos del ref
+  const [, setVersion] = useState(0)
+
+  const resolution = (photoImage ?? image).metadata?.resolution_m_per_px ?? 0
+
+  const drawOverlay = useCallback((rect?: MaskRect | null) => {
+    const mask = maskRef.current
+    const overlay = overlayRef.current
+    const context = overlayCanvasRef.current?.getContext("2d")
+    if (!mask || !overlay || !context) return
+    paintOverlay(overlay.data, mask, rect)
+    if (rect) {
+      context.putImageData(overlay, 0, 0, rect.x, rect.y, rect.width, rect.height)
+    } else {
+      context.putImageData(overlay, 0, 0)
+    }
+    setVersion((current) => current + 1)
+  }, [])
+
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    setMaskSource(null)
+    setPhotoImage(null)
+    setPolygon([])
+    setEdited(false)
+    undoRef.current = []
+    setUndoCount(0)
+
+    const load = async () => {
+      const photoSource = await findMaskPhoto(image)
+      const correctedMask = isMaskCorrection(image) ? resolveMediaUrl(image.image) : null
+      const loaded = await loadEditableMask(resolveMediaUrl(photoSource.image), photoSource.metadata?.roi, correctedMask)
+      return { ...loaded, photoSource }
+    }
+    load()
+      .then(({ mask, photo, source, photoSource }) => {
+        if (cancelled) return
+        maskRef.current = mask
+        setPhotoImage(photoSource)
+        setMaskSource(source)
+        initialRef.current = mask.data.slice()
+        overlayRef.current = new ImageData(mask.width, mask.height)
+        setSize({ width: mask.width, height: mask.height })
+        // Los lienzos se dibujan cuando ya tienen su tamaño en el DOM
+        requestAnimationFrame(() => {
+          photoCanvasRef.current?.getContext("2d")?.putImageData(photo, 0, 0)
+          drawOverlay()
+        })
+      })
+      .catch((loadError) => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : "No se pudo cargar la captura.")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, image, drawOverlay])
+
+  const pushUndo = () => {
+    if (!maskRef.current) return
+    undoRef.current = [...undoRef.current.slice(-(MAX_UNDO_STEPS - 1)), maskRef.current.data.slice()]
+    setUndoCount(undoRef.current.length)
+  }
+
+  const handleUndo = () => {
+    const previous = undoRef.current.pop()
+    if (!previous || !maskRef.current) return
+    replaceMaskData(maskRef.current, previous)
+    setUndoCount(undoRef.current.length)
+    drawOverlay()
+  }
+
+  const handleRestore = () => {
+    if (!maskRef.current || !initialRef.current) return
+    pushUndo()
+    replaceMaskData(maskRef.current, initialRef.current)
+    setPolygon([])
+    drawOverlay()
+  }
+
+  // Convierte la posición del puntero a coordenadas de la máscara
+  const toMaskPoint = (event: React.PointerEvent<HTMLCanvasElement>): MaskPoint => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    return {
+      x: ((event.clientX - bounds.left) / bounds.width) * size.width,
+      y: ((event.clientY - bounds.top) / bounds.height) * size.height,
+    }
+  }
+
+  const valueAt = (index: number) => (tool === "eraser" ? (initialRef.current?.[index] ?? 0) : maskClass)
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const mask = maskRef.current
+    if (!mask || saving) return
+    const point = toMaskPoint(event)
+
+    if (tool === "polygon") {
+      setPolygon((current) => [...current, point])
+      return
+    }
+    event.currentTarget.setPointerCapture(event.pointerId)
+    pushUndo()
+    lastPointRef.current = point
+    drawOverlay(paintStroke(mask, point, point, radius, valueAt))
+    setEdited(true)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const mask = maskRef.current
+    const last = lastPointRef.current
+    if (!mask || !last) return
+    const point = toMaskPoint(event)
+    drawOverlay(paintStroke(mask, last, point, radius, valueAt))
+    lastPointRef.current = point
+  }
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null
+  }
+
+  const handleFillPolygon = () => {
+    if (!maskRef.current || polygon.length < 3) return
+    pushUndo()
+    drawOverlay(fillPolygon(maskRef.current, polygon, maskClass))
+    setPolygon([])
+    setEdited(true)
+  }
+
+  const handleSave = async () => {
+    const mask = maskRef.current
+    if (!mask) return
+    setSaving(true)
+    setError(null)
+    try {
+      const correction = await saveMaskCorrection({
+        image,
+        mask: await maskToPng(mask),
+        // La máscara está reducida al tamaño del editor: cada píxel cubre más terreno que en la foto
+        resolutionMPerPx: resolution ? (resolution * mask.sourceWidth) / mask.width : null,
+      })
+      onSaved(correction)
+    } catch (saveError) {
+      console.error("Error al guardar la corrección de la máscara:", saveError)
+      setError(saveError instanceof Error ? saveError.message : "No se pudo guardar la corrección.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const coverage = maskRef.current ? maskCoverage(maskRef.current, resolution) : null
+  const rows = [
+    { label: "Lirio", original: image.vegetation_percentage, corrected: coverage?.vegetation_percentage, unit: "%" },
+    { label: "Área de lirio", original: image.vegetation_area_m2, corrected: coverage?.vegetation_area_m2, unit: " m²" },
+    { label: "Agua", original: image.water_percentage, corrected: coverage?.water_percentage, unit: "%" },
+    { label: "Área de agua", original: image.water_area_m2, corrected: coverage?.water_area_m2, unit: " m²" },
+  ]
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-5xl w-full max-h-[90vh] overflow-y-auto z-[10060]">
+        <DialogTitle>Corregir máscara - Captura #{image.id}</DialogTitle>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {TOOLS.map(({ value, label, icon: Icon }) => (
+            <Button
+              key={value}
+              onClick={() => setTool(value)}
+              size="sm"
+              variant={tool === value ? "default" : "outline"}
+              className="h-8 text-xs"
+            >
+              <Icon className="w-3 h-3 mr-1" />
+              {label}
+            </Button>
+          ))}
+          <span className="mx-2 h-6 border-l border-slate-200" />
+          {MASK_CLASSES.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setMaskClass(value)}
+              disabled={tool === "eraser"}
+              className={`h-8 px-3 rounded-md border text-xs flex items-center gap-1 disabled:opacity-50 ${
+                maskClass === value ? "border-slate-900 font-semibold" : "border-slate-200"
+              }`}
+            >
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: classColor(value) }} />
+              {label}
+            </button>
+          ))}
+          {tool !== "polygon" && (
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              Tamaño
+              <input type="range" min={2} max={60} value={radius} onChange={(e) => setRadius(Number(e.target.value))} />
+            </label>
+          )}
+          <Button onClick={handleUndo} disabled={undoCount === 0} size="sm" variant="outline" className="ml-auto h-8 text-xs">
+            <Undo2 className="w-3 h-3 mr-1" />
+            Deshacer
+          </Button>
+          <Button onClick={handleRestore} disabled={!edited} size="sm" variant="outline" className="h-8 text-xs">
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Restablecer
+          </Button>
+        </div>
+
+        {tool === "polygon" && (
+          <div className="flex items-center gap-2 text-xs text-slate-600">
+            <span>Haz clic para marcar los vértices ({polygon.length}).</span>
+            <Button onClick={handleFillPolygon} disabled={polygon.length < 3} size="sm" className="h-7 text-xs">
+              Rellenar polígono
+            </Button>
+            <Button onClick={() => setPolygon([])} disabled={polygon.length === 0} size="sm" variant="outline" className="h-7 text-xs">
+              Descartar
+            </Button>
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-[1fr_16rem] gap-4">
+          <div className="relative bg-slate-100 rounded-lg overflow-hidden min-h-48 flex items-center justify-center">
+            {loading && <Loader2 className="w-6 h-6 animate-spin text-blue-500" />}
+            {!loading && size.width > 0 && (
+              <div className="relative w-full" style={{ aspectRatio: `${size.width} / ${size.height}` }}>
+                <canvas ref={photoCanvasRef} width={size.width} height={size.height} className="absolute inset-0 w-full h-full" />
+                <canvas
+                  ref={overlayCanvasRef}
+                  width={size.width}
+                  height={size.height}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+                />
+                {polygon.length > 0 && (
+                  <svg
+                    viewBox={`0 0 ${size.width} ${size.height}`}
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                  >
+                    <polygon
+                      points={polygon.map((point) => `${point.x},${point.y}`).join(" ")}
+                      fill={classColor(maskClass)}
+                      fillOpacity={0.3}
+                      stroke="white"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  </svg>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <table className="w-full text-xs border border-slate-200 rounded-lg overflow-hidden">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <th className="px-2 py-1 text-left">Métrica</th>
+                  <th className="px-2 py-1 text-right">Análisis</th>
+                  <th className="px-2 py-1 text-right">Corregida</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.label} className="border-t border-slate-100">
+                    <td className="px-2 py-1 text-slate-700">{row.label}</td>
+                    <td className="px-2 py-1 text-right text-slate-500">
+                      {row.original?.toFixed(2)}
+                      {row.unit}
+                    </td>
+                    <td className="px-2 py-1 text-right font-semibold text-slate-900">
+                      {row.corrected !== undefined ? `${row.corrected.toFixed(2)}${row.unit}` : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!resolution && (
+              <p className="text-xs text-amber-700">La captura no tiene resolución en terreno: las áreas quedan en 0.</p>
+            )}
+            {maskSource === "estimated" && (
+              <p className="text-xs text-amber-700">
+                La máscara inicial no es la clasificación del servidor: es una aproximación por color calculada en el
+                navegador, así que su cobertura puede no coincidir con la columna «Análisis». Corrige las zonas mal
+                clasificadas antes de guardar.
+              </p>
+            )}
+            {maskSource === "corrected" && (
+              <p className="text-xs text-slate-500">La máscara inicial es la corrección guardada de esta captura.</p>
+            )}
+            {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <Button onClick={onClose} disabled={saving} variant="outline" className="flex-1 h-9 text-xs bg-transparent">
+                Cancelar
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={!edited || saving || loading}
+                className="flex-1 h-9 text-xs bg-blue-600 hover:bg-blue-700 text-white"
+              >
+                {saving ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Save className="w-3 h-3 mr-1" />}
+                Guardar corrección
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default MaskEditor
@@ -0,0 +1,123 @@
+"use client"
+
+import type React from "react"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Button } from "@/components/ui/button"
+import { CloudOff, CloudUpload, Loader2, Trash2 } from "lucide-react"
+import { useOfflineQueue } from "@/hooks/use-offline-queue"
+import { discardRejectedUploads, removeQueuedUpload, syncOfflineQueue } from "@/lib/api"
+
+// Indicador del encabezado con los lotes que esperan conexión para enviarse
+const OfflineQueueIndicator: React.FC = () => {
+  const { entries, syncing, online } = useOfflineQueue()
+  if (entries.length === 0 && online) return null
+
+  const pendingEntries = entries.filter((entry) => !entry.rejected)
+  const rejectedCount = entries.length - pendingEntries.length
+  const imageCount = entries.reduce((sum, entry) => sum + entry.payload.images.length, 0)
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={`relative flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+            online ? "text-blue-700 hover:bg-blue-50" : "text-amber-700 hover:bg-amber-50"
+          }`}
+          aria-label="Subidas pendientes"
+        >
+          {syncing ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : online ? (
+            <CloudUpload className="w-5 h-5" />
+          ) : (
+            <CloudOff className="w-5 h-5" />
+          )}
+          {entries.length > 0 && (
+            <span
+              className={`min-w-5 h-5 px-1.5 rounded-full text-[11px] leading-5 text-center text-white ${
+                online ? "bg-blue-600" : "bg-amber-600"
+              }`}
+            >
+              {imageCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <p className="text-sm font-semibold text-gray-900">{online ? "Subidas pendientes" : "Sin conexión"}</p>
+          <p className="text-xs text-gray-500">
+            {entries.length === 0
+              ? "Los análisis que inicies se guardarán aquí y se enviarán al volver la conexión."
+              : syncing
+                ? "Enviando los lotes guardados…"
+                : pendingEntries.length === 0
+                  ? "El servidor rechazó estas imágenes; revisa el motivo y descártalas."
+                  : online
+                    ? "Se reintentan automáticamente; también puedes enviarlos ahora."
+                    : "Se enviarán automáticamente cuando vuelva la conexión, aunque recargues la página."}
+          </p>
+        </div>
+
+        {entries.length > 0 && (
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {entries.map((entry) => (
+              <li
+                key={entry.id}
+                className={`p-2 rounded-md border text-xs ${entry.rejected ? "border-red-200 bg-red-50" : "border-gray-200"}`}
+              >
+                <div className="flex items-start gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-800 truncate">
+                      {entry.payload.ecosystemName || `Ecosistema ${entry.payload.ecosystemId}`}
+                    </p>
+                    <p className="text-gray-500">
+                      {entry.payload.images.length} imagen(es) · guardado {new Date(entry.createdAt).toLocaleString("es-MX")}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => removeQueuedUpload(entry.id)}
+                    disabled={syncing}
+                    className="ml-auto p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-50"
+                    title="Descartar este lote"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+                {entry.rejected ? (
+                  <p className="mt-1 text-red-600">
+                    Rechazado por el servidor{entry.lastError && `: ${entry.lastError}`}. No se reintentará; descártalo.
+                  </p>
+                ) : (
+                  entry.lastError && <p className="mt-1 text-red-600">Último error: {entry.lastError}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {rejectedCount > 0 && (
+          <Button
+            onClick={() => discardRejectedUploads()}
+            disabled={syncing}
+            variant="outline"
+            size="sm"
+            className="w-full text-red-600"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Descartar rechazados ({rejectedCount})
+          </Button>
+        )}
+
+        {pendingEntries.length > 0 && (
+          <Button onClick={() => syncOfflineQueue()} disabled={!online || syncing} size="sm" className="w-full">
+            {syncing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CloudUpload className="w-4 h-4 mr-2" />}
+            Enviar ahora
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default OfflineQueueIndicator
@@ -7,6 +7,12 @@ import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { Card } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
+import { useApiCacheVersion } from "@/hooks/use-api-cache"
+import { useImageCompression } from "@/hooks/use-image-compression"
+import { useUploadQueue } from "@/hooks/use-upload-queue"
+import { useOfflineQueue } from "@/hooks/use-offline-queue"
+import { useDuplicateDetection } from "@/hooks/use-duplicate-detection"
+import { useSegmentationPreview } from "@/hooks/use-segmentation-preview"
 import { Toaster } from "@/components/ui/toaster"
 import {
   Upload,
@@ -48,45 +54,53 @@ import {
   Target,
   Clock,
   ArrowUpDown,
+  Crop,
+  GitCompare,
 } from "lucide-react"
-
-const REMOTE_BASE_URL = "https://sistemahidalgodroneva.site"
+import {
+  getEcosystems,
+  getImagesPage,
+  enqueueUpload,
+  isOffline,
+  resolveMediaUrl,
+  type Ecosystem,
+  type ImageResult,
+  type RoiPolygon,
+  type UploadBatchResult,
+  type UploadItem,
+  type UploadMultiplePayload,
+  type UploadResponse,
+} from "@/lib/api"
+import { formatResolution, scaleGsdToWidth } from "@/lib/camera"
+import GsdCalculator from "@/components/GsdCalculator"
+import CameraPosition from "@/components/CameraPosition"
+import PhotoPositionsPanel from "@/components/PhotoPositionsPanel"
+import CompressionPanel from "@/components/CompressionPanel"
+import UploadProgressList from "@/components/UploadProgressList"
+import DuplicatesPanel from "@/components/DuplicatesPanel"
+import SegmentationSummary from "@/components/SegmentationSummary"
+import RoiEditor from "@/components/RoiEditor"
+import RoiImage from "@/components/RoiImage"
+import ImageLineagePanel from "@/components/ImageLineagePanel"
+import CaptureComparison from "@/components/CaptureComparison"
+import {
+  checkPhotoPosition,
+  describePhotoMetadata,
+  readPhotoMetadata,
+  type PhotoMetadata,
+  type PhotoPositionCheck,
+} from "@/lib/photo-metadata"
+import { formatLength } from "@/lib/geodesy"
+import { wktToLeafletPolygons } from "@/lib/wkt"
+import { DEFAULT_COMPRESSION_OPTIONS, prepareCompressedUpload } from "@/lib/image-compression"
+import { NEUTRAL_ADJUSTMENTS, adjustmentsToCssFilter, isNeutralAdjustment, renderAdjustedImage } from "@/lib/image-adjustments"
+import type { SegmentationPreview } from "@/lib/segmentation"
+import { cropUploadToRois, formatRoiFraction } from "@/lib/roi"
 
 // ------------------------------ //
 // INTERFACES Y TIPOS
 // ------------------------------ //
 
-interface Ecosystem {
-  id: number
-  name: string
-  created_at: string
-}
-
-interface ImageResult {
-  id: number
-  ecosystem?: number
-  image: string
-  description: string
-  metadata: {
-    resolution_m_per_px: number
-  }
-  vegetation_percentage: number
-  vegetation_area_m2: number
-  water_percentage: number
-  water_area_m2: number
-  is_adjusted: boolean
-  parent_image: number | null
-  adjusted_images: number[]
-  capture_date?: string
-}
-
-interface UploadResponse {
-  message: string
-  ecosystem_id: number
-  ecosystem_name: string
-  images: ImageResult[]
-}
-
 interface FilterValues {
   brightness: number
   contrast: number
@@ -157,9 +171,14 @@ const MiniTrendChart: React.FC<{
 // Componente de tabla profesional con ordenamiento y filtros
 const ProfessionalHistoryTable: React.FC<{
   data: ImageResult[]
+  totalCount: number
+  hasMore: boolean
+  loadingMore: boolean
+  onLoadMore: () => void
+  onDateRangeChange: (start: string, end: string) => void
   onViewDetail: (image: ImageResult) => void
   onExportCSV: () => void
-}> = ({ data, onViewDetail, onExportCSV }) => {
+}> = ({ data, totalCount, hasMore, loadingMore, onLoadMore, onDateRangeChange, onViewDetail, onExportCSV }) => {
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'capture_date', direction: 'desc' })
   const [filterConfig, setFilterConfig] = useState<FilterConfig>({
     search: '',
@@ -169,6 +188,9 @@ const ProfessionalHistoryTable: React.FC<{
   })
   const [viewMode, setViewMode] = useState<'table' | 'grid'>('table')
   const [showFilters, setShowFilters] = useState(false)
+  // Capturas marcadas para la comparación antes/después (como máximo dos)
+  const [compareIds, setCompareIds] = useState<number[]>([])
+  const [comparison, setComparison] = useState<[ImageResult, ImageResult] | null>(null)
 
   // Función de ordenamiento mejorada
   const sortedData = useMemo(() => {
@@ -228,6 +250,36 @@ const ProfessionalHistoryTable: React.FC<{
     })
   }, [sortedData, filterConfig])
 
+  // El rango de fechas también se envía al servidor para no depender de las páginas ya cargadas
+  const updateDateRange = (dateRange: FilterConfig['dateRange']) => {
+    setFilterConfig(prev => ({ ...prev, dateRange }))
+    onDateRangeChange(dateRange.start, dateRange.end)
+  }
+
+  const resetFilters = () => {
+    setFilterConfig({
+      search: '',
+      dateRange: { start: '', end: '' },
+      vegetationRange: { min: 0, max: 100 },
+      waterRange: { min: 0, max: 100 }
+    })
+    if (filterConfig.dateRange.start || filterConfig.dateRange.end) {
+      onDateRangeChange('', '')
+    }
+  }
+
+  // Al marcar una tercera captura se descarta la primera que se marcó
+  const toggleCompare = (id: number) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id].slice(-2))
+  }
+
+  // Solo cuentan las marcadas que siguen cargadas (el rango de fechas puede haber cambiado la lista)
+  const selectedForComparison = data.filter(item => compareIds.includes(item.id))
+
+  const openComparison = () => {
+    if (selectedForComparison.length === 2) setComparison([selectedForComparison[0], selectedForComparison[1]])
+  }
+
   // Función para manejar el ordenamiento
   const handleSort = (key: SortConfig['key']) => {
     setSortConfig(current => ({
@@ -253,6 +305,9 @@ const ProfessionalHistoryTable: React.FC<{
       <table className="w-full">
         <thead className="bg-slate-50 border-b border-slate-200">
           <tr>
+            <th className="pl-6 py-4 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider">
+              Comparar
+            </th>
             <th
               className="px-6 py-4 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider cursor-pointer hover:bg-slate-100 transition-colors"
               onClick={() => handleSort('id')}
@@ -306,6 +361,14 @@ const ProfessionalHistoryTable: React.FC<{
           {filteredData.map((item, index) => (
             
             <tr key={item.id} className="hover:bg-slate-50 transition-colors">
+              <td className="pl-6 py-4">
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(item.id)}
+                  onChange={() => toggleCompare(item.id)}
+                  aria-label={`Comparar captura ${item.id}`}
+                />
+              </td>
               <td className="px-6 py-4 whitespace-nowrap">
                 <div className="flex items-center">
                   <div className="text-sm font-medium text-slate-900">#{item.id}</div>
@@ -506,6 +569,15 @@ const ProfessionalHistoryTable: React.FC<{
                 <Eye className="w-4 h-4 mr-2" />
                 Ver Detalle
               </Button>
+              <Button
+                onClick={() => toggleCompare(item.id)}
+                variant={compareIds.includes(item.id) ? "default" : "outline"}
+                size="sm"
+                className="border-slate-300"
+                aria-label={`Comparar captura ${item.id}`}
+              >
+                <GitCompare className="w-4 h-4" />
+              </Button>
             </div>
           </div>
         </Card>
@@ -520,7 +592,7 @@ const ProfessionalHistoryTable: React.FC<{
         <div>
           <h3 className="text-lg font-semibold text-slate-900">Historial de Capturas</h3>
           <p className="text-sm text-slate-600">
-            {filteredData.length} de {data.length} capturas encontradas
+            {filteredData.length} de {Math.max(totalCount, data.length)} capturas encontradas
           </p>
         </div>
 
@@ -568,6 +640,18 @@ const ProfessionalHistoryTable: React.FC<{
             </Button>
           </div>
 
+          {/* Comparar dos capturas */}
+          <Button
+            onClick={openComparison}
+            disabled={selectedForComparison.length < 2}
+            variant="outline"
+            className="border-slate-300"
+            title="Marca dos capturas en la lista para compararlas"
+          >
+            <GitCompare className="w-4 h-4 mr-2" />
+            Comparar ({selectedForComparison.length}/2)
+          </Button>
+
           {/* Exportar */}
           <Button
             onClick={onExportCSV}
@@ -592,19 +676,13 @@ const ProfessionalHistoryTable: React.FC<{
                 <Input
                   type="date"
                   value={filterConfig.dateRange.start}
-                  onChange={(e) => setFilterConfig(prev => ({
-                    ...prev,
-                    dateRange: { ...prev.dateRange, start: e.target.value }
-                  }))}
+                  onChange={(e) => updateDateRange({ ...filterConfig.dateRange, start: e.target.value })}
                   className="w-full"
                 />
                 <Input
                   type="date"
                   value={filterConfig.dateRange.end}
-                  onChange={(e) => setFilterConfig(prev => ({
-                    ...prev,
-                    dateRange: { ...prev.dateRange, end: e.target.value }
-                  }))}
+                  onChange={(e) => updateDateRange({ ...filterConfig.dateRange, end: e.target.value })}
                   className="w-full"
                 />
               </div>
@@ -672,12 +750,7 @@ const ProfessionalHistoryTable: React.FC<{
 
             <div className="flex items-end">
               <Button
-                onClick={() => setFilterConfig({
-                  search: '',
-                  dateRange: { start: '', end: '' },
-                  vegetationRange: { min: 0, max: 100 },
-                  waterRange: { min: 0, max: 100 }
-                })}
+                onClick={resetFilters}
                 variant="outline"
                 className="w-full border-slate-300"
               >
@@ -691,6 +764,25 @@ const ProfessionalHistoryTable: React.FC<{
       {/* Vista principal */}
       {viewMode === 'table' ? renderTable() : renderGrid()}
 
+      {/* Carga incremental */}
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            variant="outline"
+            className="border-slate-300"
+          >
+            {loadingMore ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <ChevronDown className="w-4 h-4 mr-2" />
+            )}
+            {loadingMore ? 'Cargando...' : `Cargar más (${data.length} de ${totalCount})`}
+          </Button>
+        </div>
+      )}
+
       {/* Estado vacío */}
       {filteredData.length === 0 && (
         <Card className="text-center p-12 border border-slate-200">
@@ -702,18 +794,15 @@ const ProfessionalHistoryTable: React.FC<{
             No hay capturas que coincidan con los criterios de búsqueda actuales.
           </p>
           <Button
-            onClick={() => setFilterConfig({
-              search: '',
-              dateRange: { start: '', end: '' },
-              vegetationRange: { min: 0, max: 100 },
-              waterRange: { min: 0, max: 100 }
-            })}
+            onClick={resetFilters}
             variant="outline"
           >
             Limpiar filtros
           </Button>
         </Card>
       )}
+
+      <CaptureComparison isOpen={!!comparison} onClose={() => setComparison(null)} captures={comparison} />
     </div>
   )
 }
@@ -724,16 +813,25 @@ const ProfessionalHistoryTable: React.FC<{
 
 interface ProfessionalHistoryModalProps extends Omit<ModalProps, "title" | "children"> {
   historicalImages: ImageResult[]
+  totalCount: number
+  hasMore: boolean
+  loadingMore: boolean
+  onLoadMore: () => void
+  onDateRangeChange: (start: string, end: string) => void
   ecosystemName: string
   ecosystemId: string | null
   onViewDetail: (image: ImageResult) => void
-  remoteBaseUrl: string
 }
 
 const ProfessionalHistoryModal: React.FC<ProfessionalHistoryModalProps> = ({
   isOpen,
   onClose,
   historicalImages,
+  totalCount,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  onDateRangeChange,
   ecosystemName,
   onViewDetail,
 }) => {
@@ -801,6 +899,11 @@ const ProfessionalHistoryModal: React.FC<ProfessionalHistoryModalProps> = ({
       <div className="p-6">
         <ProfessionalHistoryTable
           data={historicalImages}
+          totalCount={totalCount}
+          hasMore={hasMore}
+          loadingMore={loadingMore}
+          onLoadMore={onLoadMore}
+          onDateRangeChange={onDateRangeChange}
           onViewDetail={onViewDetail}
           onExportCSV={handleExportCSV}
         />
@@ -927,6 +1030,13 @@ interface ConfigureStepProps {
   captureDates: string[]
   onDescriptionChange: (index: number, desc: string) => void
   onDateChange: (index: number, date: string) => void
+  resolutions: (number | null)[]
+  photoMetadata: (PhotoMetadata | null)[]
+  positionChecks: PhotoPositionCheck[]
+  onResolutionChange: (index: number, metersPerPixel: number | null) => void
+  onResolutionApplyAll: (resolutions: number[]) => void
+  rois: (RoiPolygon | null)[]
+  onRoiChange: (index: number, roi: RoiPolygon | null) => void
   ecosystemName: string
   setEcosystemName: (name: string) => void
   ecosystemId: string | null
@@ -936,8 +1046,13 @@ interface ConfigureStepProps {
   onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void
   ecosystems: Ecosystem[]
   historicalImages: ImageResult[]
+  historyTotal: number
   loadingHistory: boolean
   onOpenHistoryListModal: () => void
+  segmentationPreviews: (SegmentationPreview | null)[]
+  segmentationProcessing: boolean
+  showSegmentation: boolean
+  onShowSegmentationChange: (show: boolean) => void
 }
 
 const ConfigureStep: React.FC<ConfigureStepProps> = ({
@@ -949,6 +1064,13 @@ const ConfigureStep: React.FC<ConfigureStepProps> = ({
   captureDates,
   onDescriptionChange,
   onDateChange,
+  resolutions,
+  photoMetadata,
+  positionChecks,
+  onResolutionChange,
+  onResolutionApplyAll,
+  rois,
+  onRoiChange,
   ecosystemName,
   setEcosystemName,
   ecosystemId,
@@ -956,12 +1078,21 @@ const ConfigureStep: React.FC<ConfigureStepProps> = ({
   onAddMore,
   ecosystems,
   historicalImages,
+  historyTotal,
   loadingHistory,
   onOpenHistoryListModal,
+  segmentationPreviews,
+  segmentationProcessing,
+  showSegmentation,
+  onShowSegmentationChange,
 }) => {
   const selectedEcosystem = useMemo(() => {
     return ecosystems.find((e) => e.id.toString() === ecosystemId)
   }, [ecosystemId, ecosystems])
+  const [calculatorIndex, setCalculatorIndex] = useState<number | null>(null)
+  const [roiEditorIndex, setRoiEditorIndex] = useState<number | null>(null)
+  // Ancho real de cada foto, leído al cargar su vista previa
+  const [imageWidths, setImageWidths] = useState<Record<string, number>>({})
 
   const handleSelectChange = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -1018,7 +1149,7 @@ const ConfigureStep: React.FC<ConfigureStepProps> = ({
             ) : (
               <ListOrdered className="w-4 h-4 mr-2" />
             )}
-            Historial: {historicalImages.length} capturas previas encontradas.
+            Historial: {Math.max(historyTotal, historicalImages.length)} capturas previas encontradas.
           </p>
           <Button
             onClick={onOpenHistoryListModal}
@@ -1032,9 +1163,19 @@ const ConfigureStep: React.FC<ConfigureStepProps> = ({
         </div>
       </Card>
 
-      <h3 className="text-[18px] font-medium text-slate-900 flex items-center">
-        Imágenes a Analizar ({selectedFiles.length})
-      </h3>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-[18px] font-medium text-slate-900 flex items-center">
+          Imágenes a Analizar ({selectedFiles.length})
+        </h3>
+        <label className="flex items-center gap-2 text-[13px] text-slate-700">
+          <input
+            type="checkbox"
+            checked={showSegmentation}
+            onChange={(e) => onShowSegmentationChange(e.target.checked)}
+          />
+          Vista previa de agua y lirio
+        </label>
+      </div>
 
       <div className="space-y-6">
         {selectedFiles.map((file, index) => (
@@ -1043,9 +1184,20 @@ const ConfigureStep: React.FC<ConfigureStepProps> = ({
               <img
                 src={imagePreviewUrls[index] || "/placeholder.svg"}
                 alt={`Vista previa de ${file ? file.name : 'imagen'}`}
+                onLoad={(e) => {
+                  const width = e.currentTarget.naturalWidth
+                  setImageWidths((prev) => (prev[file.name] === width ? prev : { ...prev, [file.name]: width }))
+                }}
                 style={getImageFilterStyle()}
                 className="w-full h-full object-cover transition-filter duration-300"
               />
+              {showSegmentation && segmentationPreviews[index] && (
+                <img
+                  src={segmentationPreviews[index].overlayUrl}
+                  alt={`Segmentación preliminar de ${file.name}`}
+                  className="absolute inset-0 w-full h-full object-cover pointer-events-none"
+                />
+              )}
               <div className="absolute inset-0 bg-black/30 flex items-center justify-center text-white text-xs font-medium">
                 {file.name}
               </div>
@@ -1059,6 +1211,23 @@ const ConfigureStep: React.FC<ConfigureStepProps> = ({
               </Button>
             </div>
             <div className="flex-1 space-y-3">
+              {showSegmentation && (
+                <SegmentationSummary preview={segmentationPreviews[index]} processing={segmentationProcessing} />
+              )}
+              <div className="flex items-center gap-2">
+                <Button
+                  onClick={() => setRoiEditorIndex(index)}
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                >
+                  <Crop className="w-3 h-3 mr-1" />
+                  {rois[index] ? "Editar zona de análisis" : "Delimitar zona de análisis"}
+                </Button>
+                <span className="text-[12px] text-slate-500">
+                  {rois[index] ? `Se analiza el ${formatRoiFraction(rois[index])}` : "Se analiza la foto completa"}
+                </span>
+              </div>
               <div>
                 <Label
                   htmlFor={`date-${index}`}
@@ -1074,6 +1243,9 @@ const ConfigureStep: React.FC<ConfigureStepProps> = ({
                   onChange={(e) => onDateChange(index, e.target.value)}
                   className="h-9 text-sm"
                 />
+                {photoMetadata[index]?.captureDate && photoMetadata[index]?.captureDate === captureDates[index] && (
+                  <p className="text-[12px] text-slate-500 mt-1">Fecha leída de los metadatos de la foto</p>
+                )}
               </div>
               <div>
                 <Label
@@ -1091,6 +1263,61 @@ const ConfigureStep: React.FC<ConfigureStepProps> = ({
                   className="h-9 text-sm"
                 />
               </div>
+              {photoMetadata[index] && <CameraPosition capture={photoMetadata[index].capture} />}
+              {positionChecks[index]?.status === "outside" && (
+                <p className="text-[13px] font-medium text-red-600">
+                  Fuera del ecosistema, a {formatLength(positionChecks[index].distanceM ?? 0)} del límite
+                </p>
+              )}
+              <div>
+                <Label
+                  htmlFor={`resolution-${index}`}
+                  className="mb-1 flex items-center text-[13px] font-medium text-slate-700"
+                >
+                  <Ruler className="w-3 h-3 mr-1" />
+                  Resolución en terreno (m/px)
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`resolution-${index}`}
+                    type="number"
+                    min={0}
+                    step={0.001}
+                    placeholder="La del servidor"
+                    value={resolutions[index] ?? ""}
+                    onChange={(e) => onResolutionChange(index, e.target.value === "" ? null : Number(e.target.value))}
+                    className="h-9 text-sm"
+                  />
+                  <Button
+                    onClick={() => setCalculatorIndex(calculatorIndex === index ? null : index)}
+                    variant="outline"
+                    size="sm"
+                    className="h-9 text-xs"
+                  >
+                    Calcular
+                  </Button>
+                </div>
+                {!!resolutions[index] && (
+                  <p className="text-[12px] text-slate-500 mt-1">{formatResolution(resolutions[index] as number)}</p>
+                )}
+                {calculatorIndex === index && (
+                  <GsdCalculator
+                    imageWidthPx={imageWidths[file.name]}
+                    onApply={(value, applyToAll, widthPx) => {
+                      // Cada foto recibe el GSD que le corresponde según su propio ancho
+                      if (applyToAll) {
+                        onResolutionApplyAll(
+                          selectedFiles.map((other) => scaleGsdToWidth(value, widthPx, imageWidths[other.name])),
+                        )
+                      } else {
+                        onResolutionChange(index, value)
+                      }
+                      setCalculatorIndex(null)
+                    }}
+                    onClose={() => setCalculatorIndex(null)}
+                  />
+                )}
+              </div>
             </div>
           </Card>
         ))}
@@ -1104,27 +1331,51 @@ const ConfigureStep: React.FC<ConfigureStepProps> = ({
         <Plus className="w-4 h-4 mr-2" />
         Añadir más imágenes
       </Button>
+
+      {roiEditorIndex !== null && selectedFiles[roiEditorIndex] && (
+        <RoiEditor
+          isOpen
+          onClose={() => setRoiEditorIndex(null)}
+          src={imagePreviewUrls[roiEditorIndex] || "/placeholder.svg"}
+          fileName={selectedFiles[roiEditorIndex].name}
+          roi={rois[roiEditorIndex] ?? null}
+          onSave={(roi) => {
+            onRoiChange(roiEditorIndex, roi)
+            setRoiEditorIndex(null)
+          }}
+        />
+      )}
     </div>
   )
 }
 
 interface AnalyzeStepProps {
   loading: boolean
+  uploadItems: UploadItem[]
+  onCancelUpload: (index: number) => void
+  onCancelAllUploads: () => void
 }
 
-const AnalyzeStep: React.FC<AnalyzeStepProps> = ({ loading }) => (
+const AnalyzeStep: React.FC<AnalyzeStepProps> = ({ loading, uploadItems, onCancelUpload, onCancelAllUploads }) => (
   <Card className="p-10 border-0 shadow-sm bg-white text-center">
     <Loader2 className="w-16 h-16 mx-auto mb-6 animate-spin text-blue-600" />
     <h3 className="text-[28px] font-normal text-slate-900 mb-2">Analizando Imágenes</h3>
-    <p className="text-[16px] text-slate-600">
+    <p className="text-[16px] text-slate-600 mb-6">
       Estamos procesando las {loading ? "imágenes seleccionadas" : "imágenes"}. Esto puede tardar unos segundos...
     </p>
+    {uploadItems.length > 0 && (
+      <UploadProgressList
+        items={uploadItems}
+        running={loading}
+        onCancel={onCancelUpload}
+        onCancelAll={onCancelAllUploads}
+      />
+    )}
   </Card>
 )
 
 interface ResultsStepProps {
   result: UploadResponse
-  remoteBaseUrl: string
   onOpenModal: (result: ImageResult) => void
   historicalImages: ImageResult[]
 }
@@ -1160,7 +1411,7 @@ const ResultsStep: React.FC<ResultsStepProps> = ({ result, onOpenModal }) => (
 
           <div className="relative h-32 rounded-lg overflow-hidden bg-slate-100">
             <img
-              src={`${REMOTE_BASE_URL}${image.image}` || "/placeholder.svg"}
+              src={resolveMediaUrl(image.image) || "/placeholder.svg"}
               alt={`Imagen ${image.id}`}
               className="w-full h-full object-cover"
             />
@@ -1201,6 +1452,9 @@ const ResultsStep: React.FC<ResultsStepProps> = ({ result, onOpenModal }) => (
 // FUNCIONES UTILITARIAS
 // ------------------------------ //
 
+// Número de capturas que se piden por página en el historial
+const HISTORY_PAGE_SIZE = 50
+
 const formatDateForDisplay = (dateString?: string): string => {
   if (!dateString) return "Fecha N/A"
   try {
@@ -1259,16 +1513,30 @@ export default function PhotoAnalyzer() {
   const [ecosystemId, setEcosystemId] = useState<string | null>(null)
   const [descriptions, setDescriptions] = useState<string[]>([])
   const [captureDates, setCaptureDates] = useState<string[]>([])
+  const [resolutions, setResolutions] = useState<(number | null)[]>([])
+  const [rois, setRois] = useState<(RoiPolygon | null)[]>([])
+  const [photoMetadata, setPhotoMetadata] = useState<(PhotoMetadata | null)[]>([])
+  const [outsideAcknowledged, setOutsideAcknowledged] = useState(false)
 
   const [ecosystems, setEcosystems] = useState<Ecosystem[]>([])
   const [historicalImages, setHistoricalImages] = useState<ImageResult[]>([])
   const [loadingHistory, setLoadingHistory] = useState(false)
-
-  const [filterValues, setFilterValues] = useState<FilterValues>({
-    brightness: 100,
-    contrast: 100,
-    saturate: 100,
-  })
+  const [historyPage, setHistoryPage] = useState(1)
+  const [historyTotal, setHistoryTotal] = useState(0)
+  const [hasMoreHistory, setHasMoreHistory] = useState(false)
+  const [loadingMoreHistory, setLoadingMoreHistory] = useState(false)
+  const [historyDateRange, setHistoryDateRange] = useState({ start: "", end: "" })
+
+  const [filterValues, setFilterValues] = useState<FilterValues>(NEUTRAL_ADJUSTMENTS)
+  const [keepOriginals, setKeepOriginals] = useState(false)
+  const [compressionEnabled, setCompressionEnabled] = useState(false)
+  const [compressionOptions, setCompressionOptions] = useState(DEFAULT_COMPRESSION_OPTIONS)
+  const compression = useImageCompression(selectedFiles, compressionEnabled ? compressionOptions : null)
+  const uploadQueue = useUploadQueue()
+  const { online } = useOfflineQueue()
+  const duplicateCheck = useDuplicateDetection(selectedFiles, ecosystemId)
+  const [showSegmentation, setShowSegmentation] = useState(true)
+  const segmentation = useSegmentationPreview(selectedFiles, filterValues, showSegmentation)
 
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [selectedImageResult, setSelectedImageResult] = useState<ImageResult | null>(null)
@@ -1277,6 +1545,11 @@ export default function PhotoAnalyzer() {
   const fileInputRef = useRef<HTMLInputElement>(null)
   const configureFileInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
+  const ecosystemsCacheVersion = useApiCacheVersion("ecosystems/")
+  const imagesCacheVersion = useApiCacheVersion("images/")
+  const handledImagesVersion = useRef(0)
+  // Petición del historial en curso; cada carga nueva cancela la anterior
+  const historyRequestRef = useRef<AbortController | null>(null)
 
   const getNowDatetimeLocal = () => {
     const now = new Date()
@@ -1284,12 +1557,19 @@ export default function PhotoAnalyzer() {
     return now.toISOString().slice(0, 16)
   }
 
+  // Agrega archivos leyendo antes su EXIF/XMP para prellenar fecha y descripción
+  const appendFiles = useCallback(async (newFiles: File[]) => {
+    const metadata = await Promise.all(newFiles.map(readPhotoMetadata))
+    setPhotoMetadata((prev) => [...prev, ...metadata])
+    setSelectedFiles((prevFiles) => [...prevFiles, ...newFiles])
+    setOutsideAcknowledged(false)
+  }, [])
+
   // Función para manejar la selección de archivos
   const handleFileChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files.length > 0) {
-        const newFiles = Array.from(e.target.files)
-        setSelectedFiles((prevFiles) => [...prevFiles, ...newFiles])
+        appendFiles(Array.from(e.target.files))
         if (currentStep === "upload") {
           setCurrentStep("configure")
         }
@@ -1298,7 +1578,7 @@ export default function PhotoAnalyzer() {
         e.target.value = ""
       }
     },
-    [currentStep],
+    [currentStep, appendFiles],
   )
 
   // Función para manejar el drag & drop
@@ -1307,14 +1587,13 @@ export default function PhotoAnalyzer() {
       e.preventDefault()
       setIsDragging(false)
       if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-        const newFiles = Array.from(e.dataTransfer.files)
-        setSelectedFiles((prevFiles) => [...prevFiles, ...newFiles])
+        appendFiles(Array.from(e.dataTransfer.files))
         if (currentStep === "upload") {
           setCurrentStep("configure")
         }
       }
     },
-    [currentStep],
+    [currentStep, appendFiles],
   )
 
   // Función para abrir el selector de archivos desde el paso de upload
@@ -1338,39 +1617,63 @@ export default function PhotoAnalyzer() {
       const newUrls = newFiles.map((file) => URL.createObjectURL(file))
       setImagePreviewUrls((prevUrls) => [...prevUrls, ...newUrls])
 
-      // Sincronizar descripciones y fechas para los nuevos archivos
-      const newDescriptions = Array(newFiles.length).fill("")
+      // Sincronizar descripciones y fechas para los nuevos archivos (sugeridas por el EXIF/XMP si lo traen)
+      const newMetadata = photoMetadata.slice(imagePreviewUrls.length, selectedFiles.length)
+      const newDescriptions = newFiles.map((_, i) => (newMetadata[i] ? describePhotoMetadata(newMetadata[i].capture) : ""))
       setDescriptions((prev) => [...prev, ...newDescriptions])
-      const newDates = Array(newFiles.length).fill(getNowDatetimeLocal())
+      const newDates = newFiles.map((_, i) => newMetadata[i]?.captureDate || getNowDatetimeLocal())
       setCaptureDates((prev) => [...prev, ...newDates])
+      setResolutions((prev) => [...prev, ...Array(newFiles.length).fill(null)])
+      setRois((prev) => [...prev, ...Array(newFiles.length).fill(null)])
     } else if (selectedFiles.length < imagePreviewUrls.length) {
       // Manejar la eliminación de archivos
       setImagePreviewUrls((prev) => prev.slice(0, selectedFiles.length))
       setDescriptions((prev) => prev.slice(0, selectedFiles.length))
       setCaptureDates((prev) => prev.slice(0, selectedFiles.length))
+      setResolutions((prev) => prev.slice(0, selectedFiles.length))
+      setRois((prev) => prev.slice(0, selectedFiles.length))
+      setPhotoMetadata((prev) => prev.slice(0, selectedFiles.length))
     }
-  }, [selectedFiles, imagePreviewUrls.length])
+  }, [selectedFiles, imagePreviewUrls.length, photoMetadata])
 
   useEffect(() => {
     const fetchEcosystems = async () => {
       try {
-        const response = await fetch(`${REMOTE_BASE_URL}/api/monitoring/ecosystems/`)
-        if (!response.ok) {
-          throw new Error("No se pudo cargar la lista de ecosistemas.")
-        }
-        const data: Ecosystem[] = await response.json()
+        const data = await getEcosystems()
         setEcosystems(data)
       } catch (error) {
         console.error("Error al cargar ecosistemas:", error)
       }
     }
     fetchEcosystems()
+  }, [ecosystemsCacheVersion])
+
+  // El nombre se resuelve aparte para que refrescar la lista no reinicie el historial
+  useEffect(() => {
+    if (!ecosystemId || ecosystemId === "new") return
+    const selectedEcos = ecosystems.find((e) => e.id.toString() === ecosystemId)
+    setEcosystemName(selectedEcos ? selectedEcos.name : `Ecosistema ID: ${ecosystemId}`)
+  }, [ecosystemId, ecosystems])
+
+  // Una respuesta tardía (de otro ecosistema o rango de fechas) no debe mezclarse con la lista nueva
+  const startHistoryRequest = useCallback(() => {
+    historyRequestRef.current?.abort()
+    const controller = new AbortController()
+    historyRequestRef.current = controller
+    setLoadingHistory(false)
+    setLoadingMoreHistory(false)
+    return controller
   }, [])
 
   useEffect(() => {
     const fetchHistoricalImages = async () => {
+      const controller = startHistoryRequest()
       setHistoricalImages([])
       setSelectedFiles([])
+      setHistoryPage(1)
+      setHistoryTotal(0)
+      setHasMoreHistory(false)
+      setHistoryDateRange({ start: "", end: "" })
 
       if (!ecosystemId || ecosystemId === "new") {
         setEcosystemName("")
@@ -1381,31 +1684,26 @@ export default function PhotoAnalyzer() {
       setLoadingHistory(true)
 
       try {
-        const response = await fetch(`${REMOTE_BASE_URL}/api/monitoring/images/`)
-
-        if (!response.ok) {
-          throw new Error("No se pudo cargar la lista completa de imágenes.")
-        }
-
-        const allImages: ImageResult[] = await response.json()
-        const targetEcosystemId = Number(ecosystemId)
-
-        const filteredImages = allImages.filter((img) => img.ecosystem === targetEcosystemId)
-
-        setHistoricalImages(filteredImages)
-
-        const selectedEcos = ecosystems.find((e) => e.id.toString() === ecosystemId)
-        if (selectedEcos) {
-          setEcosystemName(selectedEcos.name)
-        } else {
-          setEcosystemName(`Ecosistema ID: ${ecosystemId}`)
-        }
+        const firstPage = await getImagesPage(
+          {
+            ecosystem: ecosystemId,
+            ordering: "-capture_date",
+            page: 1,
+            pageSize: HISTORY_PAGE_SIZE,
+          },
+          { signal: controller.signal },
+        )
+
+        setHistoricalImages(firstPage.results)
+        setHistoryTotal(firstPage.count)
+        setHasMoreHistory(firstPage.hasMore)
 
         toast({
           title: "Ecosistema Cargado",
-          description: `Se cargaron ${filteredImages.length} imágenes históricas. Haz clic en "Ver Historial Completo" para ver los datos.`,
+          description: `Se encontraron ${firstPage.count} imágenes históricas. Haz clic en "Ver Historial Completo" para ver los datos.`,
         })
       } catch (error) {
+        if (controller.signal.aborted) return
         console.error("Error al cargar historial:", error)
         setHistoricalImages([])
         toast({
@@ -1415,25 +1713,124 @@ export default function PhotoAnalyzer() {
         })
         setEcosystemId("new")
       } finally {
-        setLoadingHistory(false)
+        if (historyRequestRef.current === controller) setLoadingHistory(false)
       }
     }
     fetchHistoricalImages()
-  }, [ecosystemId, ecosystems, toast])
+  }, [ecosystemId, toast, startHistoryRequest])
+
+  // Carga las páginas `firstPage`..`lastPage` del historial con el rango de fechas actual;
+  // `append` las agrega a lo ya cargado y si no, sustituyen la lista
+  const loadHistoryPages = useCallback(
+    async (firstPage: number, lastPage: number, dateRange: { start: string; end: string }, append: boolean) => {
+      if (!ecosystemId || ecosystemId === "new") return
+
+      const controller = startHistoryRequest()
+      setLoadingMoreHistory(true)
+      try {
+        const fetchPage = (page: number) =>
+          getImagesPage(
+            {
+              ecosystem: ecosystemId,
+              captureDateFrom: dateRange.start || undefined,
+              captureDateTo: dateRange.end || undefined,
+              ordering: "-capture_date",
+              page,
+              pageSize: HISTORY_PAGE_SIZE,
+            },
+            { signal: controller.signal },
+          )
+
+        let page = firstPage
+        let result = await fetchPage(page)
+        const loaded = [...result.results]
+        while (page < lastPage && result.hasMore) {
+          result = await fetchPage(++page)
+          loaded.push(...result.results)
+        }
+
+        setHistoricalImages((prev) => {
+          const base = append ? prev : []
+          const loadedIds = new Set(base.map((img) => img.id))
+          const added = loaded.filter((img) => {
+            if (loadedIds.has(img.id)) return false
+            loadedIds.add(img.id)
+            return true
+          })
+          return [...base, ...added]
+        })
+        setHistoryPage(page)
+        setHistoryTotal(result.count)
+        setHasMoreHistory(result.hasMore)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error("Error al cargar historial:", error)
+        toast({
+          title: "Error de Historial",
+          description: error instanceof Error ? error.message : "No se pudieron cargar más capturas.",
+          variant: "destructive",
+        })
+      } finally {
+        if (historyRequestRef.current === controller) setLoadingMoreHistory(false)
+      }
+    },
+    [ecosystemId, toast, startHistoryRequest],
+  )
+
+  const handleLoadMoreHistory = useCallback(() => {
+    loadHistoryPages(historyPage + 1, historyPage + 1, historyDateRange, true)
+  }, [loadHistoryPages, historyPage, historyDateRange])
+
+  const handleHistoryDateRangeChange = useCallback(
+    (start: string, end: string) => {
+      const dateRange = { start, end }
+      setHistoryDateRange(dateRange)
+      loadHistoryPages(1, 1, dateRange, false)
+    },
+    [loadHistoryPages],
+  )
+
+  // Tras una carga nueva (en esta u otra vista) se vuelven a pedir las páginas ya cargadas del historial.
+  // Durante una subida por lotes no se recarga: se hace una sola vez al terminar
+  useEffect(() => {
+    if (uploadQueue.running || imagesCacheVersion === handledImagesVersion.current) return
+    handledImagesVersion.current = imagesCacheVersion
+    loadHistoryPages(1, historyPage, historyDateRange, false)
+  }, [imagesCacheVersion, historyPage, historyDateRange, loadHistoryPages, uploadQueue.running])
 
   const getImageFilterStyle = useCallback(() => {
-    const { brightness, contrast, saturate } = filterValues
-    return {
-      filter: `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturate}%)`,
-    }
+    return { filter: adjustmentsToCssFilter(filterValues) }
   }, [filterValues])
 
   const handleRemoveFile = useCallback((indexToRemove: number) => {
     setSelectedFiles((prevFiles) => prevFiles.filter((_, index) => index !== indexToRemove))
     setDescriptions((prevDesc) => prevDesc.filter((_, index) => index !== indexToRemove))
     setCaptureDates((prevDates) => prevDates.filter((_, index) => index !== indexToRemove))
+    setResolutions((prev) => prev.filter((_, index) => index !== indexToRemove))
+    setRois((prev) => prev.filter((_, index) => index !== indexToRemove))
+    setPhotoMetadata((prev) => prev.filter((_, index) => index !== indexToRemove))
   }, [])
 
+  // Límite del ecosistema elegido contra el que se comprueba el GPS de cada foto
+  const targetPolygons = useMemo(() => {
+    const ecosystem = ecosystems.find((e) => e.id.toString() === ecosystemId)
+    return ecosystem?.location ? wktToLeafletPolygons(ecosystem.location) : null
+  }, [ecosystems, ecosystemId])
+
+  const positionChecks = useMemo(
+    () => photoMetadata.map((metadata) => checkPhotoPosition(metadata?.capture, targetPolygons || [])),
+    [photoMetadata, targetPolygons],
+  )
+  const outsideCount = positionChecks.filter((check) => check.status === "outside").length
+
+  // Quita de mayor a menor índice para que los restantes no se desplacen
+  const handleRemoveOutside = useCallback(() => {
+    positionChecks
+      .flatMap((check, index) => (check.status === "outside" ? [index] : []))
+      .reverse()
+      .forEach((index) => handleRemoveFile(index))
+  }, [positionChecks, handleRemoveFile])
+
   const handleDescriptionChange = useCallback((index: number, description: string) => {
     setDescriptions((prev) => prev.map((item, i) => (i === index ? description : item)))
   }, [])
@@ -1442,21 +1839,40 @@ export default function PhotoAnalyzer() {
     setCaptureDates((prev) => prev.map((item, i) => (i === index ? date : item)))
   }, [])
 
+  const handleResolutionChange = useCallback((index: number, metersPerPixel: number | null) => {
+    setResolutions((prev) => prev.map((item, i) => (i === index ? metersPerPixel : item)))
+  }, [])
+
+  const handleResolutionApplyAll = useCallback((values: number[]) => {
+    setResolutions(values)
+  }, [])
+
+  const handleRoiChange = useCallback((index: number, roi: RoiPolygon | null) => {
+    setRois((prev) => prev.map((item, i) => (i === index ? roi : item)))
+  }, [])
+
   const handleReset = useCallback(() => {
     setSelectedFiles([])
     setAnalysisResult(null)
     setDescriptions([])
     setCaptureDates([])
+    setResolutions([])
+    setRois([])
+    setPhotoMetadata([])
+    setOutsideAcknowledged(false)
     setEcosystemName("")
     setEcosystemId(null)
     setHistoricalImages([])
+    setHistoryPage(1)
+    setHistoryTotal(0)
+    setHasMoreHistory(false)
+    setHistoryDateRange({ start: "", end: "" })
     setCurrentStep("upload")
-    setFilterValues({
-      brightness: 100,
-      contrast: 100,
-      saturate: 100,
-    })
-  }, [])
+    setFilterValues(NEUTRAL_ADJUSTMENTS)
+    setKeepOriginals(false)
+    setCompressionEnabled(false)
+    uploadQueue.reset()
+  }, [uploadQueue.reset])
 
   const validateForm = () => {
     if (selectedFiles.length === 0) {
@@ -1470,6 +1886,26 @@ export default function PhotoAnalyzer() {
     if (missingDates) {
       return "Todas las imágenes deben tener una fecha de captura."
     }
+    // Más de 10 m/px ya no distingue manchas de lirio: casi seguro es un error de unidades
+    const invalidResolution = resolutions.findIndex((value) => value !== null && !(value > 0 && value <= 10))
+    if (invalidResolution !== -1) {
+      return `La resolución de la imagen ${invalidResolution + 1} debe estar entre 0 y 10 m/px.`
+    }
+    if (outsideCount > 0 && !outsideAcknowledged) {
+      return `${outsideCount} imagen(es) se tomaron fuera del ecosistema. Quítalas o confirma que son correctas.`
+    }
+    if (compressionEnabled) {
+      if (compression.processing) {
+        return "Espera a que terminen de comprimirse las imágenes."
+      }
+      // Sin resolución propia el servidor usaría la de la imagen original y las áreas saldrían menores
+      const unscaled = compression.results.findIndex(
+        (result, index) => result && result.scale > 1 && resolutions[index] === null,
+      )
+      if (unscaled !== -1) {
+        return `Indica la resolución en terreno de la imagen ${unscaled + 1}: al reducirla hay que ajustar su escala.`
+      }
+    }
     return null
   }
 
@@ -1488,65 +1924,56 @@ export default function PhotoAnalyzer() {
     setCurrentStep("analyze")
 
     try {
-      const formData = new FormData()
-
-      // ✅ CORREGIDO: Usar ecosystem_id cuando existe
-      if (ecosystemId && ecosystemId.trim() !== "new") {
-        formData.append("ecosystem_id", ecosystemId.trim())
-      } else {
-        formData.append("ecosystem_name", ecosystemName.trim())
+      // Cada foto se recorta a su zona de análisis: el servidor analiza la imagen que recibe
+      const upload = await cropUploadToRois(
+        prepareCompressedUpload(
+          selectedFiles,
+          compression.results,
+          resolutions,
+          photoMetadata.map((metadata) => metadata?.capture ?? null),
+        ),
+        rois,
+      )
+      // Los ajustes se aplican a los píxeles que se envían, no solo a la vista previa.
+      // Una foto tras otra: decodificarlas todas a la vez agota la memoria en móviles.
+      const adjusted = !isNeutralAdjustment(filterValues)
+      let adjustedImages: File[] | undefined
+      if (adjusted) {
+        adjustedImages = []
+        for (const file of upload.images) adjustedImages.push(await renderAdjustedImage(file, filterValues))
       }
 
-      // Agregar imágenes
-      selectedFiles.forEach((file) => {
-        formData.append("images", file)
-      })
-
-      // ✅ CORREGIDO: Usar capture_dates (sin []) y formato correcto
-      captureDates.forEach((date) => {
-        const normalizedDate = normalizeDateForAPI(date)
-        formData.append("capture_dates", normalizedDate || getNowDatetimeLocal() + ":00Z")
-      })
-
-      // ✅ CORREGIDO: Usar descriptions (sin [])
-      descriptions.forEach((desc) => {
-        formData.append("descriptions", desc || "")
-      })
-
-      const response = await fetch(`${REMOTE_BASE_URL}/api/monitoring/images/upload-multiple/`, {
-        method: "POST",
-        body: formData,
-      })
-
-      if (!response.ok) {
-        const responseBody = await response.text()
-        let errorMessage = `Error del servidor: ${response.status} ${response.statusText}`
-        try {
-          const errorData = JSON.parse(responseBody)
-          errorMessage = errorData.error || errorData.detail || JSON.stringify(errorData) || errorMessage
-        } catch (parseError) {
-          if (responseBody) errorMessage = responseBody
-        }
-        throw new Error(errorMessage)
+      const payload: UploadMultiplePayload = {
+        ecosystemId,
+        ecosystemName,
+        images: upload.images,
+        captureDates: captureDates.map((date) => normalizeDateForAPI(date) || getNowDatetimeLocal() + ":00Z"),
+        descriptions,
+        resolutionsMPerPx: upload.resolutionsMPerPx,
+        captureMetadata: upload.captureMetadata,
+        rois: upload.rois,
+        perceptualHashes: duplicateCheck.hashes,
+        adjustedImages,
+        adjustments: adjusted ? filterValues : undefined,
+        keepOriginals,
       }
 
-      const result: UploadResponse = await response.json()
-      setAnalysisResult(result)
-      setCurrentStep("results")
+      // Sin red el lote se guarda en el dispositivo y se envía solo al volver la conexión
+      if (isOffline()) {
+        await enqueueUpload(payload)
+        toast({
+          title: "Sin conexión",
+          description: "El lote se guardó en este dispositivo y se enviará automáticamente al recuperar la conexión.",
+        })
+        handleReset()
+        return
+      }
 
-      toast({
-        title: "Análisis Completado",
-        description: result.message || "Las imágenes se analizaron con éxito.",
-        variant: "default",
-      })
+      await handleUploadResult(await uploadQueue.run(payload))
     } catch (error) {
       let errorMessage = "Ocurrió un error inesperado."
       if (error instanceof Error) {
-        if (error.message.includes("Failed to fetch") || error.message.includes("NetworkError")) {
-          errorMessage = "No se pudo conectar con el servidor. Verifica la conexión."
-        } else {
-          errorMessage = error.message
-        }
+        errorMessage = error.message
       }
 
       console.error("ERROR al analizar las imágenes:", errorMessage)
@@ -1563,6 +1990,60 @@ export default function PhotoAnalyzer() {
     }
   }
 
+  // Resultados parciales: las imágenes que fallaron se listan para reintentarlas
+  const handleUploadResult = async ({ response, failed, rejected, cancelled }: UploadBatchResult) => {
+    if (!response && failed === 0) {
+      toast({ title: "Subida cancelada", description: "No se envió ninguna imagen." })
+      setCurrentStep("configure")
+      return
+    }
+
+    setAnalysisResult(response)
+    setCurrentStep("results")
+
+    // Si la conexión se cayó a media subida, lo pendiente pasa a la cola sin conexión
+    const queued = failed > rejected && isOffline() ? await uploadQueue.queueFailed() : 0
+    if (queued > 0) {
+      toast({
+        title: "Sin conexión",
+        description: `${queued} imagen(es) quedaron guardadas y se enviarán al recuperar la conexión.`,
+      })
+    } else if (failed > 0 || cancelled > 0) {
+      toast({
+        title: response ? "Análisis incompleto" : "Error de Análisis",
+        description:
+          rejected > 0
+            ? `${failed + cancelled} imagen(es) no se pudieron subir; el servidor rechazó ${rejected}. Revisa el motivo en los resultados.`
+            : `${failed + cancelled} imagen(es) no se pudieron subir. Puedes reintentarlas desde los resultados.`,
+        variant: "destructive",
+      })
+    } else {
+      toast({
+        title: "Análisis Completado",
+        description: "Las imágenes se analizaron con éxito.",
+        variant: "default",
+      })
+    }
+  }
+
+  const handleRetryFailed = async () => {
+    setLoading(true)
+    setCurrentStep("analyze")
+    try {
+      await handleUploadResult(await uploadQueue.retryFailed())
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleQueueFailed = async () => {
+    const queued = await uploadQueue.queueFailed()
+    toast({
+      title: "Guardadas para después",
+      description: `${queued} imagen(es) se enviarán automáticamente; puedes verlas en el encabezado.`,
+    })
+  }
+
   const handleOpenModal = useCallback((result: ImageResult) => {
     setSelectedImageResult(result)
     setIsModalOpen(true)
@@ -1605,9 +2086,9 @@ export default function PhotoAnalyzer() {
   const currentStepIndex = steps.findIndex((s) => s.id === currentStep)
   interface ImageDetailModalProps extends Omit<ModalProps, "title" | "children" | "size"> {
     result: ImageResult | null
-    remoteBaseUrl: string
     historicalImages: ImageResult[]
     onBackToList: () => void
+    onSelectVersion: (version: ImageResult) => void
   }
 
   const ImageDetailModal: React.FC<ImageDetailModalProps> = ({
@@ -1616,6 +2097,7 @@ export default function PhotoAnalyzer() {
     result,
     historicalImages,
     onBackToList,
+    onSelectVersion,
   }) => {
     const mostRecentHistoricalImage = useMemo(() => {
       if (!result) return null
@@ -1648,46 +2130,30 @@ export default function PhotoAnalyzer() {
     const formatArea = (area: number) => area.toFixed(2) + " m²"
     const formatPercent = (percent: number) => percent.toFixed(2) + "%"
 
-    // 1. Obtener la URL de la API
-    const finalSrc = result.image;
-
-    // 2. Determinar la fuente final
-    // let finalSrc;
-
-    // if (typeof imageUrlFromAPI === 'string' && imageUrlFromAPI.length > 0) {
-    //   // Caso A: Si ya empieza con 'http' o 'https', ¡es una URL absoluta!
-    //   if (imageUrlFromAPI.startsWith('http://') || imageUrlFromAPI.startsWith('https://')) {
-    //     finalSrc = imageUrlFromAPI;
-    //   }
-    //   // Caso B: Si no es una URL absoluta (es una ruta relativa como '/media/drones/...')
-    //   else {
-    //     // Normalizamos la base para evitar dobles barras y concatenamos
-    //     const normalizedBase = REMOTE_BASE_URL.endsWith('/')
-    //       ? REMOTE_BASE_URL.slice(0, -1) // Quitar barra final si existe
-    //       : REMOTE_BASE_URL;
-
-    //     // Aseguramos que la ruta de la imagen empiece con una barra para la concatenación
-    //     const normalizedPath = imageUrlFromAPI.startsWith('/')
-    //       ? imageUrlFromAPI
-    //       : `/${imageUrlFromAPI}`;
-
-    //     finalSrc = `${normalizedBase}${normalizedPath}`;
-    //   }
-    // } else {
-    //   // Caso C: Si el campo 'image' está vacío o nulo
-    //   finalSrc = '/placeholder.jpg'; // Usa una imagen de reserva local
-    // }
+    // Las rutas relativas (/media/...) se resuelven contra la URL base de la API
+    const finalSrc = resolveMediaUrl(result.image) || "/placeholder.jpg"
 
     return (
       <Modal isOpen={isOpen} onClose={onClose} title={`Detalle de Captura ID: ${result.id}`} size="xl">
         <div className="grid md:grid-cols-[1.5fr_1fr] gap-6">
           <div className="space-y-4">
             <div className="relative h-96 rounded-lg overflow-hidden bg-slate-100 shadow-inner">
-              <img
-                src={finalSrc}
-                alt={`Imagen ${result.id}`}
-                className="w-full h-full object-contain"
-              />
+              {result.metadata?.roi ? (
+                <div className="w-full h-full flex items-center justify-center">
+                  <RoiImage
+                    src={finalSrc}
+                    alt={`Imagen ${result.id}`}
+                    roi={result.metadata.roi}
+                    imgClassName="max-h-96 w-auto"
+                  />
+                </div>
+              ) : (
+                <img
+                  src={finalSrc}
+                  alt={`Imagen ${result.id}`}
+                  className="w-full h-full object-contain"
+                />
+              )}
               <div className="absolute bottom-0 right-0 p-2 bg-black/50 text-white text-xs rounded-tl-lg">
                 {formatDateForDisplay(result.capture_date)}
               </div>
@@ -1696,12 +2162,19 @@ export default function PhotoAnalyzer() {
               Descripción: {result.description || "Sin descripción proporcionada."}
             </p>
             {/* ✅ CORREGIDO: Verificar si metadata existe */}
-            {result.metadata && (
+            {result.metadata?.resolution_m_per_px > 0 && (
               <p className="text-xs text-slate-500 flex items-center">
                 <Ruler className="w-3 h-3 mr-1" />
-                Resolución: 1 píxel = {result.metadata.resolution_m_per_px} m²
+                Resolución: {formatResolution(result.metadata.resolution_m_per_px)}
+              </p>
+            )}
+            {result.metadata?.roi && (
+              <p className="text-xs text-slate-500 flex items-center">
+                <Crop className="w-3 h-3 mr-1" />
+                Zona analizada: {formatRoiFraction(result.metadata.roi)}
               </p>
             )}
+            {result.metadata && <CameraPosition capture={result.metadata} />}
             {/* ✅ Mostrar mensaje si no hay metadata */}
             {!result.metadata && (
               <p className="text-xs text-slate-400 flex items-center">
@@ -1793,6 +2266,9 @@ export default function PhotoAnalyzer() {
             </div>
           </div>
         </div>
+        <div className="mt-6">
+          <ImageLineagePanel image={result} knownImages={historicalImages} onSelectVersion={onSelectVersion} />
+        </div>
       </Modal>
     )
   }
@@ -1872,6 +2348,13 @@ export default function PhotoAnalyzer() {
                   captureDates={captureDates}
                   onDescriptionChange={handleDescriptionChange}
                   onDateChange={handleDateChange}
+                  resolutions={resolutions}
+                  photoMetadata={photoMetadata}
+                  positionChecks={positionChecks}
+                  onResolutionChange={handleResolutionChange}
+                  onResolutionApplyAll={handleResolutionApplyAll}
+                  rois={rois}
+                  onRoiChange={handleRoiChange}
                   ecosystemName={ecosystemName}
                   setEcosystemName={setEcosystemName}
                   ecosystemId={ecosystemId}
@@ -1881,9 +2364,47 @@ export default function PhotoAnalyzer() {
                   onFileChange={handleFileChange}
                   ecosystems={ecosystems}
                   historicalImages={historicalImages}
+                  historyTotal={historyTotal}
                   loadingHistory={loadingHistory}
                   onOpenHistoryListModal={handleOpenHistoryListModal}
+                  segmentationPreviews={segmentation.previews}
+                  segmentationProcessing={segmentation.processing}
+                  showSegmentation={showSegmentation}
+                  onShowSegmentationChange={setShowSegmentation}
                 />
+                <div className="mt-6">
+                  <PhotoPositionsPanel
+                    fileNames={selectedFiles.map((file) => file.name)}
+                    photoMetadata={photoMetadata}
+                    checks={positionChecks}
+                    polygons={targetPolygons}
+                    acknowledged={outsideAcknowledged}
+                    onAcknowledgedChange={setOutsideAcknowledged}
+                    onRemoveOutside={handleRemoveOutside}
+                  />
+                </div>
+                <div className="mt-6">
+                  <DuplicatesPanel
+                    files={selectedFiles}
+                    previewUrls={imagePreviewUrls}
+                    duplicates={duplicateCheck.duplicates}
+                    checking={duplicateCheck.checking}
+                    uncheckedHistory={duplicateCheck.uncheckedHistory}
+                    historyFailed={duplicateCheck.historyFailed}
+                    onSkip={handleRemoveFile}
+                  />
+                </div>
+                <div className="mt-6">
+                  <CompressionPanel
+                    enabled={compressionEnabled}
+                    onEnabledChange={setCompressionEnabled}
+                    options={compressionOptions}
+                    onOptionsChange={setCompressionOptions}
+                    files={selectedFiles}
+                    results={compression.results}
+                    processing={compression.processing}
+                  />
+                </div>
                 {/* Input file oculto específico para el paso de configuración */}
                 <Input
                   type="file"
@@ -1896,12 +2417,29 @@ export default function PhotoAnalyzer() {
               </>
             )}
 
-            {currentStep === "analyze" && <AnalyzeStep loading={loading} />}
+            {currentStep === "analyze" && (
+              <AnalyzeStep
+                loading={loading}
+                uploadItems={uploadQueue.items}
+                onCancelUpload={uploadQueue.cancel}
+                onCancelAllUploads={uploadQueue.cancelAll}
+              />
+            )}
+
+            {currentStep === "results" && uploadQueue.items.some((item) => item.status !== "done") && (
+              <Card className="p-6 border-0 shadow-sm bg-white mb-6">
+                <UploadProgressList
+                  items={uploadQueue.items}
+                  running={uploadQueue.running}
+                  onRetryFailed={handleRetryFailed}
+                  onQueueFailed={handleQueueFailed}
+                />
+              </Card>
+            )}
 
             {currentStep === "results" && analysisResult && (
               <ResultsStep
                 result={analysisResult}
-                remoteBaseUrl={REMOTE_BASE_URL}
                 onOpenModal={handleOpenModal}
                 historicalImages={historicalImages}
               />
@@ -1911,9 +2449,9 @@ export default function PhotoAnalyzer() {
           <div className="space-y-6">
             {currentStep === "configure" && (
               <Card className="p-6 border-0 shadow-sm bg-white">
-                <h3 className="text-[18px] font-medium text-slate-900 mb-4">Ajustes de Vista Previa</h3>
+                <h3 className="text-[18px] font-medium text-slate-900 mb-4">Ajustes de Imagen</h3>
                 <p className="text-[13px] text-slate-600 mb-6">
-                  Estos ajustes solo afectan la vista previa, no el análisis final
+                  Los ajustes se aplican a las imágenes que se envían, así que también cambian el análisis
                 </p>
                 <div className="space-y-4">
                   {(Object.keys(filterValues) as Array<keyof FilterValues>).map((key) => (
@@ -1936,6 +2474,27 @@ export default function PhotoAnalyzer() {
                     </div>
                   ))}
                 </div>
+                {!isNeutralAdjustment(filterValues) && (
+                  <div className="mt-5 pt-4 border-t border-slate-100 space-y-2">
+                    <label className="flex items-center gap-2 text-[13px] text-slate-700 cursor-pointer">
+                      <input type="checkbox" checked={keepOriginals} onChange={(e) => setKeepOriginals(e.target.checked)} />
+                      Enviar también la imagen original
+                    </label>
+                    <p className="text-[12px] text-slate-500">
+                      {keepOriginals
+                        ? "Se analizan ambas; la ajustada queda registrada como versión de la original."
+                        : "Solo se envía la versión ajustada, marcada como imagen ajustada."}
+                    </p>
+                    <Button
+                      onClick={() => setFilterValues(NEUTRAL_ADJUSTMENTS)}
+                      variant="outline"
+                      size="sm"
+                      className="h-8 text-xs"
+                    >
+                      Restablecer ajustes
+                    </Button>
+                  </div>
+                )}
               </Card>
             )}
             <Card className="p-6 border-0 shadow-sm bg-white">
@@ -1952,8 +2511,19 @@ export default function PhotoAnalyzer() {
                       }
                       className="w-full bg-blue-600 hover:bg-blue-700 text-white h-11 text-[14px] font-medium rounded-lg shadow-sm"
                     >
-                      {loadingHistory ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : "Iniciar Análisis"}
+                      {loadingHistory ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : online ? (
+                        "Iniciar Análisis"
+                      ) : (
+                        "Guardar para enviar después"
+                      )}
                     </Button>
+                    {!online && (
+                      <p className="text-[12px] text-amber-700">
+                        Sin conexión: el lote se guardará en este dispositivo y se analizará al volver la red.
+                      </p>
+                    )}
                     <Button
                       onClick={() => setCurrentStep("upload")}
                       variant="outline"
@@ -2007,9 +2577,9 @@ export default function PhotoAnalyzer() {
           isOpen={isModalOpen}
           onClose={handleCloseModal}
           result={selectedImageResult}
-          remoteBaseUrl={REMOTE_BASE_URL}
           historicalImages={historicalImages}
           onBackToList={handleBackToHistoryList}
+          onSelectVersion={setSelectedImageResult}
         />
 
         {/* Nuevo Modal de Historial Profesional */}
@@ -2017,10 +2587,14 @@ export default function PhotoAnalyzer() {
           isOpen={isHistoryListModalOpen}
           onClose={handleCloseHistoryListModal}
           historicalImages={historicalImages}
+          totalCount={historyTotal}
+          hasMore={hasMoreHistory}
+          loadingMore={loadingMoreHistory}
+          onLoadMore={handleLoadMoreHistory}
+          onDateRangeChange={handleHistoryDateRangeChange}
           ecosystemName={ecosystemName}
           ecosystemId={ecosystemId}
           onViewDetail={handleViewHistoryDetail}
-          remoteBaseUrl={REMOTE_BASE_URL}
         />
       </div>
       <Toaster />
@@ -0,0 +1,65 @@
+"use client"
+
+import type React from "react"
+import { useEffect } from "react"
+import { MapContainer, TileLayer, Polygon, CircleMarker, Tooltip, useMap } from "react-leaflet"
+import L from "leaflet"
+import type { PhotoPositionStatus } from "@/lib/photo-metadata"
+import type { LeafletPolygons } from "@/lib/wkt"
+
+import "leaflet/dist/leaflet.css"
+
+export interface PhotoPosition {
+  label: string
+  latitude: number
+  longitude: number
+  status: PhotoPositionStatus
+}
+
+const STATUS_COLORS: Record<PhotoPositionStatus, string> = {
+  inside: "#16a34a",
+  near: "#f59e0b",
+  outside: "#dc2626",
+  unknown: "#64748b",
+}
+
+// Encuadra el límite y todas las fotos
+const FitToContent: React.FC<{ positions: PhotoPosition[]; polygons: LeafletPolygons | null }> = ({ positions, polygons }) => {
+  const map = useMap()
+
+  useEffect(() => {
+    const points: [number, number][] = [
+      ...positions.map(({ latitude, longitude }) => [latitude, longitude] as [number, number]),
+      ...(polygons || []).flatMap((rings) => rings[0] || []),
+    ]
+    if (points.length === 0) return
+    const bounds = L.latLngBounds(points)
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [20, 20], maxZoom: 17 })
+  }, [positions, polygons, map])
+
+  return null
+}
+
+// Mini mapa con la posición de cada foto frente al límite del ecosistema
+const PhotoPositionsMap: React.FC<{ positions: PhotoPosition[]; polygons: LeafletPolygons | null }> = ({
+  positions,
+  polygons,
+}) => (
+  <MapContainer center={[21.0, -99.0]} zoom={6} scrollWheelZoom={false} className="h-56 w-full rounded-lg z-0">
+    <TileLayer attribution='© <a href="https://maps.google.com">Google Satellite</a>' url="https://mt1.google.com/vt/lyrs=s&x={x}&y={y}&z={z}" />
+    {polygons && <Polygon positions={polygons} pathOptions={{ color: "#3b82f6", weight: 2, fillOpacity: 0.15 }} />}
+    {positions.map((position, index) => (
+      <CircleMarker
+        key={index}
+        center={[position.latitude, position.longitude]}
+        radius={6}
+        pathOptions={{ color: "#ffffff", weight: 1.5, fillColor: STATUS_COLORS[position.status], fillOpacity: 1 }}
+      >
+        <Tooltip>{position.label}</Tooltip>
+      </CircleMarker>
+    ))}
+    <FitToContent positions={positions} polygons={polygons} />
+  </MapContainer>
+)
+
+export default PhotoPositionsMap
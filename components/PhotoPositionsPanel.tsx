@@ -0,0 +1,110 @@
+"use client"
+
+import type React from "react"
+import dynamic from "next/dynamic"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { AlertTriangle, Loader2, MapPin, Trash2 } from "lucide-react"
+import { formatLength } from "@/lib/geodesy"
+import { hasPosition, type PhotoMetadata, type PhotoPositionCheck } from "@/lib/photo-metadata"
+import type { PhotoPosition } from "@/components/PhotoPositionsMap"
+import type { LeafletPolygons } from "@/lib/wkt"
+
+// Leaflet necesita `window`: el mini mapa solo se carga en el navegador
+const PhotoPositionsMap = dynamic(() => import("@/components/PhotoPositionsMap"), {
+  ssr: false,
+  loading: () => (
+    <div className="h-56 w-full rounded-lg bg-slate-100 flex items-center justify-center">
+      <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+    </div>
+  ),
+})
+
+interface PhotoPositionsPanelProps {
+  fileNames: string[]
+  photoMetadata: (PhotoMetadata | null)[]
+  checks: PhotoPositionCheck[]
+  polygons: LeafletPolygons | null
+  acknowledged: boolean
+  onAcknowledgedChange: (acknowledged: boolean) => void
+  onRemoveOutside: () => void
+}
+
+// Revisión de la posición GPS de las fotos frente al ecosistema antes de enviarlas
+const PhotoPositionsPanel: React.FC<PhotoPositionsPanelProps> = ({
+  fileNames,
+  photoMetadata,
+  checks,
+  polygons,
+  acknowledged,
+  onAcknowledgedChange,
+  onRemoveOutside,
+}) => {
+  const positions: PhotoPosition[] = photoMetadata.flatMap((metadata, index) =>
+    metadata && hasPosition(metadata.capture)
+      ? [
+          {
+            label: `${index + 1}. ${fileNames[index] ?? ""}`,
+            latitude: metadata.capture.latitude,
+            longitude: metadata.capture.longitude,
+            status: checks[index]?.status ?? "unknown",
+          },
+        ]
+      : [],
+  )
+  if (positions.length === 0) return null
+
+  const outside = checks.flatMap((check, index) => (check.status === "outside" ? [index] : []))
+
+  return (
+    <Card className="p-4 border border-slate-200 space-y-3">
+      <div className="flex items-center gap-2">
+        <MapPin className="w-4 h-4 text-blue-600" />
+        <p className="text-sm font-medium text-slate-700">Posición de las fotos</p>
+        <span className="ml-auto text-xs text-slate-500">
+          {positions.length} de {fileNames.length} con GPS
+        </span>
+      </div>
+
+      <PhotoPositionsMap positions={positions} polygons={polygons} />
+
+      {!polygons && (
+        <p className="text-xs text-slate-500">
+          El ecosistema elegido no tiene polígono, así que no se puede comprobar si las fotos caen dentro.
+        </p>
+      )}
+
+      {polygons && outside.length === 0 && (
+        <p className="text-xs text-green-700">Todas las fotos con GPS se tomaron dentro o junto al ecosistema.</p>
+      )}
+
+      {outside.length > 0 && (
+        <div className="p-3 rounded-lg border border-red-200 bg-red-50 space-y-2">
+          <p className="text-sm font-medium text-red-700 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            {outside.length === 1 ? "1 foto se tomó" : `${outside.length} fotos se tomaron`} fuera del ecosistema
+          </p>
+          <ul className="text-xs text-red-700 space-y-0.5">
+            {outside.map((index) => (
+              <li key={index}>
+                {index + 1}. {fileNames[index]} — a {formatLength(checks[index].distanceM ?? 0)} del límite
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-wrap items-center gap-3 pt-1">
+            <Button onClick={onRemoveOutside} size="sm" variant="outline" className="h-8 text-xs bg-white text-red-700 border-red-200">
+              <Trash2 className="w-3 h-3 mr-1" />
+              Quitar estas fotos
+            </Button>
+            <label className="flex items-center gap-2 text-xs text-red-700 cursor-pointer">
+              <input type="checkbox" checked={acknowledged} onChange={(e) => onAcknowledgedChange(e.target.checked)} />
+              Son correctas, analizarlas de todos modos
+            </label>
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
+
+export default PhotoPositionsPanel
@@ -0,0 +1,94 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { Trash2, Undo2 } from "lucide-react"
+import RoiImage from "@/components/RoiImage"
+import type { RoiPolygon } from "@/lib/api"
+import { MIN_ROI_FRACTION, formatRoiFraction, isUsableRoi } from "@/lib/roi"
+
+interface RoiEditorProps {
+  isOpen: boolean
+  onClose: () => void
+  src: string
+  fileName: string
+  roi: RoiPolygon | null
+  // `null` vuelve a analizar la foto completa
+  onSave: (roi: RoiPolygon | null) => void
+}
+
+// Dibujo de la zona de análisis de una foto, vértice a vértice
+const RoiEditor: React.FC<RoiEditorProps> = ({ isOpen, onClose, src, fileName, roi, onSave }) => {
+  const [points, setPoints] = useState<RoiPolygon>([])
+
+  useEffect(() => {
+    if (isOpen) setPoints(roi ?? [])
+  }, [isOpen, roi])
+
+  const usable = isUsableRoi(points)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl w-full max-h-[90vh] overflow-y-auto z-[10060]">
+        <DialogTitle>Zona de análisis - {fileName}</DialogTitle>
+        <p className="text-sm text-slate-600">
+          Haz clic sobre la foto para marcar los vértices del área a analizar. La orilla, las lanchas o los edificios
+          que queden fuera no se cuentan.
+        </p>
+
+        <div className="flex justify-center bg-slate-100 rounded-lg p-2">
+          <RoiImage
+            src={src}
+            alt={`Zona de análisis de ${fileName}`}
+            roi={points}
+            imgClassName="max-h-[60vh] w-auto select-none"
+            onPoint={(point) => setPoints((prev) => [...prev, point])}
+            showVertices
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-600">
+            {points.length < 3
+              ? `${points.length} vértice(s); se necesitan al menos 3`
+              : usable
+                ? `Se analizará el ${formatRoiFraction(points)}`
+                : `La zona debe cubrir al menos el ${MIN_ROI_FRACTION * 100}% de la foto`}
+          </span>
+          <Button
+            onClick={() => setPoints((prev) => prev.slice(0, -1))}
+            disabled={points.length === 0}
+            size="sm"
+            variant="outline"
+            className="ml-auto h-8 text-xs"
+          >
+            <Undo2 className="w-3 h-3 mr-1" />
+            Quitar último vértice
+          </Button>
+          <Button
+            onClick={() => onSave(null)}
+            disabled={!roi && points.length === 0}
+            size="sm"
+            variant="outline"
+            className="h-8 text-xs text-red-600"
+          >
+            <Trash2 className="w-3 h-3 mr-1" />
+            Analizar foto completa
+          </Button>
+          <Button
+            onClick={() => onSave(points)}
+            disabled={!usable}
+            size="sm"
+            className="h-8 text-xs bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            Guardar zona
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default RoiEditor
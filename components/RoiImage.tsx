@@ -0,0 +1,65 @@
+"use client"
+
+import type React from "react"
+import type { RoiPolygon } from "@/lib/api"
+import { normalizeRoiPoint, roiToSvgPath } from "@/lib/roi"
+
+interface RoiImageProps {
+  src: string
+  alt: string
+  roi: RoiPolygon | null | undefined
+  imgClassName?: string
+  imgStyle?: React.CSSProperties
+  // Con esta función la imagen acepta clics para añadir vértices
+  onPoint?: (point: [number, number]) => void
+  showVertices?: boolean
+}
+
+/**
+ * Foto con su zona de análisis encima. El contenedor se ajusta al tamaño
+ * exacto de la imagen para que las coordenadas 0-1 del polígono coincidan
+ * con los píxeles.
+ */
+const RoiImage: React.FC<RoiImageProps> = ({ src, alt, roi, imgClassName = "", imgStyle, onPoint, showVertices }) => {
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect()
+    onPoint?.(normalizeRoiPoint((e.clientX - bounds.left) / bounds.width, (e.clientY - bounds.top) / bounds.height))
+  }
+
+  return (
+    <div className="relative inline-block max-w-full">
+      <img src={src} alt={alt} style={imgStyle} className={`block max-w-full ${imgClassName}`} />
+      {(!!roi?.length || !!onPoint) && (
+        <svg
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+          onClick={onPoint ? handleClick : undefined}
+          className={`absolute inset-0 w-full h-full ${onPoint ? "cursor-crosshair" : "pointer-events-none"}`}
+        >
+          {roi && roi.length >= 3 && (
+            <path d={`M 0 0 H 1 V 1 H 0 Z ${roiToSvgPath(roi)}`} fillRule="evenodd" fill="black" fillOpacity={0.45} />
+          )}
+          {roi && roi.length >= 2 && (
+            <path
+              d={roiToSvgPath(roi)}
+              fill="none"
+              stroke="#facc15"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      )}
+      {showVertices &&
+        roi?.map(([x, y], index) => (
+          <span
+            key={index}
+            className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full bg-yellow-400 border border-white pointer-events-none"
+            style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+          />
+        ))}
+    </div>
+  )
+}
+
+export default RoiImage
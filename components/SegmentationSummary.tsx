@@ -0,0 +1,51 @@
+"use client"
+
+import type React from "react"
+import { AlertTriangle, Loader2 } from "lucide-react"
+import type { SegmentationPreview } from "@/lib/segmentation"
+
+interface SegmentationSummaryProps {
+  preview: SegmentationPreview | null
+  processing: boolean
+}
+
+// Porcentajes estimados en el navegador y avisos de la foto, bajo su vista previa
+const SegmentationSummary: React.FC<SegmentationSummaryProps> = ({ preview, processing }) => {
+  if (!preview) {
+    return processing ? (
+      <p className="text-[12px] text-slate-500 flex items-center gap-1">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Segmentando…
+      </p>
+    ) : null
+  }
+
+  const { stats, warnings } = preview
+  return (
+    <div className="space-y-1">
+      <p className="text-[12px] text-slate-600 flex flex-wrap gap-x-2">
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-sm bg-blue-600" />
+          Agua {stats.waterPercentage}%
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-sm bg-green-600" />
+          Lirio {stats.vegetationPercentage}%
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-sm bg-yellow-400" />
+          Reflejo {stats.glarePercentage}%
+        </span>
+        <span>Otro {stats.otherPercentage}%</span>
+      </p>
+      {warnings.map((warning) => (
+        <p key={warning} className="text-[12px] font-medium text-amber-700 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+          {warning}
+        </p>
+      ))}
+    </div>
+  )
+}
+
+export default SegmentationSummary
@@ -0,0 +1,148 @@
+"use client"
+
+import type React from "react"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, Ban, Check, Clock, CloudOff, Loader2, RotateCcw, X } from "lucide-react"
+import { UPLOAD_MAX_ATTEMPTS, type UploadItem, type UploadItemStatus } from "@/lib/api"
+
+const STATUS_LABELS: Record<UploadItemStatus, string> = {
+  pending: "En espera",
+  uploading: "Subiendo",
+  retrying: "Reintentando",
+  done: "Analizada",
+  failed: "Falló",
+  cancelled: "Cancelada",
+  queued: "En cola sin conexión",
+}
+
+const STATUS_STYLES: Record<UploadItemStatus, { bar: string; text: string }> = {
+  pending: { bar: "bg-slate-300", text: "text-slate-500" },
+  uploading: { bar: "bg-blue-600", text: "text-blue-700" },
+  retrying: { bar: "bg-amber-500", text: "text-amber-700" },
+  done: { bar: "bg-green-600", text: "text-green-700" },
+  failed: { bar: "bg-red-500", text: "text-red-700" },
+  cancelled: { bar: "bg-slate-400", text: "text-slate-500" },
+  queued: { bar: "bg-amber-400", text: "text-amber-700" },
+}
+
+const StatusIcon: React.FC<{ status: UploadItemStatus }> = ({ status }) => {
+  const className = `w-4 h-4 flex-shrink-0 ${STATUS_STYLES[status].text}`
+  if (status === "uploading" || status === "retrying") return <Loader2 className={`${className} animate-spin`} />
+  if (status === "done") return <Check className={className} />
+  if (status === "failed") return <AlertTriangle className={className} />
+  if (status === "cancelled") return <Ban className={className} />
+  if (status === "queued") return <CloudOff className={className} />
+  return <Clock className={className} />
+}
+
+interface UploadProgressListProps {
+  items: UploadItem[]
+  running: boolean
+  // Durante la subida: cancelar una imagen o todas
+  onCancel?: (index: number) => void
+  onCancelAll?: () => void
+  // En resultados: volver a subir las que fallaron o se cancelaron, o guardarlas para después
+  onRetryFailed?: () => void
+  onQueueFailed?: () => void
+}
+
+// Avance de la subida imagen por imagen
+const UploadProgressList: React.FC<UploadProgressListProps> = ({
+  items,
+  running,
+  onCancel,
+  onCancelAll,
+  onRetryFailed,
+  onQueueFailed,
+}) => {
+  const done = items.filter((item) => item.status === "done").length
+  // Rechazada por el servidor (4xx): fallo definitivo que no se reintenta
+  const isRejected = (item: UploadItem) => item.status === "failed" && !item.retryable
+  const rejected = items.filter(isRejected).length
+  const unfinished = items.filter((item) => (item.status === "failed" && item.retryable) || item.status === "cancelled").length
+  const queued = items.filter((item) => item.status === "queued").length
+  const active = (status: UploadItemStatus) => status === "pending" || status === "uploading" || status === "retrying"
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-medium text-slate-700">
+          {done} de {items.length} imágenes analizadas
+          {unfinished > 0 && <span className="text-red-700"> · {unfinished} sin subir</span>}
+          {rejected > 0 && <span className="text-red-700"> · {rejected} rechazadas por el servidor</span>}
+          {queued > 0 && <span className="text-amber-700"> · {queued} en cola sin conexión</span>}
+        </p>
+        {running && onCancelAll && (
+          <Button onClick={onCancelAll} size="sm" variant="outline" className="h-8 text-xs">
+            <X className="w-3 h-3 mr-1" />
+            Cancelar todo
+          </Button>
+        )}
+        {!running && unfinished > 0 && (onRetryFailed || onQueueFailed) && (
+          <div className="flex gap-2">
+            {onQueueFailed && (
+              <Button onClick={onQueueFailed} size="sm" variant="outline" className="h-8 text-xs">
+                <CloudOff className="w-3 h-3 mr-1" />
+                Enviar después
+              </Button>
+            )}
+            {onRetryFailed && (
+              <Button onClick={onRetryFailed} size="sm" className="h-8 text-xs bg-blue-600 hover:bg-blue-700 text-white">
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Reintentar fallidas ({unfinished})
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <ul className="space-y-2 max-h-80 overflow-y-auto">
+        {items.map((item, index) => {
+          const styles = STATUS_STYLES[item.status]
+          return (
+            <li key={index} className="p-2 rounded-lg border border-slate-200 bg-white">
+              <div className="flex items-center gap-2">
+                <StatusIcon status={item.status} />
+                <span className="text-sm text-slate-800 truncate">
+                  {index + 1}. {item.fileName}
+                </span>
+                <span className={`ml-auto text-xs whitespace-nowrap ${styles.text}`}>
+                  {/* Con el cuerpo ya enviado, el servidor está segmentando la imagen */}
+                  {item.status === "uploading" && item.progress >= 1
+                    ? "Analizando"
+                    : isRejected(item)
+                      ? "Rechazada por el servidor"
+                      : STATUS_LABELS[item.status]}
+                  {item.status === "uploading" && item.progress < 1 && ` ${Math.round(item.progress * 100)}%`}
+                  {item.status === "retrying" && ` (intento ${item.attempt} de ${UPLOAD_MAX_ATTEMPTS})`}
+                </span>
+                {onCancel && active(item.status) && (
+                  <button
+                    onClick={() => onCancel(index)}
+                    className="p-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+                    title="Cancelar esta imagen"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              {item.status !== "done" && item.status !== "cancelled" && item.status !== "queued" && (
+                <div className="mt-2 h-1.5 w-full rounded-full bg-slate-100 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all ${styles.bar}`}
+                    style={{ width: `${item.status === "failed" ? 100 : Math.round(item.progress * 100)}%` }}
+                  />
+                </div>
+              )}
+              {item.error && item.status !== "done" && item.status !== "queued" && <p className="mt-1 text-xs text-red-600">{item.error}</p>}
+              {/* En una imagen terminada el error es un aviso: se analizó, pero no su versión ajustada */}
+              {item.error && item.status === "done" && <p className="mt-1 text-xs text-amber-700">{item.error}</p>}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+export default UploadProgressList
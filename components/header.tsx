@@ -4,6 +4,7 @@ import { useState, useEffect } from "react"
 import Image from "next/image"
 import Link from "next/link"
 import { motion, AnimatePresence } from "framer-motion"
+import OfflineQueueIndicator from "@/components/OfflineQueueIndicator"
 
 // Helper Icon Components
 const IconX = (props: React.SVGProps<SVGSVGElement>) => (
@@ -89,10 +90,12 @@ export function Header() {
                   {item.label}
                 </Link>
               ))}
+              <OfflineQueueIndicator />
             </nav>
 
             {/* Mobile Menu Button */}
-            <div className="flex items-center md:hidden">
+            <div className="flex items-center gap-1 md:hidden">
+              <OfflineQueueIndicator />
               <button
                 onClick={() => setIsSidebarOpen(true)}
                 className="p-2 rounded-md text-gray-600 hover:bg-gray-100 transition-colors"
@@ -7,6 +7,12 @@ import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { Card } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
+import { useApiCacheVersion } from "@/hooks/use-api-cache"
+import { useImageCompression } from "@/hooks/use-image-compression"
+import { useUploadQueue } from "@/hooks/use-upload-queue"
+import { useOfflineQueue } from "@/hooks/use-offline-queue"
+import { useDuplicateDetection } from "@/hooks/use-duplicate-detection"
+import { useSegmentationPreview } from "@/hooks/use-segmentation-preview"
 import { Toaster } from "@/components/ui/toaster"
 import {
   Upload,
@@ -21,45 +27,49 @@ import {
   Plus,
   Eye,
   Map,
+  Ruler,
+  Crop,
 } from "lucide-react"
-
-const REMOTE_BASE_URL = "https://sistemahidalgodroneva.site"
+import { formatAreaHa, formatAreaM2, formatLength } from "@/lib/geodesy"
+import { formatResolution, scaleGsdToWidth } from "@/lib/camera"
+import GsdCalculator from "@/components/GsdCalculator"
+import CameraPosition from "@/components/CameraPosition"
+import PhotoPositionsPanel from "@/components/PhotoPositionsPanel"
+import CompressionPanel from "@/components/CompressionPanel"
+import UploadProgressList from "@/components/UploadProgressList"
+import DuplicatesPanel from "@/components/DuplicatesPanel"
+import SegmentationSummary from "@/components/SegmentationSummary"
+import RoiEditor from "@/components/RoiEditor"
+import {
+  checkPhotoPosition,
+  describePhotoMetadata,
+  readPhotoMetadata,
+  type PhotoMetadata,
+  type PhotoPositionCheck,
+} from "@/lib/photo-metadata"
+import { DEFAULT_COMPRESSION_OPTIONS, prepareCompressedUpload } from "@/lib/image-compression"
+import type { SegmentationPreview } from "@/lib/segmentation"
+import type { Feature } from "geojson"
+import { cropUploadToRois, formatRoiFraction } from "@/lib/roi"
+import { geometryToLeafletPolygons, wktToLeafletPolygons, type LeafletPolygons } from "@/lib/wkt"
+import {
+  enqueueUpload,
+  getEcosystems,
+  isOffline,
+  resolveMediaUrl,
+  type Ecosystem,
+  type ImageResult,
+  type RoiPolygon,
+  type UploadBatchResult,
+  type UploadItem,
+  type UploadMultiplePayload,
+  type UploadResponse,
+} from "@/lib/api"
 
 // ------------------------------ //
 // INTERFACES
 // ------------------------------ //
 
-interface Ecosystem {
-  id: number
-  name: string
-  created_at: string
-}
-
-interface ImageResult {
-  id: number
-  ecosystem?: number
-  image: string
-  description: string
-  metadata: {
-    resolution_m_per_px: number
-  }
-  vegetation_percentage: number
-  vegetation_area_m2: number
-  water_percentage: number
-  water_area_m2: number
-  is_adjusted: boolean
-  parent_image: number | null
-  adjusted_images: number[]
-  capture_date?: string
-}
-
-interface UploadResponse {
-  message: string
-  ecosystem_id: number
-  ecosystem_name: string
-  images: ImageResult[]
-}
-
 interface FilterValues {
   brightness: number
   contrast: number
@@ -74,6 +84,8 @@ interface PolygonData {
   ecosystemId?: string
   useExisting?: boolean
   coordinates?: number[][][] // Coordenadas en formato array
+  areaM2?: number // Área geodésica del polígono dibujado
+  perimeterM?: number
 }
 
 interface PhotoAnalyzerModalProps {
@@ -183,6 +195,13 @@ const ConfigureStep: React.FC<{
   captureDates: string[]
   onDescriptionChange: (index: number, desc: string) => void
   onDateChange: (index: number, date: string) => void
+  resolutions: (number | null)[]
+  photoMetadata: (PhotoMetadata | null)[]
+  positionChecks: PhotoPositionCheck[]
+  onResolutionChange: (index: number, metersPerPixel: number | null) => void
+  onResolutionApplyAll: (resolutions: number[]) => void
+  rois: (RoiPolygon | null)[]
+  onRoiChange: (index: number, roi: RoiPolygon | null) => void
   ecosystemName: string
   setEcosystemName: (name: string) => void
   ecosystemId: string | null
@@ -192,6 +211,10 @@ const ConfigureStep: React.FC<{
   onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void
   ecosystems: Ecosystem[]
   polygonData?: PolygonData
+  segmentationPreviews: (SegmentationPreview | null)[]
+  segmentationProcessing: boolean
+  showSegmentation: boolean
+  onShowSegmentationChange: (show: boolean) => void
 }> = ({
   selectedFiles,
   imagePreviewUrls,
@@ -201,6 +224,13 @@ const ConfigureStep: React.FC<{
   captureDates,
   onDescriptionChange,
   onDateChange,
+  resolutions,
+  photoMetadata,
+  positionChecks,
+  onResolutionChange,
+  onResolutionApplyAll,
+  rois,
+  onRoiChange,
   ecosystemName,
   setEcosystemName,
   ecosystemId,
@@ -208,10 +238,18 @@ const ConfigureStep: React.FC<{
   onAddMore,
   ecosystems,
   polygonData,
+  segmentationPreviews,
+  segmentationProcessing,
+  showSegmentation,
+  onShowSegmentationChange,
 }) => {
   const selectedEcosystem = useMemo(() => {
     return ecosystems.find((e) => e.id.toString() === ecosystemId)
   }, [ecosystemId, ecosystems])
+  const [calculatorIndex, setCalculatorIndex] = useState<number | null>(null)
+  const [roiEditorIndex, setRoiEditorIndex] = useState<number | null>(null)
+  // Ancho real de cada foto, leído al cargar su vista previa
+  const [imageWidths, setImageWidths] = useState<Record<string, number>>({})
 
   // Función para mostrar coordenadas de forma legible
   const formatCoordinatesForDisplay = useCallback((coords: number[][][]): string => {
@@ -302,6 +340,12 @@ const ConfigureStep: React.FC<{
             <p className="text-xs text-blue-600">
               <strong>Polígono:</strong> {polygonData.drawnItemsCount} elemento(s) dibujado(s)
             </p>
+            {!!polygonData.areaM2 && (
+              <p className="text-xs text-blue-600 mt-1">
+                <strong>Área medida:</strong> {formatAreaM2(polygonData.areaM2)} ({formatAreaHa(polygonData.areaM2)})
+                {polygonData.perimeterM ? ` · Perímetro: ${formatLength(polygonData.perimeterM)}` : ""}
+              </p>
+            )}
             {polygonData.coordinates && (
               <p className="text-xs text-blue-600 mt-1">
                 <strong>Coordenadas:</strong> {formatCoordinatesForDisplay(polygonData.coordinates)}
@@ -316,7 +360,17 @@ const ConfigureStep: React.FC<{
         )}
       </Card>
 
-      <h3 className="text-lg font-medium text-slate-900">Imágenes a Analizar ({selectedFiles.length})</h3>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-medium text-slate-900">Imágenes a Analizar ({selectedFiles.length})</h3>
+        <label className="flex items-center gap-2 text-xs text-slate-700">
+          <input
+            type="checkbox"
+            checked={showSegmentation}
+            onChange={(e) => onShowSegmentationChange(e.target.checked)}
+          />
+          Vista previa de agua y lirio
+        </label>
+      </div>
 
       <div className="space-y-3">
         {selectedFiles.map((file, index) => (
@@ -325,9 +379,20 @@ const ConfigureStep: React.FC<{
               <img
                 src={imagePreviewUrls[index] || "/placeholder.svg"}
                 alt={`Vista previa de ${file.name}`}
+                onLoad={(e) => {
+                  const width = e.currentTarget.naturalWidth
+                  setImageWidths((prev) => (prev[file.name] === width ? prev : { ...prev, [file.name]: width }))
+                }}
                 style={getImageFilterStyle()}
                 className="w-full h-full object-cover"
               />
+              {showSegmentation && segmentationPreviews[index] && (
+                <img
+                  src={segmentationPreviews[index].overlayUrl}
+                  alt={`Segmentación preliminar de ${file.name}`}
+                  className="absolute inset-0 w-full h-full object-cover pointer-events-none"
+                />
+              )}
               <Button
                 onClick={() => onRemoveFile(index)}
                 variant="destructive"
@@ -338,6 +403,18 @@ const ConfigureStep: React.FC<{
               </Button>
             </div>
             <div className="flex-1 space-y-2">
+              {showSegmentation && (
+                <SegmentationSummary preview={segmentationPreviews[index]} processing={segmentationProcessing} />
+              )}
+              <div className="flex items-center gap-2">
+                <Button onClick={() => setRoiEditorIndex(index)} variant="outline" size="sm" className="h-7 text-xs">
+                  <Crop className="w-3 h-3 mr-1" />
+                  {rois[index] ? "Editar zona" : "Delimitar zona"}
+                </Button>
+                <span className="text-[11px] text-slate-500">
+                  {rois[index] ? `Se analiza el ${formatRoiFraction(rois[index])}` : "Foto completa"}
+                </span>
+              </div>
               <div>
                 <Label htmlFor={`date-${index}`} className="text-xs font-medium text-slate-700">
                   Fecha de Captura
@@ -349,6 +426,9 @@ const ConfigureStep: React.FC<{
                   onChange={(e) => onDateChange(index, e.target.value)}
                   className="h-8 text-sm"
                 />
+                {photoMetadata[index]?.captureDate && photoMetadata[index]?.captureDate === captureDates[index] && (
+                  <p className="text-[11px] text-slate-500 mt-1">Fecha leída de los metadatos de la foto</p>
+                )}
               </div>
               <div>
                 <Label htmlFor={`desc-${index}`} className="text-xs font-medium text-slate-700">
@@ -362,6 +442,58 @@ const ConfigureStep: React.FC<{
                   className="h-8 text-sm"
                 />
               </div>
+              {photoMetadata[index] && <CameraPosition capture={photoMetadata[index].capture} />}
+              {positionChecks[index]?.status === "outside" && (
+                <p className="text-xs font-medium text-red-600">
+                  Fuera del ecosistema, a {formatLength(positionChecks[index].distanceM ?? 0)} del límite
+                </p>
+              )}
+              <div>
+                <Label htmlFor={`resolution-${index}`} className="text-xs font-medium text-slate-700">
+                  Resolución en terreno (m/px)
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`resolution-${index}`}
+                    type="number"
+                    min={0}
+                    step={0.001}
+                    placeholder="La del servidor"
+                    value={resolutions[index] ?? ""}
+                    onChange={(e) => onResolutionChange(index, e.target.value === "" ? null : Number(e.target.value))}
+                    className="h-8 text-sm"
+                  />
+                  <Button
+                    onClick={() => setCalculatorIndex(calculatorIndex === index ? null : index)}
+                    variant="outline"
+                    size="sm"
+                    className="h-8 text-xs"
+                  >
+                    <Ruler className="w-3 h-3 mr-1" />
+                    Calcular
+                  </Button>
+                </div>
+                {!!resolutions[index] && (
+                  <p className="text-[11px] text-slate-500 mt-1">{formatResolution(resolutions[index] as number)}</p>
+                )}
+                {calculatorIndex === index && (
+                  <GsdCalculator
+                    imageWidthPx={imageWidths[file.name]}
+                    onApply={(value, applyToAll, widthPx) => {
+                      // Cada foto recibe el GSD que le corresponde según su propio ancho
+                      if (applyToAll) {
+                        onResolutionApplyAll(
+                          selectedFiles.map((other) => scaleGsdToWidth(value, widthPx, imageWidths[other.name])),
+                        )
+                      } else {
+                        onResolutionChange(index, value)
+                      }
+                      setCalculatorIndex(null)
+                    }}
+                    onClose={() => setCalculatorIndex(null)}
+                  />
+                )}
+              </div>
             </div>
           </Card>
         ))}
@@ -375,24 +507,51 @@ const ConfigureStep: React.FC<{
         <Plus className="w-4 h-4 mr-2" />
         Añadir más imágenes
       </Button>
+
+      {roiEditorIndex !== null && selectedFiles[roiEditorIndex] && (
+        <RoiEditor
+          isOpen
+          onClose={() => setRoiEditorIndex(null)}
+          src={imagePreviewUrls[roiEditorIndex] || "/placeholder.svg"}
+          fileName={selectedFiles[roiEditorIndex].name}
+          roi={rois[roiEditorIndex] ?? null}
+          onSave={(roi) => {
+            onRoiChange(roiEditorIndex, roi)
+            setRoiEditorIndex(null)
+          }}
+        />
+      )}
     </div>
   )
 }
 
 const AnalyzeStep: React.FC<{
   loading: boolean
-}> = ({ loading }) => (
+  uploadItems: UploadItem[]
+  onCancelUpload: (index: number) => void
+  onCancelAllUploads: () => void
+}> = ({ loading, uploadItems, onCancelUpload, onCancelAllUploads }) => (
   <Card className="p-8 text-center">
     <Loader2 className="w-12 h-12 mx-auto mb-4 animate-spin text-blue-600" />
     <h3 className="text-xl font-medium text-slate-900 mb-2">Analizando Imágenes</h3>
-    <p className="text-slate-600">Procesando las imágenes seleccionadas...</p>
+    <p className="text-slate-600 mb-4">Procesando las imágenes seleccionadas...</p>
+    {uploadItems.length > 0 && (
+      <UploadProgressList
+        items={uploadItems}
+        running={loading}
+        onCancel={onCancelUpload}
+        onCancelAll={onCancelAllUploads}
+      />
+    )}
   </Card>
 )
 
 const ResultsStep: React.FC<{
   result: UploadResponse
   onOpenModal: (result: ImageResult) => void
-}> = ({ result, onOpenModal }) => (
+  // Área geodésica del polígono para contrastar con la superficie analizada
+  surveyedAreaM2?: number
+}> = ({ result, onOpenModal, surveyedAreaM2 }) => (
   <div className="space-y-4">
     <Card className="p-4 bg-blue-50 border border-blue-200">
       <h3 className="text-lg font-semibold text-slate-900 mb-2">Análisis Finalizado</h3>
@@ -414,7 +573,7 @@ const ResultsStep: React.FC<{
 
           <div className="h-24 rounded-lg overflow-hidden bg-slate-100">
             <img
-              src={`${REMOTE_BASE_URL}${image.image}` || "/placeholder.svg"}
+              src={resolveMediaUrl(image.image) || "/placeholder.svg"}
               alt={`Imagen ${image.id}`}
               className="w-full h-full object-cover"
             />
@@ -431,6 +590,32 @@ const ResultsStep: React.FC<{
             </div>
           </div>
 
+          {image.metadata?.resolution_m_per_px > 0 && (
+            <p className="text-xs text-slate-500 flex items-center">
+              <Ruler className="w-3 h-3 mr-1" />
+              {formatResolution(image.metadata.resolution_m_per_px)}
+            </p>
+          )}
+
+          {!!surveyedAreaM2 && (
+            <div className="text-xs text-slate-600 p-2 bg-slate-50 rounded-lg border border-slate-200">
+              <div className="flex justify-between">
+                <span>Agua + lirio</span>
+                <span className="font-medium">{formatAreaM2(image.water_area_m2 + image.vegetation_area_m2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Polígono medido</span>
+                <span className="font-medium">{formatAreaM2(surveyedAreaM2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Cobertura del polígono</span>
+                <span className="font-medium">
+                  {(((image.water_area_m2 + image.vegetation_area_m2) / surveyedAreaM2) * 100).toFixed(1)}%
+                </span>
+              </div>
+            </div>
+          )}
+
           <Button
             onClick={() => onOpenModal(image)}
             variant="outline"
@@ -466,6 +651,16 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
   const [ecosystemId, setEcosystemId] = useState<string | null>(null)
   const [descriptions, setDescriptions] = useState<string[]>([])
   const [captureDates, setCaptureDates] = useState<string[]>([])
+  const [resolutions, setResolutions] = useState<(number | null)[]>([])
+  const [rois, setRois] = useState<(RoiPolygon | null)[]>([])
+  const [photoMetadata, setPhotoMetadata] = useState<(PhotoMetadata | null)[]>([])
+  const [outsideAcknowledged, setOutsideAcknowledged] = useState(false)
+  const [compressionEnabled, setCompressionEnabled] = useState(false)
+  const [compressionOptions, setCompressionOptions] = useState(DEFAULT_COMPRESSION_OPTIONS)
+  const compression = useImageCompression(selectedFiles, compressionEnabled ? compressionOptions : null)
+  const uploadQueue = useUploadQueue()
+  const { online } = useOfflineQueue()
+  const duplicateCheck = useDuplicateDetection(selectedFiles, ecosystemId)
 
   const [ecosystems, setEcosystems] = useState<Ecosystem[]>([])
   const [filterValues, setFilterValues] = useState<FilterValues>({
@@ -473,10 +668,14 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
     contrast: 100,
     saturate: 100,
   })
+  // Este asistente sube las fotos sin ajustes de color, así que se segmentan tal cual
+  const [showSegmentation, setShowSegmentation] = useState(true)
+  const segmentation = useSegmentationPreview(selectedFiles, null, showSegmentation)
 
   const fileInputRef = useRef<HTMLInputElement>(null)
   const configureFileInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
+  const ecosystemsCacheVersion = useApiCacheVersion("ecosystems/")
 
   // Función segura para crear URLs de objeto
   const createObjectURL = (file: File): string => {
@@ -512,19 +711,26 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
     }
   }, [])
 
+  // Agrega archivos leyendo antes su EXIF/XMP para prellenar fecha y descripción
+  const appendFiles = useCallback(async (newFiles: File[]) => {
+    const metadata = await Promise.all(newFiles.map(readPhotoMetadata))
+    setPhotoMetadata((prev) => [...prev, ...metadata])
+    setSelectedFiles((prevFiles) => [...prevFiles, ...newFiles])
+    setOutsideAcknowledged(false)
+  }, [])
+
   // Función para manejar la selección de archivos
   const handleFileChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files.length > 0) {
-        const newFiles = Array.from(e.target.files)
-        setSelectedFiles((prevFiles) => [...prevFiles, ...newFiles])
+        appendFiles(Array.from(e.target.files))
         if (currentStep === "upload") {
           setCurrentStep("configure")
         }
         e.target.value = ""
       }
     },
-    [currentStep],
+    [currentStep, appendFiles],
   )
 
   // Función para manejar el drag & drop
@@ -533,14 +739,13 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
       e.preventDefault()
       setIsDragging(false)
       if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-        const newFiles = Array.from(e.dataTransfer.files)
-        setSelectedFiles((prevFiles) => [...prevFiles, ...newFiles])
+        appendFiles(Array.from(e.dataTransfer.files))
         if (currentStep === "upload") {
           setCurrentStep("configure")
         }
       }
     },
-    [currentStep],
+    [currentStep, appendFiles],
   )
 
   const handleUploadAreaClick = () => {
@@ -558,10 +763,14 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
       const newUrls = newFiles.map((file) => createObjectURL(file))
       setImagePreviewUrls((prevUrls) => [...prevUrls, ...newUrls])
 
-      const newDescriptions = Array(newFiles.length).fill("")
+      // Fecha y descripción sugeridas a partir del EXIF/XMP, si la foto lo trae
+      const newMetadata = photoMetadata.slice(imagePreviewUrls.length, selectedFiles.length)
+      const newDescriptions = newFiles.map((_, i) => (newMetadata[i] ? describePhotoMetadata(newMetadata[i].capture) : ""))
       setDescriptions((prev) => [...prev, ...newDescriptions])
-      const newDates = Array(newFiles.length).fill(getNowDatetimeLocal())
+      const newDates = newFiles.map((_, i) => newMetadata[i]?.captureDate || getNowDatetimeLocal())
       setCaptureDates((prev) => [...prev, ...newDates])
+      setResolutions((prev) => [...prev, ...Array(newFiles.length).fill(null)])
+      setRois((prev) => [...prev, ...Array(newFiles.length).fill(null)])
     } else if (selectedFiles.length < imagePreviewUrls.length) {
       // Revocar URLs que ya no se necesitan
       const urlsToRevoke = imagePreviewUrls.slice(selectedFiles.length)
@@ -570,8 +779,11 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
       setImagePreviewUrls((prev) => prev.slice(0, selectedFiles.length))
       setDescriptions((prev) => prev.slice(0, selectedFiles.length))
       setCaptureDates((prev) => prev.slice(0, selectedFiles.length))
+      setResolutions((prev) => prev.slice(0, selectedFiles.length))
+      setRois((prev) => prev.slice(0, selectedFiles.length))
+      setPhotoMetadata((prev) => prev.slice(0, selectedFiles.length))
     }
-  }, [selectedFiles, imagePreviewUrls.length])
+  }, [selectedFiles, imagePreviewUrls.length, photoMetadata])
 
   // Cleanup de URLs al desmontar
   useEffect(() => {
@@ -584,17 +796,14 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
   useEffect(() => {
     const fetchEcosystems = async () => {
       try {
-        const response = await fetch(`${REMOTE_BASE_URL}/api/monitoring/ecosystems/`)
-        if (response.ok) {
-          const data: Ecosystem[] = await response.json()
-          setEcosystems(data)
-        }
+        const data = await getEcosystems()
+        setEcosystems(data)
       } catch (error) {
         console.error("Error al cargar ecosistemas:", error)
       }
     }
     fetchEcosystems()
-  }, [])
+  }, [ecosystemsCacheVersion])
 
   // Efecto para inicializar con datos del polígono
   useEffect(() => {
@@ -618,6 +827,22 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
     }
   }, [polygonData, isOpen, currentStep, ecosystemName])
 
+  // Límite contra el que se comprueba el GPS: el ecosistema elegido o el polígono dibujado
+  const targetPolygons = useMemo((): LeafletPolygons | null => {
+    const ecosystem = ecosystems.find((e) => e.id.toString() === ecosystemId)
+    if (ecosystem?.location) return wktToLeafletPolygons(ecosystem.location)
+    if (polygonData?.location) return wktToLeafletPolygons(polygonData.location)
+    const features: Feature[] = polygonData?.geoJson?.features || []
+    const polygons = features.flatMap((feature) => (feature.geometry ? geometryToLeafletPolygons(feature.geometry) || [] : []))
+    return polygons.length > 0 ? polygons : null
+  }, [ecosystems, ecosystemId, polygonData])
+
+  const positionChecks = useMemo(
+    () => photoMetadata.map((metadata) => checkPhotoPosition(metadata?.capture, targetPolygons || [])),
+    [photoMetadata, targetPolygons],
+  )
+  const outsideCount = positionChecks.filter((check) => check.status === "outside").length
+
   const getImageFilterStyle = useCallback(() => {
     const { brightness, contrast, saturate } = filterValues
     return {
@@ -634,8 +859,19 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
     setSelectedFiles((prevFiles) => prevFiles.filter((_, index) => index !== indexToRemove))
     setDescriptions((prevDesc) => prevDesc.filter((_, index) => index !== indexToRemove))
     setCaptureDates((prevDates) => prevDates.filter((_, index) => index !== indexToRemove))
+    setResolutions((prev) => prev.filter((_, index) => index !== indexToRemove))
+    setRois((prev) => prev.filter((_, index) => index !== indexToRemove))
+    setPhotoMetadata((prev) => prev.filter((_, index) => index !== indexToRemove))
   }, [imagePreviewUrls])
 
+  // Quita de mayor a menor índice para que los restantes no se desplacen
+  const handleRemoveOutside = useCallback(() => {
+    positionChecks
+      .flatMap((check, index) => (check.status === "outside" ? [index] : []))
+      .reverse()
+      .forEach((index) => handleRemoveFile(index))
+  }, [positionChecks, handleRemoveFile])
+
   const handleDescriptionChange = useCallback((index: number, description: string) => {
     setDescriptions((prev) => prev.map((item, i) => (i === index ? description : item)))
   }, [])
@@ -644,6 +880,18 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
     setCaptureDates((prev) => prev.map((item, i) => (i === index ? date : item)))
   }, [])
 
+  const handleResolutionChange = useCallback((index: number, metersPerPixel: number | null) => {
+    setResolutions((prev) => prev.map((item, i) => (i === index ? metersPerPixel : item)))
+  }, [])
+
+  const handleResolutionApplyAll = useCallback((values: number[]) => {
+    setResolutions(values)
+  }, [])
+
+  const handleRoiChange = useCallback((index: number, roi: RoiPolygon | null) => {
+    setRois((prev) => prev.map((item, i) => (i === index ? roi : item)))
+  }, [])
+
   const handleReset = useCallback(() => {
     // Revocar todas las URLs
     imagePreviewUrls.forEach(url => revokeObjectURL(url))
@@ -652,12 +900,18 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
     setAnalysisResult(null)
     setDescriptions([])
     setCaptureDates([])
+    setResolutions([])
+    setRois([])
+    setPhotoMetadata([])
+    setOutsideAcknowledged(false)
     setEcosystemName("")
     setEcosystemId(null)
     setCurrentStep("upload")
     setFilterValues({ brightness: 100, contrast: 100, saturate: 100 })
+    setCompressionEnabled(false)
+    uploadQueue.reset()
     setImagePreviewUrls([])
-  }, [imagePreviewUrls])
+  }, [imagePreviewUrls, uploadQueue.reset])
 
   const validateForm = () => {
     if (selectedFiles.length === 0) {
@@ -670,6 +924,26 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
     if (ecosystemId === "new" && !polygonData) {
       return "Debes dibujar un polígono en el mapa para crear un nuevo ecosistema."
     }
+    // Más de 10 m/px ya no distingue manchas de lirio: casi seguro es un error de unidades
+    const invalidResolution = resolutions.findIndex((value) => value !== null && !(value > 0 && value <= 10))
+    if (invalidResolution !== -1) {
+      return `La resolución de la imagen ${invalidResolution + 1} debe estar entre 0 y 10 m/px.`
+    }
+    if (outsideCount > 0 && !outsideAcknowledged) {
+      return `${outsideCount} imagen(es) se tomaron fuera del ecosistema. Quítalas o confirma que son correctas.`
+    }
+    if (compressionEnabled) {
+      if (compression.processing) {
+        return "Espera a que terminen de comprimirse las imágenes."
+      }
+      // Sin resolución propia el servidor usaría la de la imagen original y las áreas saldrían menores
+      const unscaled = compression.results.findIndex(
+        (result, index) => result && result.scale > 1 && resolutions[index] === null,
+      )
+      if (unscaled !== -1) {
+        return `Indica la resolución en terreno de la imagen ${unscaled + 1}: al reducirla hay que ajustar su escala.`
+      }
+    }
     return null
   }
 
@@ -688,82 +962,66 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
     setCurrentStep("analyze")
 
     try {
-      const formData = new FormData()
-
       // Si es un ecosistema existente, solo enviar el ID
-      if (polygonData?.ecosystemId && polygonData.ecosystemId !== "new") {
-        formData.append("ecosystem_id", polygonData.ecosystemId)
-      } else if (ecosystemId && ecosystemId !== "new") {
-        formData.append("ecosystem_id", ecosystemId)
-      } else {
-        // Solo para ecosistemas nuevos
-        formData.append("ecosystem_name", ecosystemName.trim())
-      }
+      const targetEcosystemId =
+        polygonData?.ecosystemId && polygonData.ecosystemId !== "new" ? polygonData.ecosystemId : ecosystemId
 
+      // Para ecosistemas nuevos se envían también las coordenadas y el WKT del polígono
+      let coordinates: number[][] | undefined
       if (ecosystemId === "new" && polygonData) {
-        // Enviar coordenadas en formato simple
         if (polygonData.coordinates) {
-          const simpleCoords = polygonData.coordinates[0]
-          formData.append("coordinates", JSON.stringify(simpleCoords))
-          console.log("Enviando coordenadas procesadas:", simpleCoords)
+          coordinates = polygonData.coordinates[0]
+          console.log("Enviando coordenadas procesadas:", coordinates)
         } else if (polygonData.geoJson) {
-          const simpleCoords = extractSimpleCoordinates(polygonData.geoJson)
-          if (simpleCoords.length > 0) {
-            formData.append("coordinates", JSON.stringify(simpleCoords))
-            console.log("Enviando coordenadas extraídas del GeoJSON:", simpleCoords)
-          }
+          coordinates = extractSimpleCoordinates(polygonData.geoJson)
+          console.log("Enviando coordenadas extraídas del GeoJSON:", coordinates)
         }
-
-        // También enviar el WKT para ecosistemas nuevos
-        if (polygonData.location) {
-          formData.append("location", polygonData.location)
-        }
-
-        formData.append("polygon_name", polygonData.locationName)
       }
-
-      // Agregar imágenes
-      selectedFiles.forEach((file) => {
-        formData.append("images", file)
-      })
-
-      // Fechas y descripciones
-      captureDates.forEach((date) => {
-        const normalizedDate = date ? `${date}:00Z` : `${getNowDatetimeLocal()}:00Z`
-        formData.append("capture_dates", normalizedDate)
-      })
-
-      descriptions.forEach((desc) => {
-        formData.append("descriptions", desc || "")
-      })
+      const isNewWithPolygon = ecosystemId === "new" && !!polygonData
 
       console.log("Enviando datos al servidor...")
       console.log("Tipo de análisis:", ecosystemId === "new" ? "Nuevo ecosistema" : "Ecosistema existente")
 
-      const response = await fetch(`${REMOTE_BASE_URL}/api/monitoring/images/upload-multiple/`, {
-        method: "POST",
-        body: formData,
-      })
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error("Error del servidor:", errorText)
-        throw new Error(`Error del servidor: ${response.status} - ${errorText}`)
+      // Cada foto se recorta a su zona de análisis: el servidor analiza la imagen que recibe
+      const upload = await cropUploadToRois(
+        prepareCompressedUpload(
+          selectedFiles,
+          compression.results,
+          resolutions,
+          photoMetadata.map((metadata) => metadata?.capture ?? null),
+        ),
+        rois,
+      )
+
+      const payload: UploadMultiplePayload = {
+        ecosystemId: targetEcosystemId,
+        ecosystemName,
+        images: upload.images,
+        captureDates: captureDates.map((date) => (date ? `${date}:00Z` : `${getNowDatetimeLocal()}:00Z`)),
+        descriptions,
+        resolutionsMPerPx: upload.resolutionsMPerPx,
+        captureMetadata: upload.captureMetadata,
+        rois: upload.rois,
+        perceptualHashes: duplicateCheck.hashes,
+        coordinates,
+        location: isNewWithPolygon ? polygonData.location : undefined,
+        polygonName: isNewWithPolygon ? polygonData.locationName : undefined,
+        areaM2: polygonData?.areaM2,
+        perimeterM: polygonData?.perimeterM,
       }
 
-      const result: UploadResponse = await response.json()
-      setAnalysisResult(result)
-      setCurrentStep("results")
-
-      toast({
-        title: "Análisis Completado",
-        description:
-          ecosystemId === "new"
-            ? "Las imágenes se analizaron con éxito y el nuevo ecosistema fue creado."
-            : "Las imágenes se analizaron con éxito en el ecosistema existente.",
-      })
+      // Sin red el lote se guarda en el dispositivo y se envía solo al volver la conexión
+      if (isOffline()) {
+        await enqueueUpload(payload)
+        toast({
+          title: "Sin conexión",
+          description: "El lote se guardó en este dispositivo y se enviará automáticamente al recuperar la conexión.",
+        })
+        handleReset()
+        return
+      }
 
-      console.log("✅ Análisis completado exitosamente")
+      await handleUploadResult(await uploadQueue.run(payload))
     } catch (error) {
       console.error("ERROR en el análisis:", error)
       toast({
@@ -777,6 +1035,66 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
     }
   }
 
+  // Resultados parciales: las imágenes que fallaron se listan para reintentarlas
+  const handleUploadResult = async ({ response, failed, rejected, cancelled }: UploadBatchResult) => {
+    if (!response && failed === 0) {
+      toast({ title: "Subida cancelada", description: "No se envió ninguna imagen." })
+      setCurrentStep("configure")
+      return
+    }
+
+    setAnalysisResult(response)
+    setCurrentStep("results")
+
+    // Si la conexión se cayó a media subida, lo pendiente pasa a la cola sin conexión
+    const queued = failed > rejected && isOffline() ? await uploadQueue.queueFailed() : 0
+    if (queued > 0) {
+      toast({
+        title: "Sin conexión",
+        description: `${queued} imagen(es) quedaron guardadas y se enviarán al recuperar la conexión.`,
+      })
+      return
+    }
+    if (failed > 0 || cancelled > 0) {
+      toast({
+        title: response ? "Análisis incompleto" : "Error de Análisis",
+        description:
+          rejected > 0
+            ? `${failed + cancelled} imagen(es) no se pudieron subir; el servidor rechazó ${rejected}. Revisa el motivo en los resultados.`
+            : `${failed + cancelled} imagen(es) no se pudieron subir. Puedes reintentarlas desde los resultados.`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: "Análisis Completado",
+      description:
+        ecosystemId === "new"
+          ? "Las imágenes se analizaron con éxito y el nuevo ecosistema fue creado."
+          : "Las imágenes se analizaron con éxito en el ecosistema existente.",
+    })
+    console.log("✅ Análisis completado exitosamente")
+  }
+
+  const handleRetryFailed = async () => {
+    setLoading(true)
+    setCurrentStep("analyze")
+    try {
+      await handleUploadResult(await uploadQueue.retryFailed())
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleQueueFailed = async () => {
+    const queued = await uploadQueue.queueFailed()
+    toast({
+      title: "Guardadas para después",
+      description: `${queued} imagen(es) se enviarán automáticamente; puedes verlas en el encabezado.`,
+    })
+  }
+
   const steps = [
     { id: "upload", label: "Subir", icon: Upload },
     { id: "configure", label: "Configurar", icon: FileText },
@@ -854,6 +1172,13 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
                 captureDates={captureDates}
                 onDescriptionChange={handleDescriptionChange}
                 onDateChange={handleDateChange}
+                resolutions={resolutions}
+                photoMetadata={photoMetadata}
+                positionChecks={positionChecks}
+                onResolutionChange={handleResolutionChange}
+                onResolutionApplyAll={handleResolutionApplyAll}
+                rois={rois}
+                onRoiChange={handleRoiChange}
                 ecosystemName={ecosystemName}
                 setEcosystemName={setEcosystemName}
                 ecosystemId={ecosystemId}
@@ -863,7 +1188,44 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
                 onFileChange={handleFileChange}
                 ecosystems={ecosystems}
                 polygonData={polygonData}
+                segmentationPreviews={segmentation.previews}
+                segmentationProcessing={segmentation.processing}
+                showSegmentation={showSegmentation}
+                onShowSegmentationChange={setShowSegmentation}
               />
+              <div className="mt-4">
+                <PhotoPositionsPanel
+                  fileNames={selectedFiles.map((file) => file.name)}
+                  photoMetadata={photoMetadata}
+                  checks={positionChecks}
+                  polygons={targetPolygons}
+                  acknowledged={outsideAcknowledged}
+                  onAcknowledgedChange={setOutsideAcknowledged}
+                  onRemoveOutside={handleRemoveOutside}
+                />
+              </div>
+              <div className="mt-4">
+                <DuplicatesPanel
+                  files={selectedFiles}
+                  previewUrls={imagePreviewUrls}
+                  duplicates={duplicateCheck.duplicates}
+                  checking={duplicateCheck.checking}
+                  uncheckedHistory={duplicateCheck.uncheckedHistory}
+                  historyFailed={duplicateCheck.historyFailed}
+                  onSkip={handleRemoveFile}
+                />
+              </div>
+              <div className="mt-4">
+                <CompressionPanel
+                  enabled={compressionEnabled}
+                  onEnabledChange={setCompressionEnabled}
+                  options={compressionOptions}
+                  onOptionsChange={setCompressionOptions}
+                  files={selectedFiles}
+                  results={compression.results}
+                  processing={compression.processing}
+                />
+              </div>
               <Input
                 type="file"
                 ref={configureFileInputRef}
@@ -875,12 +1237,31 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
             </>
           )}
 
-          {currentStep === "analyze" && <AnalyzeStep loading={loading} />}
+          {currentStep === "analyze" && (
+            <AnalyzeStep
+              loading={loading}
+              uploadItems={uploadQueue.items}
+              onCancelUpload={uploadQueue.cancel}
+              onCancelAllUploads={uploadQueue.cancelAll}
+            />
+          )}
+
+          {currentStep === "results" && uploadQueue.items.some((item) => item.status !== "done") && (
+            <Card className="p-4 mb-4 border border-slate-200">
+              <UploadProgressList
+                items={uploadQueue.items}
+                running={uploadQueue.running}
+                onRetryFailed={handleRetryFailed}
+                onQueueFailed={handleQueueFailed}
+              />
+            </Card>
+          )}
 
           {currentStep === "results" && analysisResult && (
             <ResultsStep
               result={analysisResult}
               onOpenModal={() => {}} // Puedes implementar esto si necesitas
+              surveyedAreaM2={polygonData?.areaM2}
             />
           )}
         </div>
@@ -907,7 +1288,13 @@ export const PhotoAnalyzerModal: React.FC<PhotoAnalyzerModalProps> = ({
                 }
                 className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
               >
-                {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : "Iniciar Análisis"}
+                {loading ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : online ? (
+                  "Iniciar Análisis"
+                ) : (
+                  "Guardar para enviar después"
+                )}
               </Button>
             </div>
           )}
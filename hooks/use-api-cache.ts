@@ -0,0 +1,24 @@
+import * as React from "react"
+import { subscribeToCache } from "@/lib/api"
+
+/**
+ * Contador que aumenta cada vez que se invalidan entradas de la caché de la
+ * API con alguno de los prefijos dados, o cuando una revalidación en segundo
+ * plano trae datos distintos. Usarlo como dependencia de un efecto hace que
+ * la vista vuelva a pedir sus datos.
+ */
+export function useApiCacheVersion(...prefixes: string[]) {
+  const [version, setVersion] = React.useState(0)
+  const prefixKey = prefixes.join("|")
+
+  React.useEffect(() => {
+    const watched = prefixKey.split("|")
+    return subscribeToCache((key) => {
+      if (watched.some((prefix) => key.startsWith(prefix))) {
+        setVersion((current) => current + 1)
+      }
+    })
+  }, [prefixKey])
+
+  return version
+}
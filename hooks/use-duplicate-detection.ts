@@ -0,0 +1,120 @@
+import * as React from "react"
+import { getImagesPage, isAbortError, resolveMediaUrl, type ImageResult } from "@/lib/api"
+import { computePerceptualHash, computeRemoteHash, findDuplicates } from "@/lib/image-hash"
+
+const HISTORY_PAGE_SIZE = 100
+// Capturas sin hash ni miniatura cuya foto completa se descarga para compararla, como mucho
+const MAX_FULL_IMAGE_CHECKS = 20
+
+// Hash de una captura ya subida: el que guardó el servidor, el de su miniatura o, mientras
+// quede cupo, el de la foto completa. `computeRemoteHash` guarda el resultado por URL.
+const historicalHash = async (image: ImageResult, allowFullImage: boolean) => {
+  if (image.phash) return image.phash
+  if (image.thumbnail) return computeRemoteHash(resolveMediaUrl(image.thumbnail))
+  return allowFullImage && image.image ? computeRemoteHash(resolveMediaUrl(image.image)) : null
+}
+
+/**
+ * Calcula el hash perceptual de las fotos seleccionadas y lo compara con el
+ * de todas las capturas del ecosistema (`null` o "new": solo dentro del
+ * lote). Devuelve las fotos que parecen duplicadas, los hashes del lote
+ * (alineados con `files`, para enviarlos con la subida) y cuántas capturas
+ * del historial no se pudieron comparar, para avisar de que la revisión es parcial.
+ */
+export function useDuplicateDetection(files: File[], ecosystemId: number | string | null) {
+  const fileHashes = React.useRef(new WeakMap<File, string | null>())
+  // Los hashes viven en un ref; la versión avisa a `useMemo` de que hay nuevos
+  const [fileHashVersion, setFileHashVersion] = React.useState(0)
+  const [historicalHashes, setHistoricalHashes] = React.useState<{ image: ImageResult; hash: string }[]>([])
+  const [checkingFiles, setCheckingFiles] = React.useState(false)
+  const [checkingHistory, setCheckingHistory] = React.useState(false)
+  const [uncheckedHistory, setUncheckedHistory] = React.useState(0)
+  const [historyFailed, setHistoryFailed] = React.useState(false)
+
+  React.useEffect(() => {
+    const pending = files.filter((file) => !fileHashes.current.has(file))
+    if (pending.length === 0) return
+
+    let cancelled = false
+    setCheckingFiles(true)
+    const run = async () => {
+      for (const file of pending) {
+        if (cancelled) return
+        let hash: string | null = null
+        try {
+          hash = await computePerceptualHash(file)
+        } catch (error) {
+          console.warn(`No se pudo calcular el hash de ${file.name}:`, error)
+        }
+        fileHashes.current.set(file, hash)
+        setFileHashVersion((current) => current + 1)
+      }
+      if (!cancelled) setCheckingFiles(false)
+    }
+    run()
+
+    return () => {
+      cancelled = true
+      setCheckingFiles(false)
+    }
+  }, [files])
+
+  // Solo hace falta recorrer el historial si hay fotos que comparar
+  const hasFiles = files.length > 0
+  const ecosystem = ecosystemId && ecosystemId !== "new" ? ecosystemId : null
+  React.useEffect(() => {
+    setUncheckedHistory(0)
+    setHistoryFailed(false)
+    if (!hasFiles || ecosystem === null) {
+      setHistoricalHashes([])
+      return
+    }
+
+    const controller = new AbortController()
+    setCheckingHistory(true)
+    const run = async () => {
+      const hashes: { image: ImageResult; hash: string }[] = []
+      let fullImageChecks = 0
+      let unchecked = 0
+      for (let page = 1; ; page++) {
+        const { results, hasMore } = await getImagesPage(
+          { ecosystem, page, pageSize: HISTORY_PAGE_SIZE },
+          { signal: controller.signal },
+        )
+        // Una a una: cada descarga se decodifica en memoria
+        for (const image of results) {
+          const allowFullImage = fullImageChecks < MAX_FULL_IMAGE_CHECKS
+          if (!image.phash && !image.thumbnail && allowFullImage) fullImageChecks++
+          const hash = await historicalHash(image, allowFullImage)
+          if (controller.signal.aborted) return
+          if (hash) hashes.push({ image, hash })
+          else unchecked++
+        }
+        if (!hasMore) break
+      }
+      setHistoricalHashes(hashes)
+      setUncheckedHistory(unchecked)
+      setCheckingHistory(false)
+    }
+    run().catch((error) => {
+      if (isAbortError(error)) return
+      console.warn("No se pudo revisar el historial del ecosistema en busca de duplicados:", error)
+      setHistoricalHashes([])
+      setHistoryFailed(true)
+      setCheckingHistory(false)
+    })
+
+    return () => {
+      controller.abort()
+      setCheckingHistory(false)
+    }
+  }, [hasFiles, ecosystem])
+
+  const hashes = React.useMemo(
+    () => files.map((file) => fileHashes.current.get(file) ?? null),
+    [files, fileHashVersion],
+  )
+  const duplicates = React.useMemo(() => findDuplicates(hashes, historicalHashes), [hashes, historicalHashes])
+
+  return { duplicates, hashes, checking: checkingFiles || checkingHistory, uncheckedHistory, historyFailed }
+}
@@ -0,0 +1,59 @@
+import * as React from "react"
+import { compressImage, type CompressedImage, type CompressionOptions } from "@/lib/image-compression"
+
+/**
+ * Comprime en segundo plano, una por una, las imágenes seleccionadas con las
+ * opciones dadas (`null` desactiva la compresión). Devuelve el resultado
+ * alineado con `files`: `null` mientras la imagen sigue en proceso.
+ */
+export function useImageCompression(files: File[], options: CompressionOptions | null) {
+  const optionsKey = options ? `${options.maxDimensionPx}|${options.quality}` : ""
+  const cache = React.useRef<{ key: string; results: Map<File, CompressedImage> }>({ key: "", results: new Map() })
+  const [, setVersion] = React.useState(0)
+  const [processing, setProcessing] = React.useState(false)
+
+  React.useEffect(() => {
+    // Las opciones cambiaron: los resultados anteriores ya no sirven
+    if (cache.current.key !== optionsKey) {
+      cache.current = { key: optionsKey, results: new Map() }
+      setVersion((current) => current + 1)
+    }
+    if (!optionsKey) {
+      setProcessing(false)
+      return
+    }
+    const [maxDimensionPx, quality] = optionsKey.split("|").map(Number)
+    const { results } = cache.current
+    const pending = files.filter((file) => !results.has(file))
+    setProcessing(pending.length > 0)
+    if (pending.length === 0) return
+
+    let cancelled = false
+    const run = async () => {
+      // Secuencial: decodificar varias fotos de 20 MB a la vez agota la memoria en móviles
+      for (const file of pending) {
+        let result: CompressedImage
+        try {
+          result = await compressImage(file, { maxDimensionPx, quality })
+        } catch (error) {
+          console.warn(`No se pudo comprimir ${file.name}, se enviará la original:`, error)
+          result = { file, originalSize: file.size, scale: 1, width: 0, height: 0 }
+        }
+        if (cancelled) return
+        results.set(file, result)
+        setVersion((current) => current + 1)
+      }
+      setProcessing(false)
+    }
+    run()
+
+    return () => {
+      cancelled = true
+    }
+  }, [files, optionsKey])
+
+  // Hasta que el efecto reinicie la caché, los resultados de otras opciones no se devuelven
+  const current = cache.current.key === optionsKey ? cache.current.results : null
+  const results = files.map((file) => current?.get(file) ?? null)
+  return { results, processing }
+}
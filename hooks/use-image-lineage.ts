@@ -0,0 +1,65 @@
+import * as React from "react"
+import { getImages, type ImageResult } from "@/lib/api"
+import { buildLineage, hasMissingVersions, trendVersionId } from "@/lib/image-lineage"
+import { setTrendChoice } from "@/lib/trend-versions"
+import { useTrendChoices } from "@/hooks/use-trend-choices"
+
+const NO_IMAGES: ImageResult[] = []
+
+// Combina listas de capturas; ante ids repetidos gana la última
+const mergeImages = (...lists: ImageResult[][]) => [
+  ...new Map(lists.flat().map((image) => [image.id, image])).values(),
+]
+
+/**
+ * Árbol de versiones de una captura a partir de las capturas ya cargadas.
+ * Si faltan versiones, descarga (con caché) todas las del ecosistema.
+ */
+export function useImageLineage(image: ImageResult | null, knownImages: ImageResult[]) {
+  const [ecosystemImages, setEcosystemImages] = React.useState<{ ecosystem: number; images: ImageResult[] } | null>(
+    null,
+  )
+  const [loading, setLoading] = React.useState(false)
+  const trendChoices = useTrendChoices()
+
+  const ecosystem = image?.ecosystem ?? null
+  const fetched = ecosystemImages?.ecosystem === ecosystem ? ecosystemImages.images : NO_IMAGES
+
+  const versions = React.useMemo(
+    () => (image ? buildLineage(image, mergeImages(knownImages, fetched)) : []),
+    [image, knownImages, fetched],
+  )
+  const missing = hasMissingVersions(versions)
+
+  React.useEffect(() => {
+    if (ecosystem === null || !missing || ecosystemImages?.ecosystem === ecosystem) return
+
+    const controller = new AbortController()
+    setLoading(true)
+    getImages({ ecosystem }, { signal: controller.signal })
+      .then((images) => setEcosystemImages({ ecosystem, images }))
+      .catch((fetchError) => {
+        if (controller.signal.aborted) return
+        console.error("Error al cargar las versiones de la captura:", fetchError)
+        // Se marca como cargado para no reintentar en bucle; se muestra lo que haya
+        setEcosystemImages({ ecosystem, images: [] })
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [ecosystem, missing, ecosystemImages])
+
+  const rootId = versions.length > 0 ? versions[0].image.id : null
+  const chooseTrendVersion = React.useCallback(
+    (imageId: number) => {
+      if (rootId !== null) setTrendChoice(rootId, imageId)
+    },
+    [rootId],
+  )
+
+  const trendId =
+    rootId !== null ? trendVersionId(versions.map((version) => version.image), rootId, trendChoices) : null
+  return { versions, trendId, loading, chooseTrendVersion }
+}
@@ -0,0 +1,29 @@
+import * as React from "react"
+import { getOfflineQueueState, startOfflineSync, subscribeToOfflineQueue } from "@/lib/api"
+
+/**
+ * Lotes guardados sin conexión y si se están enviando. Montarlo arranca la
+ * sincronización automática (una sola vez por página).
+ */
+export function useOfflineQueue() {
+  const [state, setState] = React.useState(getOfflineQueueState)
+  const [online, setOnline] = React.useState(true)
+
+  React.useEffect(() => {
+    const unsubscribe = subscribeToOfflineQueue(setState)
+    startOfflineSync()
+    setState(getOfflineQueueState())
+
+    const updateOnline = () => setOnline(navigator.onLine)
+    updateOnline()
+    window.addEventListener("online", updateOnline)
+    window.addEventListener("offline", updateOnline)
+    return () => {
+      unsubscribe()
+      window.removeEventListener("online", updateOnline)
+      window.removeEventListener("offline", updateOnline)
+    }
+  }, [])
+
+  return { ...state, online }
+}
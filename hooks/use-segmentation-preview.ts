@@ -0,0 +1,82 @@
+import * as React from "react"
+import type { ImageAdjustments } from "@/lib/api"
+import { previewSegmentation, type SegmentationPreview } from "@/lib/segmentation"
+
+// Espera a que el usuario suelte los controles de ajuste antes de volver a segmentar
+const ADJUSTMENTS_DEBOUNCE_MS = 400
+
+/**
+ * Segmenta en segundo plano, una por una, las imágenes seleccionadas con los
+ * ajustes de color que se van a enviar (`enabled` en falso no calcula nada).
+ * Devuelve la vista previa alineada con `files`: `null` mientras la imagen
+ * sigue en proceso o si no se pudo segmentar.
+ */
+export function useSegmentationPreview(files: File[], adjustments: ImageAdjustments | null, enabled: boolean) {
+  const liveKey = adjustments ? `${adjustments.brightness}|${adjustments.contrast}|${adjustments.saturate}` : ""
+  const [adjustmentsKey, setAdjustmentsKey] = React.useState(liveKey)
+  const cache = React.useRef(new Map<File, { key: string; preview: SegmentationPreview | null }>())
+  const [, setVersion] = React.useState(0)
+  const [processing, setProcessing] = React.useState(false)
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setAdjustmentsKey(liveKey), ADJUSTMENTS_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [liveKey])
+
+  React.useEffect(() => {
+    // Libera las capas de fotos que ya no están en la selección
+    cache.current.forEach((entry, file) => {
+      if (files.includes(file)) return
+      if (entry.preview) URL.revokeObjectURL(entry.preview.overlayUrl)
+      cache.current.delete(file)
+    })
+
+    if (!enabled) {
+      setProcessing(false)
+      return
+    }
+    const [brightness, contrast, saturate] = adjustmentsKey ? adjustmentsKey.split("|").map(Number) : []
+    const pendingAdjustments = adjustmentsKey ? { brightness, contrast, saturate } : null
+    const pending = files.filter((file) => cache.current.get(file)?.key !== adjustmentsKey)
+    setProcessing(pending.length > 0)
+    if (pending.length === 0) return
+
+    let cancelled = false
+    const run = async () => {
+      for (const file of pending) {
+        let preview: SegmentationPreview | null = null
+        try {
+          preview = await previewSegmentation(file, pendingAdjustments)
+        } catch (error) {
+          console.warn(`No se pudo segmentar ${file.name}:`, error)
+        }
+        if (cancelled) {
+          if (preview) URL.revokeObjectURL(preview.overlayUrl)
+          return
+        }
+        const previous = cache.current.get(file)?.preview
+        if (previous) URL.revokeObjectURL(previous.overlayUrl)
+        cache.current.set(file, { key: adjustmentsKey, preview })
+        setVersion((current) => current + 1)
+      }
+      setProcessing(false)
+    }
+    run()
+
+    return () => {
+      cancelled = true
+    }
+  }, [files, adjustmentsKey, enabled])
+
+  React.useEffect(() => {
+    const previews = cache.current
+    return () => {
+      previews.forEach((entry) => entry.preview && URL.revokeObjectURL(entry.preview.overlayUrl))
+      previews.clear()
+    }
+  }, [])
+
+  // Mientras se recalcula tras cambiar los ajustes se sigue mostrando la capa anterior
+  const previews = enabled ? files.map((file) => cache.current.get(file)?.preview ?? null) : files.map(() => null)
+  return { previews, processing }
+}
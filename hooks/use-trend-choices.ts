@@ -0,0 +1,9 @@
+import * as React from "react"
+import { getTrendChoices, subscribeToTrendChoices, type TrendChoices } from "@/lib/trend-versions"
+
+const NO_CHOICES: TrendChoices = {}
+
+// Versiones elegidas para las tendencias; la vista se vuelve a dibujar cuando cambian
+export function useTrendChoices() {
+  return React.useSyncExternalStore(subscribeToTrendChoices, getTrendChoices, () => NO_CHOICES)
+}
@@ -0,0 +1,123 @@
+import * as React from "react"
+import {
+  createUploadItem,
+  enqueueUpload,
+  pickUploadItems,
+  runUploadBatch,
+  withCreatedEcosystem,
+  type UploadBatchResult,
+  type UploadItem,
+  type UploadMultiplePayload,
+  type UploadResponse,
+} from "@/lib/api"
+
+/**
+ * Estado de una subida imagen por imagen: avance, cancelación individual o
+ * total y reintento de las que fallaron. En el resultado de `run` y
+ * `retryFailed`, `response` combina todas las imágenes analizadas hasta el
+ * momento; `failed` y `cancelled` cuentan solo las de esa ronda.
+ */
+export function useUploadQueue() {
+  const [items, setItems] = React.useState<UploadItem[]>([])
+  const [running, setRunning] = React.useState(false)
+  // Copia síncrona del estado: las acciones encadenadas tras un `await` necesitan el valor actual
+  const itemsRef = React.useRef<UploadItem[]>([])
+  const controllers = React.useRef<AbortController[]>([])
+  const lastPayload = React.useRef<UploadMultiplePayload | null>(null)
+  const lastResponse = React.useRef<UploadResponse | null>(null)
+
+  const commitItems = React.useCallback((update: (prev: UploadItem[]) => UploadItem[]) => {
+    itemsRef.current = update(itemsRef.current)
+    setItems(itemsRef.current)
+  }, [])
+
+  const updateItem = React.useCallback(
+    (index: number, patch: Partial<UploadItem>) =>
+      commitItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...patch } : item))),
+    [commitItems],
+  )
+
+  const runIndices = React.useCallback(
+    async (payload: UploadMultiplePayload, indices: number[]): Promise<UploadBatchResult> => {
+      indices.forEach((index) => {
+        controllers.current[index] = new AbortController()
+      })
+      setRunning(true)
+      try {
+        const { response, failed, rejected, cancelled } = await runUploadBatch(payload, indices, {
+          signalFor: (index) => controllers.current[index]?.signal,
+          onItemChange: updateItem,
+        })
+        if (response) {
+          // Los reintentos deben ir al ecosistema ya creado
+          lastPayload.current = withCreatedEcosystem(payload, response.ecosystem_id)
+          const previous = lastResponse.current
+          lastResponse.current = previous
+            ? {
+                ...previous,
+                message: response.message,
+                images: [...previous.images, ...response.images],
+              }
+            : response
+        }
+        return { response: lastResponse.current, failed, rejected, cancelled }
+      } finally {
+        setRunning(false)
+      }
+    },
+    [updateItem],
+  )
+
+  const run = React.useCallback(
+    (payload: UploadMultiplePayload) => {
+      lastPayload.current = payload
+      lastResponse.current = null
+      controllers.current = []
+      commitItems(() => payload.images.map((file) => createUploadItem(file.name)))
+      return runIndices(payload, payload.images.map((_, index) => index))
+    },
+    [commitItems, runIndices],
+  )
+
+  // Las que el servidor rechazó (4xx) fallarían igual: no se reintentan ni se guardan en la cola
+  const unfinishedIndices = () =>
+    itemsRef.current.flatMap((item, index) =>
+      (item.status === "failed" && item.retryable) || item.status === "cancelled" ? [index] : [],
+    )
+
+  const retryFailed = React.useCallback(async () => {
+    const payload = lastPayload.current
+    const indices = unfinishedIndices()
+    if (!payload || indices.length === 0) {
+      return { response: lastResponse.current, failed: 0, rejected: 0, cancelled: 0 }
+    }
+    commitItems((prev) => prev.map((item, index) => (indices.includes(index) ? createUploadItem(item.fileName) : item)))
+    return runIndices(payload, indices)
+  }, [commitItems, runIndices])
+
+  // Guarda en la cola sin conexión las imágenes que no se pudieron subir
+  const queueFailed = React.useCallback(async () => {
+    const payload = lastPayload.current
+    const indices = unfinishedIndices()
+    if (!payload || indices.length === 0) return 0
+    await enqueueUpload(pickUploadItems(payload, indices))
+    commitItems((prev) =>
+      prev.map((item, index) => (indices.includes(index) ? { ...item, status: "queued", error: null } : item)),
+    )
+    return indices.length
+  }, [commitItems])
+
+  const cancel = React.useCallback((index: number) => controllers.current[index]?.abort(), [])
+
+  const cancelAll = React.useCallback(() => controllers.current.forEach((controller) => controller?.abort()), [])
+
+  const reset = React.useCallback(() => {
+    controllers.current.forEach((controller) => controller?.abort())
+    controllers.current = []
+    lastPayload.current = null
+    lastResponse.current = null
+    commitItems(() => [])
+  }, [commitItems])
+
+  return { items, running, run, retryFailed, queueFailed, cancel, cancelAll, reset }
+}
@@ -0,0 +1,123 @@
+// ------------------------------ //
+// CACHÉ DE PETICIONES (STALE-WHILE-REVALIDATE)
+// ------------------------------ //
+
+// Tiempo durante el cual una respuesta se considera fresca
+export const CACHE_MAX_AGE_MS = 60_000
+
+interface CacheEntry {
+  data?: unknown
+  updatedAt: number
+  // Marcada tras una invalidación explícita: sus datos ya no son válidos
+  invalidated: boolean
+  // Aumenta en cada invalidación para descartar respuestas en curso ya obsoletas
+  generation: number
+  promise?: Promise<unknown>
+  fetcher: () => Promise<unknown>
+}
+
+type CacheListener = (key: string) => void
+
+const entries = new Map<string, CacheEntry>()
+const listeners = new Set<CacheListener>()
+
+const notify = (key: string) => listeners.forEach((listener) => listener(key))
+
+// Las respuestas se comparten entre todos los llamadores: se congelan para que nadie las modifique por error
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === "object" && !Object.isFrozen(value)) {
+    Object.freeze(value)
+    Object.values(value).forEach(deepFreeze)
+  }
+  return value
+}
+
+const revalidate = (key: string, entry: CacheEntry): Promise<unknown> => {
+  if (entry.promise) return entry.promise
+
+  const generation = entry.generation
+  const promise = entry
+    .fetcher()
+    .then((data) => {
+      deepFreeze(data)
+      if (entry.generation === generation) {
+        // Revalidación en segundo plano: solo si los datos cambiaron hace falta que se vuelvan a leer
+        const changed =
+          entry.data !== undefined && !entry.invalidated && JSON.stringify(entry.data) !== JSON.stringify(data)
+        entry.data = data
+        entry.updatedAt = Date.now()
+        entry.invalidated = false
+        if (changed) notify(key)
+      }
+      return data
+    })
+    .finally(() => {
+      if (entry.promise === promise) entry.promise = undefined
+    })
+
+  entry.promise = promise
+  return promise
+}
+
+// Permite que cada llamador cancele su espera sin abortar la petición compartida
+const withSignal = <T>(promise: Promise<T>, signal?: AbortSignal | null): Promise<T> => {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(new DOMException("Aborted", "AbortError"))
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException("Aborted", "AbortError"))
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort))
+  })
+}
+
+/**
+ * Devuelve la respuesta cacheada para `key`. Si está vencida se entrega igual
+ * y se revalida en segundo plano (avisando a los suscriptores si cambió);
+ * si fue invalidada se espera la nueva. Las peticiones simultáneas a la
+ * misma clave comparten una sola llamada. La respuesta está congelada.
+ */
+export const cachedFetch = <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  signal?: AbortSignal | null,
+  maxAge = CACHE_MAX_AGE_MS,
+): Promise<T> => {
+  let entry = entries.get(key)
+  if (!entry) {
+    entry = { updatedAt: 0, invalidated: false, generation: 0, fetcher }
+    entries.set(key, entry)
+  }
+  entry.fetcher = fetcher
+
+  if (entry.data !== undefined && !entry.invalidated) {
+    if (Date.now() - entry.updatedAt > maxAge) {
+      revalidate(key, entry).catch(() => {})
+    }
+    return Promise.resolve(entry.data as T)
+  }
+
+  return withSignal(revalidate(key, entry) as Promise<T>, signal)
+}
+
+/**
+ * Invalida todas las entradas cuya clave empieza por alguno de los prefijos
+ * y avisa a los suscriptores para que vuelvan a pedir los datos.
+ */
+export const invalidateCache = (...prefixes: string[]) => {
+  entries.forEach((entry, key) => {
+    if (prefixes.length > 0 && !prefixes.some((prefix) => key.startsWith(prefix))) return
+    entry.invalidated = true
+    entry.generation++
+    entry.promise = undefined
+    notify(key)
+  })
+}
+
+// Suscripción a los cambios de la caché: invalidaciones y revalidaciones que trajeron datos distintos
+export const subscribeToCache = (listener: CacheListener) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,416 @@
+import type {
+  Ecosystem,
+  ImageQuery,
+  ImageResult,
+  MaskCorrectionPayload,
+  PaginatedImages,
+  UploadMultiplePayload,
+  UploadResponse,
+} from "./types"
+import { cachedFetch, invalidateCache } from "./cache"
+
+const DEFAULT_BASE_URL = "https://sistemahidalgodroneva.site"
+
+// Con NEXT_PUBLIC_API_MOCK=true se usa el servidor simulado de app/api/monitoring
+export const USE_MOCK_API = process.env.NEXT_PUBLIC_API_MOCK === "true"
+
+// URL base del backend, configurable con NEXT_PUBLIC_API_BASE_URL (vacía = mismo origen)
+export const API_BASE_URL = USE_MOCK_API
+  ? ""
+  : (process.env.NEXT_PUBLIC_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "")
+
+const MONITORING_PATH = "/api/monitoring"
+
+// ------------------------------ //
+// ERRORES
+// ------------------------------ //
+
+/**
+ * Error uniforme para cualquier fallo al hablar con la API.
+ * `status` es 0 cuando la petición ni siquiera llegó al servidor.
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly url: string
+  readonly body: unknown
+
+  constructor(message: string, status: number, url: string, body: unknown = null) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+    this.url = url
+    this.body = body
+  }
+
+  get isNetworkError() {
+    return this.status === 0
+  }
+}
+
+const extractErrorMessage = (body: unknown, fallback: string): string => {
+  if (typeof body === "string") return body || fallback
+  if (body && typeof body === "object") {
+    const data = body as Record<string, unknown>
+    if (typeof data.error === "string") return data.error
+    if (typeof data.detail === "string") return data.detail
+    return JSON.stringify(data)
+  }
+  return fallback
+}
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+// ------------------------------ //
+// PETICIONES
+// ------------------------------ //
+
+export const buildApiUrl = (path: string): string => `${API_BASE_URL}${MONITORING_PATH}/${path.replace(/^\/+/, "")}`
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  return requestUrl<T>(buildApiUrl(path), init)
+}
+
+async function requestUrl<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response
+  try {
+    response = await fetch(url, init)
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") throw error
+    throw new ApiError("No se pudo conectar con el servidor. Verifica la conexión.", 0, url)
+  }
+
+  const body = await readBody(response)
+
+  if (!response.ok) {
+    const fallback = `Error del servidor: ${response.status} ${response.statusText}`
+    throw new ApiError(extractErrorMessage(body, fallback), response.status, url, body)
+  }
+
+  return body as T
+}
+
+// Convierte rutas relativas de medios (/media/...) en URLs absolutas del backend
+export const resolveMediaUrl = (path?: string | null): string => {
+  if (!path) return ""
+  if (/^(https?:|data:|blob:)/.test(path)) return path
+  return `${API_BASE_URL}${path.startsWith("/") ? path : `/${path}`}`
+}
+
+// La señal del llamador solo cancela su espera; la petición se comparte en la caché
+const withoutSignal = (init?: RequestInit): RequestInit | undefined => {
+  if (!init) return undefined
+  const { signal: _signal, ...rest } = init
+  return rest
+}
+
+export const getEcosystems = (init?: RequestInit) =>
+  cachedFetch("ecosystems/", () => request<Ecosystem[]>("ecosystems/", withoutSignal(init)), init?.signal)
+
+// ------------------------------ //
+// IMÁGENES (FILTROS Y PAGINACIÓN)
+// ------------------------------ //
+
+// Respuesta paginada estilo Django REST Framework
+interface DrfPage<T> {
+  count: number
+  next: string | null
+  previous: string | null
+  results: T[]
+}
+
+const isDrfPage = <T>(body: unknown): body is DrfPage<T> =>
+  !!body && typeof body === "object" && Array.isArray((body as DrfPage<T>).results)
+
+const buildImageQueryString = (query: ImageQuery): string => {
+  const params = new URLSearchParams()
+  if (query.ecosystem !== undefined && query.ecosystem !== null && query.ecosystem !== "") {
+    params.set("ecosystem", query.ecosystem.toString())
+  }
+  if (query.captureDateFrom) params.set("capture_date__gte", query.captureDateFrom)
+  if (query.captureDateTo) params.set("capture_date__lte", query.captureDateTo)
+  if (query.ordering) params.set("ordering", query.ordering)
+  if (query.page) params.set("page", query.page.toString())
+  if (query.pageSize) params.set("page_size", query.pageSize.toString())
+  const qs = params.toString()
+  return qs ? `?${qs}` : ""
+}
+
+// Compara fechas de captura aceptando tanto "YYYY-MM-DD" como ISO completo
+const compareCaptureDate = (captureDate: string, bound: string): number => {
+  if (bound.length === 10) return captureDate.slice(0, 10).localeCompare(bound)
+  return new Date(captureDate).getTime() - new Date(bound).getTime()
+}
+
+/**
+ * Aplica el filtro en el cliente. Si el backend ya filtró es un no-op;
+ * si ignoró los parámetros, garantiza el mismo resultado.
+ */
+const applyImageQuery = (images: ImageResult[], query: ImageQuery): ImageResult[] => {
+  const filtered = images.filter((image) => {
+    if (query.ecosystem !== undefined && query.ecosystem !== "" && image.ecosystem !== Number(query.ecosystem)) {
+      return false
+    }
+    if (query.captureDateFrom && (!image.capture_date || compareCaptureDate(image.capture_date, query.captureDateFrom) < 0)) {
+      return false
+    }
+    if (query.captureDateTo && (!image.capture_date || compareCaptureDate(image.capture_date, query.captureDateTo) > 0)) {
+      return false
+    }
+    return true
+  })
+
+  if (query.ordering) {
+    const direction = query.ordering.startsWith("-") ? -1 : 1
+    filtered.sort((a, b) => direction * (a.capture_date || "").localeCompare(b.capture_date || ""))
+  }
+
+  return filtered
+}
+
+/**
+ * Obtiene todas las imágenes que cumplen el filtro. Si el backend pagina
+ * por defecto, recorre todas las páginas siguiendo `next`.
+ */
+export const getImages = (query: ImageQuery = {}, init?: RequestInit): Promise<ImageResult[]> => {
+  const { page: _page, pageSize: _pageSize, ...filters } = query
+  return cachedFetch(
+    `images/all${buildImageQueryString(filters)}`,
+    () => fetchAllImages(filters, withoutSignal(init)),
+    init?.signal,
+  )
+}
+
+const fetchAllImages = async (filters: ImageQuery, init?: RequestInit): Promise<ImageResult[]> => {
+  let body = await request<ImageResult[] | DrfPage<ImageResult>>(`images/${buildImageQueryString(filters)}`, init)
+
+  if (!isDrfPage<ImageResult>(body)) {
+    return applyImageQuery(body || [], filters)
+  }
+
+  const images = [...body.results]
+  while (body.next) {
+    body = await requestUrl<DrfPage<ImageResult>>(body.next, init)
+    images.push(...body.results)
+  }
+  return applyImageQuery(images, filters)
+}
+
+/**
+ * Obtiene una página de imágenes. Si el backend no pagina (devuelve un
+ * arreglo completo) o ignora parte del filtro, la página se recorta en el cliente.
+ */
+export const getImagesPage = (query: ImageQuery = {}, init?: RequestInit): Promise<PaginatedImages> => {
+  const normalized = { ...query, page: query.page ?? 1, pageSize: query.pageSize ?? 50 }
+  return cachedFetch(
+    `images/page${buildImageQueryString(normalized)}`,
+    () => fetchImagesPage(normalized, withoutSignal(init)),
+    init?.signal,
+  )
+}
+
+const paginateImages = (all: ImageResult[], page: number, pageSize: number): PaginatedImages => {
+  const start = (page - 1) * pageSize
+  return {
+    results: all.slice(start, start + pageSize),
+    count: all.length,
+    page,
+    pageSize,
+    hasMore: start + pageSize < all.length,
+  }
+}
+
+const fetchImagesPage = async (
+  query: ImageQuery & { page: number; pageSize: number },
+  init?: RequestInit,
+): Promise<PaginatedImages> => {
+  const { page, pageSize, ...filters } = query
+  const body = await request<ImageResult[] | DrfPage<ImageResult>>(`images/${buildImageQueryString(query)}`, init)
+
+  if (!isDrfPage<ImageResult>(body)) {
+    return paginateImages(applyImageQuery(body || [], filters), page, pageSize)
+  }
+
+  // Si el filtro del cliente quita o reordena filas, el backend ignoró algún parámetro y
+  // `count`/`next` describen otra consulta: se trae la lista completa y se pagina aquí
+  const results = applyImageQuery(body.results, filters)
+  const ignoredFilters =
+    body.results.length > pageSize ||
+    results.length !== body.results.length ||
+    results.some((image, index) => image.id !== body.results[index].id)
+  if (ignoredFilters) {
+    // `getImages` cachea la lista, así las páginas siguientes no la vuelven a descargar
+    return paginateImages(await getImages(filters, init), page, pageSize)
+  }
+
+  return { results, count: body.count, page, pageSize, hasMore: !!body.next }
+}
+
+// ------------------------------ //
+// SUBIDA DE IMÁGENES
+// ------------------------------ //
+
+const UPLOAD_PATH = "images/upload-multiple/"
+
+const buildUploadFormData = (payload: UploadMultiplePayload): FormData => {
+  const formData = new FormData()
+
+  if (payload.ecosystemId && payload.ecosystemId.toString().trim() !== "new") {
+    formData.append("ecosystem_id", payload.ecosystemId.toString().trim())
+  } else {
+    formData.append("ecosystem_name", (payload.ecosystemName || "").trim())
+  }
+
+  if (payload.coordinates && payload.coordinates.length > 0) {
+    formData.append("coordinates", JSON.stringify(payload.coordinates))
+  }
+  if (payload.location) {
+    formData.append("location", payload.location)
+  }
+  if (payload.polygonName) {
+    formData.append("polygon_name", payload.polygonName)
+  }
+  if (payload.areaM2) {
+    formData.append("area_m2", payload.areaM2.toFixed(2))
+  }
+  if (payload.perimeterM) {
+    formData.append("perimeter_m", payload.perimeterM.toFixed(2))
+  }
+
+  if (payload.adjustments) {
+    formData.append("adjustments", JSON.stringify(payload.adjustments))
+  }
+  // Solo se envía la versión ajustada; con `keepOriginals` runUploadBatch la sube aparte como hija
+  if (payload.adjustedImages) {
+    payload.adjustedImages.forEach((file) => formData.append("images", file))
+    formData.append("is_adjusted", "true")
+  } else {
+    payload.images.forEach((file) => formData.append("images", file))
+  }
+  payload.captureDates.forEach((date) => formData.append("capture_dates", date))
+  payload.descriptions.forEach((desc) => formData.append("descriptions", desc || ""))
+  if (payload.resolutionsMPerPx?.some((value) => value)) {
+    payload.resolutionsMPerPx.forEach((value) => formData.append("resolutions_m_per_px", value ? value.toString() : ""))
+  }
+  if (payload.captureMetadata?.some(Boolean)) {
+    payload.captureMetadata.forEach((metadata) => formData.append("capture_metadata", JSON.stringify(metadata || {})))
+  }
+  if (payload.rois?.some(Boolean)) {
+    payload.rois.forEach((roi) => formData.append("rois", JSON.stringify(roi || [])))
+  }
+  if (payload.parentImageId) {
+    formData.set("is_adjusted", "true")
+    formData.append("parent_image", payload.parentImageId.toString())
+  }
+  if (payload.perceptualHashes?.some(Boolean)) {
+    payload.perceptualHashes.forEach((hash) => formData.append("phashes", hash || ""))
+  }
+
+  return formData
+}
+
+/**
+ * Sube y analiza las imágenes. Al terminar invalida las listas cacheadas
+ * para que las nuevas capturas aparezcan en todas las vistas.
+ */
+export const uploadImages = async (payload: UploadMultiplePayload, init?: RequestInit) => {
+  const response = await request<UploadResponse>(UPLOAD_PATH, { ...init, method: "POST", body: buildUploadFormData(payload) })
+  invalidateCache("images/", "ecosystems/")
+  return response
+}
+
+export interface UploadProgressOptions {
+  signal?: AbortSignal
+  // Fracción enviada del cuerpo (0-1); `fetch` no informa el avance de subida, por eso se usa XHR
+  onProgress?: (fraction: number) => void
+}
+
+/**
+ * Igual que `uploadImages`, pero informando el avance del envío. La
+ * cancelación rechaza con el mismo `AbortError` que `fetch`. No invalida la
+ * caché: quien sube un lote imagen por imagen lo hace una vez al terminar.
+ */
+export const uploadImagesWithProgress = (payload: UploadMultiplePayload, { signal, onProgress }: UploadProgressOptions = {}) =>
+  new Promise<UploadResponse>((resolve, reject) => {
+    const url = buildApiUrl(UPLOAD_PATH)
+    const abortError = () => new DOMException("Subida cancelada.", "AbortError")
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    const onAbort = () => xhr.abort()
+    signal?.addEventListener("abort", onAbort)
+    const settle = () => signal?.removeEventListener("abort", onAbort)
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total)
+    }
+    xhr.onabort = () => {
+      settle()
+      reject(abortError())
+    }
+    xhr.onerror = () => {
+      settle()
+      reject(new ApiError("No se pudo conectar con el servidor. Verifica la conexión.", 0, url))
+    }
+    xhr.onload = () => {
+      settle()
+      let body: unknown = xhr.responseText || null
+      try {
+        body = body ? JSON.parse(xhr.responseText) : null
+      } catch {
+        // Respuesta en texto plano (páginas de error del proxy, etc.)
+      }
+      if (xhr.status < 200 || xhr.status >= 300) {
+        const fallback = `Error del servidor: ${xhr.status} ${xhr.statusText}`
+        reject(new ApiError(extractErrorMessage(body, fallback), xhr.status, url, body))
+        return
+      }
+      resolve(body as UploadResponse)
+    }
+
+    xhr.open("POST", url)
+    xhr.send(buildUploadFormData(payload))
+  })
+
+// ------------------------------ //
+// CORRECCIÓN MANUAL DE MÁSCARAS
+// ------------------------------ //
+
+// El servidor no guarda ningún otro indicador: la descripción identifica las correcciones de máscara
+const MASK_CORRECTION_DESCRIPTION = "Máscara corregida"
+
+// Captura cuyo archivo es una máscara corregida a mano (la foto es la de su `parent_image`)
+export const isMaskCorrection = (image: ImageResult) =>
+  image.is_adjusted && image.parent_image !== null && image.description.startsWith(MASK_CORRECTION_DESCRIPTION)
+
+/**
+ * Sube la máscara corregida por el mismo `upload-multiple` que las fotos,
+ * como captura ajustada hija de `image`. El archivo de la nueva captura es
+ * la propia máscara, y el servidor la analiza como cualquier otra imagen.
+ */
+export const saveMaskCorrection = async ({ image, mask, resolutionMPerPx }: MaskCorrectionPayload, init?: RequestInit) => {
+  const response = await uploadImages(
+    {
+      ecosystemId: image.ecosystem,
+      images: [new File([mask], `mascara-${image.id}.png`, { type: "image/png" })],
+      captureDates: [image.capture_date],
+      descriptions: [`${MASK_CORRECTION_DESCRIPTION} de la captura #${image.id}`],
+      resolutionsMPerPx: [resolutionMPerPx],
+      parentImageId: image.id,
+    },
+    init,
+  )
+  const correction = response.images[0]
+  if (!correction) throw new Error("El servidor no devolvió la captura corregida.")
+  return correction
+}
@@ -0,0 +1,42 @@
+export * from "./types"
+export {
+  API_BASE_URL,
+  ApiError,
+  USE_MOCK_API,
+  buildApiUrl,
+  getEcosystems,
+  getImages,
+  getImagesPage,
+  isMaskCorrection,
+  resolveMediaUrl,
+  saveMaskCorrection,
+  uploadImages,
+  uploadImagesWithProgress,
+  type UploadProgressOptions,
+} from "./client"
+export { CACHE_MAX_AGE_MS, cachedFetch, invalidateCache, subscribeToCache } from "./cache"
+export {
+  UPLOAD_MAX_ATTEMPTS,
+  createUploadItem,
+  isAbortError,
+  isRetryableError,
+  pickUploadItems,
+  runUploadBatch,
+  uploadWithRetry,
+  withCreatedEcosystem,
+  type UploadBatchResult,
+  type UploadItem,
+  type UploadItemStatus,
+} from "./upload-queue"
+export {
+  discardRejectedUploads,
+  enqueueUpload,
+  getOfflineQueueState,
+  isOffline,
+  removeQueuedUpload,
+  startOfflineSync,
+  subscribeToOfflineQueue,
+  syncOfflineQueue,
+  type OfflineQueueState,
+  type QueuedUpload,
+} from "./offline-queue"
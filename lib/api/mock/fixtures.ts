@@ -0,0 +1,186 @@
+import type { Ecosystem, ImageResult } from "../types"
+
+// ------------------------------ //
+// DATOS SEMILLA DEL BACKEND SIMULADO
+// ------------------------------ //
+
+interface EcosystemSeed {
+  ecosystem: Ecosystem
+  // Cobertura media de lirio (%) y amplitud de la variación estacional
+  baseVegetation: number
+  seasonalAmplitude: number
+  // Variación de la cobertura por mes (puntos porcentuales)
+  monthlyTrend: number
+}
+
+const ECOSYSTEM_SEEDS: EcosystemSeed[] = [
+  {
+    ecosystem: {
+      id: 1,
+      name: "Presa Endhó",
+      location:
+        "SRID=4326;POLYGON ((-99.395 20.155, -99.36 20.16, -99.335 20.14, -99.345 20.115, -99.38 20.11, -99.4 20.13, -99.395 20.155))",
+      created_at: "2024-01-15T10:00:00Z",
+    },
+    baseVegetation: 42,
+    seasonalAmplitude: 12,
+    monthlyTrend: 0.6,
+  },
+  {
+    ecosystem: {
+      id: 2,
+      name: "Laguna de Metztitlán",
+      location:
+        "SRID=4326;POLYGON ((-98.895 20.7, -98.86 20.705, -98.845 20.68, -98.865 20.66, -98.895 20.67, -98.895 20.7))",
+      created_at: "2024-02-03T16:30:00Z",
+    },
+    baseVegetation: 18,
+    seasonalAmplitude: 8,
+    monthlyTrend: -0.3,
+  },
+  {
+    ecosystem: {
+      id: 3,
+      name: "Laguna de Tecocomulco",
+      location:
+        "SRID=4326;POLYGON ((-98.43 19.89, -98.38 19.895, -98.365 19.865, -98.395 19.845, -98.43 19.86, -98.43 19.89))",
+      created_at: "2024-03-20T09:15:00Z",
+    },
+    baseVegetation: 27,
+    seasonalAmplitude: 10,
+    monthlyTrend: 0.2,
+  },
+  {
+    ecosystem: {
+      id: 4,
+      name: "Presa Requena",
+      location:
+        "SRID=4326;POLYGON ((-99.335 19.975, -99.31 19.978, -99.3 19.96, -99.32 19.948, -99.338 19.958, -99.335 19.975))",
+      created_at: "2024-05-08T12:45:00Z",
+    },
+    baseVegetation: 33,
+    seasonalAmplitude: 6,
+    monthlyTrend: -0.5,
+  },
+  {
+    // Sin polígono: el mapa debe geocodificarlo por nombre
+    ecosystem: {
+      id: 5,
+      name: "Presa Vicente Aguirre",
+      location: null,
+      created_at: "2024-09-02T08:00:00Z",
+    },
+    baseVegetation: 12,
+    seasonalAmplitude: 4,
+    monthlyTrend: 0.1,
+  },
+]
+
+// Imágenes de ejemplo servidas desde /public
+const FIXTURE_IMAGES = [
+  "/imagenes/Gemini_Generated_Image_sgf3bpsgf3bpsgf3.png",
+  "/imagenes/Gemini_Generated_Image_ljwttyljwttyljwt.png",
+  "/imagenes/histori-imgs.png",
+  "/placeholder.jpg",
+]
+
+// Resolución nominal de las capturas simuladas (m/px) y tamaño de imagen
+export const MOCK_RESOLUTION_M_PER_PX = 0.05
+export const MOCK_IMAGE_SIZE_PX = { width: 4000, height: 3000 }
+
+// Generador pseudoaleatorio determinista (mulberry32) para que los datos sean estables
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * Calcula porcentajes y áreas coherentes entre sí para una captura simulada.
+ * `vegetation` es el porcentaje de lirio ya calculado; `analyzedFraction`
+ * es la parte de la foto dentro de la zona de análisis.
+ */
+export const buildCoverage = (
+  vegetation: number,
+  otherPercentage: number,
+  resolution = MOCK_RESOLUTION_M_PER_PX,
+  analyzedFraction = 1,
+) => {
+  const vegetation_percentage = Number(clamp(vegetation, 0, 95).toFixed(2))
+  const water_percentage = Number(clamp(100 - vegetation_percentage - otherPercentage, 0, 100).toFixed(2))
+  const pixelArea = resolution * resolution
+  const totalArea = MOCK_IMAGE_SIZE_PX.width * MOCK_IMAGE_SIZE_PX.height * pixelArea * analyzedFraction
+
+  return {
+    vegetation_percentage,
+    vegetation_area_m2: Number(((vegetation_percentage / 100) * totalArea).toFixed(2)),
+    water_percentage,
+    water_area_m2: Number(((water_percentage / 100) * totalArea).toFixed(2)),
+  }
+}
+
+// Cobertura esperada de lirio para un ecosistema en una fecha dada (estacionalidad + tendencia)
+export const expectedVegetation = (ecosystemId: number, date: Date, random: () => number): number => {
+  const seed = ECOSYSTEM_SEEDS.find((s) => s.ecosystem.id === ecosystemId)
+  const base = seed?.baseVegetation ?? 20
+  const amplitude = seed?.seasonalAmplitude ?? 6
+  const trend = seed?.monthlyTrend ?? 0
+
+  // El lirio alcanza su máximo al final de la temporada cálida (mayo-junio)
+  const season = Math.sin(((date.getUTCMonth() - 2) / 12) * 2 * Math.PI)
+  const monthsSinceStart = (date.getUTCFullYear() - 2024) * 12 + date.getUTCMonth()
+  const noise = (random() - 0.5) * 6
+
+  return base + amplitude * season + trend * monthsSinceStart + noise
+}
+
+/**
+ * Genera la serie histórica: dos capturas por mes para cada ecosistema,
+ * desde su fecha de alta hasta `until`.
+ */
+export const buildFixtureData = (until: Date = new Date()) => {
+  const random = createRandom(20240115)
+  const ecosystems = ECOSYSTEM_SEEDS.map((seed) => ({ ...seed.ecosystem }))
+  const images: ImageResult[] = []
+  let nextImageId = 1
+
+  ECOSYSTEM_SEEDS.forEach(({ ecosystem }) => {
+    const start = new Date(ecosystem.created_at)
+    const cursor = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1))
+
+    while (cursor <= until) {
+      ;[6, 20].forEach((day) => {
+        const captureDate = new Date(
+          Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth(), day, 9 + Math.floor(random() * 6), Math.floor(random() * 60)),
+        )
+        if (captureDate < start || captureDate > until) return
+
+        const coverage = buildCoverage(expectedVegetation(ecosystem.id, captureDate, random), 4 + random() * 10)
+        const id = nextImageId++
+
+        images.push({
+          id,
+          ecosystem: ecosystem.id,
+          image: FIXTURE_IMAGES[id % FIXTURE_IMAGES.length],
+          description: `Vuelo de monitoreo ${day === 6 ? "inicio" : "mitad"} de mes - ${ecosystem.name}`,
+          metadata: { resolution_m_per_px: MOCK_RESOLUTION_M_PER_PX },
+          capture_date: captureDate.toISOString(),
+          ...coverage,
+          is_adjusted: false,
+          parent_image: null,
+          adjusted_images: [],
+        })
+      })
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1)
+    }
+  })
+
+  return { ecosystems, images }
+}
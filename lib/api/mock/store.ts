@@ -0,0 +1,244 @@
+import type { CaptureMetadata, Ecosystem, ImageAdjustments, ImageResult, RoiPolygon, UploadResponse } from "../types"
+import { isUsableRoi, roiAreaFraction } from "../../roi"
+import { MOCK_RESOLUTION_M_PER_PX, buildCoverage, buildFixtureData, createRandom, expectedVegetation } from "./fixtures"
+
+// ------------------------------ //
+// ESTADO EN MEMORIA DEL BACKEND SIMULADO
+// ------------------------------ //
+
+// El backend simulado solo responde si se activa explícitamente
+export const isMockApiEnabled = () => process.env.NEXT_PUBLIC_API_MOCK === "true"
+
+export const MOCK_MEDIA_PATH = "/api/monitoring/media"
+
+interface StoredMedia {
+  data: ArrayBuffer
+  contentType: string
+}
+
+interface MockState {
+  ecosystems: Ecosystem[]
+  images: ImageResult[]
+  media: Map<number, StoredMedia>
+  nextEcosystemId: number
+  nextImageId: number
+}
+
+// Se guarda en globalThis para sobrevivir a las recargas de módulos en desarrollo
+const globalForMock = globalThis as unknown as { __monitoringMockState?: MockState }
+
+const getState = (): MockState => {
+  if (!globalForMock.__monitoringMockState) {
+    const { ecosystems, images } = buildFixtureData()
+    globalForMock.__monitoringMockState = {
+      ecosystems,
+      images,
+      media: new Map(),
+      nextEcosystemId: Math.max(0, ...ecosystems.map((e) => e.id)) + 1,
+      nextImageId: Math.max(0, ...images.map((i) => i.id)) + 1,
+    }
+  }
+  return globalForMock.__monitoringMockState
+}
+
+/** Error con el mismo cuerpo `{ error }` que devuelve el backend real. */
+export class MockApiError extends Error {
+  readonly status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "MockApiError"
+    this.status = status
+  }
+}
+
+// ------------------------------ //
+// CONSULTAS
+// ------------------------------ //
+
+export const listEcosystems = (): Ecosystem[] => getState().ecosystems
+
+/**
+ * Replica los filtros del backend: ecosystem, capture_date__gte/__lte,
+ * ordering y paginación (page/page_size) con respuesta estilo DRF.
+ */
+export const queryImages = (params: URLSearchParams, requestUrl: URL) => {
+  const ecosystem = params.get("ecosystem")
+  const from = params.get("capture_date__gte")
+  const to = params.get("capture_date__lte")
+  const ordering = params.get("ordering")
+
+  let images = getState().images.filter((image) => {
+    if (ecosystem && image.ecosystem !== Number(ecosystem)) return false
+    const day = image.capture_date.slice(0, 10)
+    if (from && (from.length === 10 ? day < from : image.capture_date < from)) return false
+    if (to && (to.length === 10 ? day > to : image.capture_date > to)) return false
+    return true
+  })
+
+  if (ordering === "capture_date" || ordering === "-capture_date") {
+    const direction = ordering.startsWith("-") ? -1 : 1
+    images = [...images].sort((a, b) => direction * a.capture_date.localeCompare(b.capture_date))
+  }
+
+  const page = Number(params.get("page"))
+  if (!page) return images
+
+  const pageSize = Number(params.get("page_size")) || 50
+  const start = (page - 1) * pageSize
+  const pageUrl = (target: number) => {
+    const url = new URL(requestUrl)
+    url.searchParams.set("page", target.toString())
+    return url.toString()
+  }
+
+  return {
+    count: images.length,
+    next: start + pageSize < images.length ? pageUrl(page + 1) : null,
+    previous: page > 1 ? pageUrl(page - 1) : null,
+    results: images.slice(start, start + pageSize),
+  }
+}
+
+export const getMedia = (id: number): StoredMedia | undefined => getState().media.get(id)
+
+// ------------------------------ //
+// CARGA DE IMÁGENES
+// ------------------------------ //
+
+// Convierte coordenadas [[lng, lat], ...] en un POLYGON WKT cerrado
+const coordinatesToWKT = (coordinates: number[][]): string | null => {
+  if (coordinates.length < 3) return null
+  const ring = [...coordinates]
+  const [first, last] = [ring[0], ring[ring.length - 1]]
+  if (first[0] !== last[0] || first[1] !== last[1]) ring.push(first)
+  return `SRID=4326;POLYGON ((${ring.map(([lng, lat]) => `${lng} ${lat}`).join(", ")}))`
+}
+
+const resolveEcosystem = (formData: FormData): Ecosystem => {
+  const state = getState()
+  const ecosystemId = formData.get("ecosystem_id")
+
+  if (ecosystemId) {
+    const ecosystem = state.ecosystems.find((e) => e.id === Number(ecosystemId))
+    if (!ecosystem) throw new MockApiError(`El ecosistema con ID ${ecosystemId} no existe.`, 404)
+    return ecosystem
+  }
+
+  const name = (formData.get("ecosystem_name") || "").toString().trim()
+  if (!name) throw new MockApiError("Se requiere ecosystem_id o ecosystem_name.")
+
+  const existing = state.ecosystems.find((e) => e.name.toLowerCase() === name.toLowerCase())
+  if (existing) return existing
+
+  let location = (formData.get("location") || "").toString() || null
+  const coordinates = formData.get("coordinates")
+  if (!location && coordinates) {
+    try {
+      location = coordinatesToWKT(JSON.parse(coordinates.toString()))
+    } catch {
+      throw new MockApiError("El campo coordinates no es un JSON válido.")
+    }
+  }
+
+  const ecosystem: Ecosystem = {
+    id: state.nextEcosystemId++,
+    name,
+    location,
+    created_at: new Date().toISOString(),
+  }
+  state.ecosystems.push(ecosystem)
+  return ecosystem
+}
+
+/**
+ * Implementa images/upload-multiple/: guarda los archivos en memoria y
+ * genera métricas verosímiles según la estacionalidad del ecosistema.
+ */
+export const uploadMultiple = async (formData: FormData): Promise<UploadResponse> => {
+  const state = getState()
+  const files = formData.getAll("images").filter((value): value is File => typeof value !== "string")
+  const isAdjusted = formData.get("is_adjusted") === "true"
+  const captureDates = formData.getAll("capture_dates").map((value) => value.toString())
+  const descriptions = formData.getAll("descriptions").map((value) => value.toString())
+  const resolutions = formData.getAll("resolutions_m_per_px").map((value) => Number(value.toString()))
+  const captureMetadata = formData.getAll("capture_metadata").map((value) => {
+    try {
+      return JSON.parse(value.toString()) as CaptureMetadata
+    } catch {
+      throw new MockApiError("El campo capture_metadata no es un JSON válido.")
+    }
+  })
+  const rois = formData.getAll("rois").map((value) => {
+    try {
+      const roi = JSON.parse(value.toString()) as RoiPolygon
+      return isUsableRoi(roi) ? roi : null
+    } catch {
+      throw new MockApiError("El campo rois no es un JSON válido.")
+    }
+  })
+  const phashes = formData.getAll("phashes").map((value) => value.toString() || null)
+  let adjustments: ImageAdjustments | undefined
+  try {
+    adjustments = formData.has("adjustments") ? (JSON.parse(String(formData.get("adjustments"))) as ImageAdjustments) : undefined
+  } catch {
+    throw new MockApiError("El campo adjustments no es un JSON válido.")
+  }
+
+  if (files.length === 0) throw new MockApiError("No se recibieron imágenes.")
+  if (captureDates.length !== files.length) {
+    throw new MockApiError("Cada imagen debe tener una fecha de captura (capture_dates).")
+  }
+  if (captureDates.some((date) => isNaN(new Date(date).getTime()))) {
+    throw new MockApiError("Formato de fecha inválido en capture_dates.")
+  }
+  if (rois.length > 0 && rois.length !== files.length) {
+    throw new MockApiError("Cada imagen debe tener su zona de análisis en rois (vacía = foto completa).")
+  }
+
+  const parentId = formData.get("parent_image")
+  const parent = parentId ? state.images.find((image) => image.id === Number(parentId)) : undefined
+  if (parentId && !parent) throw new MockApiError(`La imagen con ID ${parentId} no existe (parent_image).`)
+
+  const ecosystem = resolveEcosystem(formData)
+  const created: ImageResult[] = []
+
+  for (const [index, file] of files.entries()) {
+    const id = state.nextImageId++
+    const captureDate = new Date(captureDates[index])
+    const random = createRandom(id * 7919 + file.size)
+    const resolution = resolutions[index] || Number(formData.get("resolution_m_per_px")) || MOCK_RESOLUTION_M_PER_PX
+
+    state.media.set(id, { data: await file.arrayBuffer(), contentType: file.type || "image/jpeg" })
+
+    const roi = rois[index]
+    const metadata = { ...captureMetadata[index], resolution_m_per_px: resolution, ...(roi ? { roi } : {}) }
+    const coverage = expectedVegetation(ecosystem.id, captureDate, random)
+    // Solo se cuenta lo que queda dentro de la zona de análisis
+    const analyzedFraction = roi ? roiAreaFraction(roi) : 1
+
+    const image: ImageResult = {
+      id,
+      ecosystem: ecosystem.id,
+      image: `${MOCK_MEDIA_PATH}/${id}/`,
+      description: descriptions[index] || "",
+      metadata: isAdjusted ? { ...metadata, adjustments } : metadata,
+      capture_date: captureDate.toISOString(),
+      ...buildCoverage(coverage, 4 + random() * 10, resolution, analyzedFraction),
+      is_adjusted: isAdjusted,
+      parent_image: parent?.id ?? null,
+      adjusted_images: [],
+      phash: phashes[index] ?? null,
+    }
+    parent?.adjusted_images.push(id)
+    state.images.push(image)
+    created.push(image)
+  }
+
+  return {
+    message: `${created.length} imágenes analizadas correctamente (servidor simulado).`,
+    ecosystem_id: ecosystem.id,
+    ecosystem_name: ecosystem.name,
+    images: created,
+  }
+}
@@ -0,0 +1,180 @@
+import { pickUploadItems, runUploadBatch, withCreatedEcosystem } from "./upload-queue"
+import type { UploadMultiplePayload } from "./types"
+
+// ------------------------------ //
+// COLA DE SUBIDAS SIN CONEXIÓN (INDEXEDDB)
+// ------------------------------ //
+
+const DB_NAME = "monitoreo-offline"
+const DB_VERSION = 1
+const STORE_NAME = "uploads"
+
+/**
+ * Lote guardado para enviarse al recuperar la conexión. IndexedDB guarda los
+ * `File` tal cual (clonado estructurado), así que el envío completo sobrevive
+ * a recargas de la página.
+ */
+export interface QueuedUpload {
+  id: number
+  createdAt: string
+  payload: UploadMultiplePayload
+  // Último motivo por el que el servidor rechazó alguna imagen del lote
+  lastError: string | null
+  // El servidor rechazó estas imágenes (4xx): ya no se reintentan y solo queda descartarlas
+  rejected?: boolean
+}
+
+export interface OfflineQueueState {
+  entries: QueuedUpload[]
+  syncing: boolean
+}
+
+type OfflineQueueListener = (state: OfflineQueueState) => void
+
+const listeners = new Set<OfflineQueueListener>()
+let state: OfflineQueueState = { entries: [], syncing: false }
+let syncPromise: Promise<void> | null = null
+let started = false
+
+const setState = (patch: Partial<OfflineQueueState>) => {
+  state = { ...state, ...patch }
+  listeners.forEach((listener) => listener(state))
+}
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true })
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = run(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+const refresh = async () => {
+  setState({ entries: await withStore<QueuedUpload[]>("readonly", (store) => store.getAll()) })
+}
+
+export const getOfflineQueueState = () => state
+
+export const subscribeToOfflineQueue = (listener: OfflineQueueListener) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const isOffline = () => typeof navigator !== "undefined" && !navigator.onLine
+
+export const enqueueUpload = async (payload: UploadMultiplePayload) => {
+  const entry: Omit<QueuedUpload, "id"> = { createdAt: new Date().toISOString(), payload, lastError: null }
+  await withStore("readwrite", (store) => store.add(entry))
+  await refresh()
+}
+
+export const removeQueuedUpload = async (id: number) => {
+  await withStore("readwrite", (store) => store.delete(id))
+  await refresh()
+}
+
+export const discardRejectedUploads = async () => {
+  const rejected = state.entries.filter((entry) => entry.rejected)
+  for (const entry of rejected) await withStore("readwrite", (store) => store.delete(entry.id))
+  await refresh()
+}
+
+/**
+ * Envía cada lote imagen por imagen. Las que fallan por un error transitorio
+ * quedan en la cola para el siguiente intento; las que el servidor rechaza
+ * pasan a un lote aparte marcado como rechazado que ya no se reintenta.
+ */
+const syncQueue = async () => {
+  await refresh()
+  for (const entry of state.entries) {
+    if (entry.rejected) continue
+    if (isOffline()) break
+
+    const failed: number[] = []
+    const rejected: number[] = []
+    let lastError: string | null = null
+    let rejectedError: string | null = null
+    const { response } = await runUploadBatch(
+      entry.payload,
+      entry.payload.images.map((_, index) => index),
+      {
+        signalFor: () => undefined,
+        onItemChange: (index, patch) => {
+          if (patch.status !== "failed") return
+          if (patch.retryable === false) {
+            rejected.push(index)
+            rejectedError = patch.error ?? null
+          } else {
+            failed.push(index)
+            lastError = patch.error ?? null
+          }
+        },
+      },
+    )
+
+    // Si el lote creó el ecosistema, lo que queda debe ir a ese mismo ecosistema
+    const payload = response ? withCreatedEcosystem(entry.payload, response.ecosystem_id) : entry.payload
+    if (failed.length > 0) {
+      const updated: QueuedUpload = { ...entry, payload: pickUploadItems(payload, failed), lastError }
+      await withStore("readwrite", (store) => store.put(updated))
+    } else {
+      await withStore("readwrite", (store) => store.delete(entry.id))
+    }
+    if (rejected.length > 0) {
+      const dropped: Omit<QueuedUpload, "id"> = {
+        createdAt: entry.createdAt,
+        payload: pickUploadItems(payload, rejected),
+        lastError: rejectedError,
+        rejected: true,
+      }
+      await withStore("readwrite", (store) => store.add(dropped))
+    }
+  }
+  await refresh()
+}
+
+/**
+ * Intenta enviar ahora los lotes pendientes. Las llamadas simultáneas
+ * comparten la misma sincronización.
+ */
+export const syncOfflineQueue = () => {
+  if (!syncPromise) {
+    setState({ syncing: true })
+    syncPromise = syncQueue()
+      .catch((error) => console.error("No se pudo sincronizar la cola sin conexión:", error))
+      .finally(() => {
+        syncPromise = null
+        setState({ syncing: false })
+      })
+  }
+  return syncPromise
+}
+
+// Carga la cola guardada y la envía al arrancar y cada vez que vuelve la conexión
+export const startOfflineSync = () => {
+  if (started || typeof window === "undefined" || typeof indexedDB === "undefined") return
+  started = true
+  window.addEventListener("online", () => syncOfflineQueue())
+  if (isOffline()) {
+    refresh().catch((error) => console.error("No se pudo leer la cola sin conexión:", error))
+  } else {
+    syncOfflineQueue()
+  }
+}
@@ -0,0 +1,135 @@
+// ------------------------------ //
+// TIPOS DEL DOMINIO DE MONITOREO
+// ------------------------------ //
+
+export interface Ecosystem {
+  id: number
+  name: string
+  // Polígono en formato WKT (puede venir vacío si el ecosistema no tiene ubicación)
+  location: string | null
+  created_at: string
+}
+
+// Datos de la toma leídos del EXIF/XMP de la foto en el navegador
+export interface CaptureMetadata {
+  latitude?: number
+  longitude?: number
+  absolute_altitude_m?: number
+  // Altura sobre el punto de despegue (XMP de DJI)
+  relative_altitude_m?: number
+  gimbal_pitch_deg?: number
+  camera_make?: string
+  camera_model?: string
+  focal_length_mm?: number
+  image_width_px?: number
+  image_height_px?: number
+}
+
+// Polígono en coordenadas relativas a la foto: [x, y] entre 0 y 1, origen arriba a la izquierda
+export type RoiPolygon = [number, number][]
+
+// Ajustes de color (en %) aplicados a los píxeles antes de subir la imagen
+export interface ImageAdjustments {
+  brightness: number
+  contrast: number
+  saturate: number
+}
+
+export interface ImageMetadata extends CaptureMetadata {
+  resolution_m_per_px: number
+  adjustments?: ImageAdjustments
+  // Zona de análisis; lo que queda fuera (orilla, lanchas, edificios) no se cuenta
+  roi?: RoiPolygon
+}
+
+export interface ImageResult {
+  id: number
+  ecosystem: number
+  image: string
+  description: string
+  metadata: ImageMetadata
+  capture_date: string
+  vegetation_percentage: number
+  vegetation_area_m2: number
+  water_percentage: number
+  water_area_m2: number
+  is_adjusted: boolean
+  parent_image: number | null
+  adjusted_images: number[]
+  // Copia reducida de la foto, si el servidor la genera
+  thumbnail?: string
+  // Hash perceptual (pHash) calculado al subir la foto, para detectar duplicados sin descargarla
+  phash?: string | null
+}
+
+// Cobertura cuantificada de una captura, ya sea del análisis o de una corrección manual
+export type CoverageMetrics = Pick<
+  ImageResult,
+  "vegetation_percentage" | "vegetation_area_m2" | "water_percentage" | "water_area_m2"
+>
+
+// Corrección manual de la máscara de `image`; se sube como captura ajustada hija suya
+export interface MaskCorrectionPayload {
+  image: ImageResult
+  // PNG con la paleta del editor (agua azul, lirio verde, otro negro, fuera de la zona gris)
+  mask: Blob
+  // Resolución en terreno de un píxel de la máscara, que es más pequeña que la foto
+  resolutionMPerPx: number | null
+}
+
+export interface UploadResponse {
+  message: string
+  ecosystem_id: number
+  ecosystem_name: string
+  images: ImageResult[]
+}
+
+export interface UploadMultiplePayload {
+  // Ecosistema existente; si no se indica se crea uno nuevo con `ecosystemName`
+  ecosystemId?: string | number | null
+  ecosystemName?: string
+  images: File[]
+  // Fechas ya normalizadas al formato ISO que espera la API
+  captureDates: string[]
+  descriptions: string[]
+  // Resolución en terreno (m/px) por imagen; `null` deja que el servidor use la suya
+  resolutionsMPerPx?: (number | null)[]
+  // Metadatos EXIF/XMP por imagen (`null` si la foto no los trae)
+  captureMetadata?: (CaptureMetadata | null)[]
+  // Zona de análisis por imagen, relativa a la imagen ya recortada (ver cropUploadToRois); `null` = foto completa
+  rois?: (RoiPolygon | null)[]
+  // pHash de cada imagen original (`null` si no se pudo calcular); el servidor lo guarda como `phash`
+  perceptualHashes?: (string | null)[]
+  // Versión ajustada de cada imagen (mismo orden que `images`) y los ajustes usados
+  adjustedImages?: File[]
+  adjustments?: ImageAdjustments
+  // Sube también las originales; cada ajustada se sube después como hija suya (`parent_image`)
+  keepOriginals?: boolean
+  // Captura ya subida de la que derivan las imágenes: se guardan como ajustadas hijas suyas
+  parentImageId?: number
+  // Datos del polígono, solo para ecosistemas nuevos
+  location?: string
+  coordinates?: number[][]
+  polygonName?: string
+  // Medición geodésica del polígono, para contrastar con las áreas del análisis
+  areaM2?: number
+  perimeterM?: number
+}
+
+export interface ImageQuery {
+  ecosystem?: number | string
+  // Rango de fechas de captura (YYYY-MM-DD o ISO), ambos inclusivos
+  captureDateFrom?: string
+  captureDateTo?: string
+  ordering?: "capture_date" | "-capture_date"
+  page?: number
+  pageSize?: number
+}
+
+export interface PaginatedImages {
+  results: ImageResult[]
+  count: number
+  page: number
+  pageSize: number
+  hasMore: boolean
+}
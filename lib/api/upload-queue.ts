@@ -0,0 +1,223 @@
+import { invalidateCache } from "./cache"
+import { ApiError, uploadImagesWithProgress } from "./client"
+import type { ImageResult, UploadMultiplePayload, UploadResponse } from "./types"
+
+// ------------------------------ //
+// SUBIDA IMAGEN POR IMAGEN CON REINTENTOS
+// ------------------------------ //
+
+// `queued`: guardada en la cola sin conexión para enviarse más tarde
+export type UploadItemStatus = "pending" | "uploading" | "retrying" | "done" | "failed" | "cancelled" | "queued"
+
+export interface UploadItem {
+  fileName: string
+  status: UploadItemStatus
+  // Fracción enviada (0-1) del intento en curso
+  progress: number
+  attempt: number
+  error: string | null
+  // Falso si el servidor rechazó la imagen (4xx): volver a enviarla fallaría igual
+  retryable: boolean
+  // Imágenes creadas por el servidor (la original y, si se pidió, su versión ajustada)
+  images: ImageResult[]
+}
+
+export const UPLOAD_MAX_ATTEMPTS = 3
+const RETRY_BASE_DELAY_MS = 1500
+
+export const createUploadItem = (fileName: string): UploadItem => ({
+  fileName,
+  status: "pending",
+  progress: 0,
+  attempt: 0,
+  error: null,
+  retryable: true,
+  images: [],
+})
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError"
+
+// Errores de red, tiempos de espera y 5xx son transitorios; un 4xx fallaría igual al repetirlo
+export const isRetryableError = (error: unknown) =>
+  error instanceof ApiError &&
+  (error.isNetworkError || error.status >= 500 || error.status === 408 || error.status === 429)
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException("Subida cancelada.", "AbortError"))
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+
+// Extrae las imágenes `indices` y sus datos paralelos de un envío múltiple
+export const pickUploadItems = (payload: UploadMultiplePayload, indices: number[]): UploadMultiplePayload => {
+  const pick = <T>(values: T[]) => indices.map((index) => values[index])
+  return {
+    ...payload,
+    images: pick(payload.images),
+    captureDates: pick(payload.captureDates),
+    descriptions: pick(payload.descriptions),
+    resolutionsMPerPx: payload.resolutionsMPerPx && pick(payload.resolutionsMPerPx),
+    captureMetadata: payload.captureMetadata && pick(payload.captureMetadata),
+    rois: payload.rois && pick(payload.rois),
+    perceptualHashes: payload.perceptualHashes && pick(payload.perceptualHashes),
+    adjustedImages: payload.adjustedImages && pick(payload.adjustedImages),
+  }
+}
+
+// Con `keepOriginals` cada imagen se sube en dos envíos: la original y después su versión
+// ajustada como hija. Así las dos viajan en `images` y el servidor analiza ambas.
+const hasAdjustedChild = (payload: UploadMultiplePayload) =>
+  !!(payload.keepOriginals && payload.adjustedImages && payload.adjustments)
+
+const originalPayload = (payload: UploadMultiplePayload): UploadMultiplePayload =>
+  hasAdjustedChild(payload) ? { ...payload, adjustedImages: undefined, adjustments: undefined, keepOriginals: false } : payload
+
+const adjustedChildPayload = (payload: UploadMultiplePayload, index: number, parent: UploadResponse): UploadMultiplePayload => ({
+  ...pickUploadItems(withCreatedEcosystem(payload, parent.ecosystem_id), [index]),
+  images: [payload.adjustedImages![index]],
+  adjustedImages: undefined,
+  keepOriginals: false,
+  // El pHash identifica a la original; la ajustada no cuenta para detectar duplicados
+  perceptualHashes: undefined,
+  parentImageId: parent.images[0].id,
+})
+
+// Tras crear el ecosistema, el resto de imágenes se asocia a él en lugar de crear otro
+export const withCreatedEcosystem = (payload: UploadMultiplePayload, ecosystemId: number): UploadMultiplePayload => ({
+  ...payload,
+  ecosystemId,
+  coordinates: undefined,
+  location: undefined,
+  polygonName: undefined,
+})
+
+interface RetryOptions {
+  signal?: AbortSignal
+  onProgress?: (fraction: number) => void
+  onRetry?: (attempt: number, error: unknown) => void
+}
+
+/**
+ * Sube un envío reintentando con espera exponencial (1.5 s, 3 s…) los fallos
+ * transitorios. La cancelación corta tanto la subida como la espera.
+ */
+export const uploadWithRetry = async (payload: UploadMultiplePayload, { signal, onProgress, onRetry }: RetryOptions) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await uploadImagesWithProgress(payload, { signal, onProgress })
+    } catch (error) {
+      if (attempt >= UPLOAD_MAX_ATTEMPTS || !isRetryableError(error) || signal?.aborted) throw error
+      onRetry?.(attempt + 1, error)
+      // Variación aleatoria para que varios clientes no reintenten a la vez
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5), signal)
+    }
+  }
+}
+
+export interface UploadBatchResult {
+  // Respuesta combinada de las imágenes analizadas (`null` si ninguna)
+  response: UploadResponse | null
+  failed: number
+  // De las fallidas, las que el servidor rechazó (4xx) y no tiene sentido reintentar
+  rejected: number
+  cancelled: number
+}
+
+interface UploadBatchOptions {
+  signalFor: (index: number) => AbortSignal | undefined
+  onItemChange: (index: number, patch: Partial<UploadItem>) => void
+}
+
+/**
+ * Sube una a una las imágenes `indices` del envío. Un fallo o una
+ * cancelación solo afecta a su imagen y no detiene a las demás. Al
+ * terminar invalida la caché una sola vez si se analizó alguna imagen.
+ */
+export const runUploadBatch = async (
+  payload: UploadMultiplePayload,
+  indices: number[],
+  { signalFor, onItemChange }: UploadBatchOptions,
+): Promise<UploadBatchResult> => {
+  let current = payload
+  let combined: UploadResponse | null = null
+  let failed = 0
+  let rejected = 0
+  let cancelled = 0
+
+  for (const index of indices) {
+    const signal = signalFor(index)
+    if (signal?.aborted) {
+      onItemChange(index, { status: "cancelled", progress: 0, error: null })
+      cancelled++
+      continue
+    }
+
+    onItemChange(index, { status: "uploading", progress: 0, attempt: 1, error: null, retryable: true })
+    const withChild = hasAdjustedChild(current)
+    const onRetry = (attempt: number, error: unknown) =>
+      onItemChange(index, {
+        status: "retrying",
+        progress: 0,
+        attempt,
+        error: error instanceof Error ? error.message : null,
+      })
+    try {
+      let response = await uploadWithRetry(pickUploadItems(originalPayload(current), [index]), {
+        signal,
+        onProgress: (progress) => onItemChange(index, { progress: withChild ? progress / 2 : progress }),
+        onRetry,
+      })
+
+      // La original ya está analizada: si falla su versión ajustada se avisa, pero la imagen
+      // no cuenta como fallida, porque reintentarla duplicaría la original
+      let warning: string | null = null
+      if (withChild) {
+        try {
+          const child = await uploadWithRetry(adjustedChildPayload(current, index, response), {
+            signal,
+            onProgress: (progress) => onItemChange(index, { status: "uploading", progress: 0.5 + progress / 2 }),
+            onRetry,
+          })
+          response = { ...response, images: [...response.images, ...child.images] }
+        } catch (error) {
+          warning = isAbortError(error)
+            ? "Se analizó la original; la subida de su versión ajustada se canceló."
+            : `Se analizó la original, pero no su versión ajustada: ${error instanceof Error ? error.message : "error desconocido"}`
+        }
+      }
+      onItemChange(index, { status: "done", progress: 1, error: warning, images: response.images })
+
+      if (!combined) {
+        current = withCreatedEcosystem(current, response.ecosystem_id)
+        combined = { ...response, images: [] }
+      }
+      combined.images.push(...response.images)
+    } catch (error) {
+      if (isAbortError(error)) {
+        onItemChange(index, { status: "cancelled", progress: 0, error: null })
+        cancelled++
+      } else {
+        failed++
+        const retryable = isRetryableError(error)
+        if (!retryable) rejected++
+        onItemChange(index, {
+          status: "failed",
+          progress: 0,
+          error: error instanceof Error ? error.message : "Error desconocido al subir la imagen.",
+          retryable,
+        })
+      }
+    }
+  }
+
+  // Una sola invalidación por lote, para que las vistas no recarguen con cada imagen
+  if (combined) invalidateCache("images/", "ecosystems/")
+  return { response: combined, failed, rejected, cancelled }
+}
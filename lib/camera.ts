@@ -0,0 +1,97 @@
+// ------------------------------ //
+// CÁMARAS DE DRON Y RESOLUCIÓN EN TERRENO (GSD)
+// ------------------------------ //
+
+export interface CameraSensor {
+  id: string
+  label: string
+  sensorWidthMm: number
+  sensorHeightMm: number
+  focalLengthMm: number
+  imageWidthPx: number
+  imageHeightPx: number
+}
+
+// Fichas técnicas de los drones más usados en campo (foto 4:3 o 3:2 a resolución completa)
+export const CAMERA_PRESETS: CameraSensor[] = [
+  {
+    id: "dji-mavic-3",
+    label: "DJI Mavic 3 (Hasselblad L2D-20c)",
+    sensorWidthMm: 17.3,
+    sensorHeightMm: 13,
+    focalLengthMm: 12.29,
+    imageWidthPx: 5280,
+    imageHeightPx: 3956,
+  },
+  {
+    id: "dji-phantom-4-pro",
+    label: "DJI Phantom 4 Pro",
+    sensorWidthMm: 13.2,
+    sensorHeightMm: 8.8,
+    focalLengthMm: 8.8,
+    imageWidthPx: 5472,
+    imageHeightPx: 3648,
+  },
+  {
+    id: "dji-mavic-2-pro",
+    label: "DJI Mavic 2 Pro (Hasselblad L1D-20c)",
+    sensorWidthMm: 13.2,
+    sensorHeightMm: 8.8,
+    focalLengthMm: 10.26,
+    imageWidthPx: 5472,
+    imageHeightPx: 3648,
+  },
+  {
+    id: "dji-mini-3-pro",
+    label: "DJI Mini 3 Pro",
+    sensorWidthMm: 9.7,
+    sensorHeightMm: 7.3,
+    focalLengthMm: 6.72,
+    imageWidthPx: 4032,
+    imageHeightPx: 3024,
+  },
+  {
+    id: "dji-air-2s",
+    label: "DJI Air 2S",
+    sensorWidthMm: 13.2,
+    sensorHeightMm: 8.8,
+    focalLengthMm: 8.4,
+    imageWidthPx: 5472,
+    imageHeightPx: 3648,
+  },
+]
+
+export const getCameraPreset = (id: string) => CAMERA_PRESETS.find((camera) => camera.id === id) ?? null
+
+/**
+ * Resolución en terreno (metros por píxel) de una foto nadiral:
+ * ancho del sensor × altura de vuelo / (distancia focal × ancho de la imagen).
+ */
+export const computeGsd = (
+  altitudeM: number,
+  { sensorWidthMm, focalLengthMm, imageWidthPx }: Pick<CameraSensor, "sensorWidthMm" | "focalLengthMm" | "imageWidthPx">,
+): number => {
+  if (altitudeM <= 0 || focalLengthMm <= 0 || imageWidthPx <= 0) return 0
+  return (sensorWidthMm * altitudeM) / (focalLengthMm * imageWidthPx)
+}
+
+// Misma cámara y altura con otro ancho de imagen (foto reducida o recortada): el GSD escala
+// en proporción inversa. Sin ancho conocido se conserva el valor calculado.
+export const scaleGsdToWidth = (metersPerPixel: number, fromWidthPx: number, toWidthPx?: number) =>
+  toWidthPx && toWidthPx > 0 && fromWidthPx > 0 ? (metersPerPixel * fromWidthPx) / toWidthPx : metersPerPixel
+
+// Superficie cubierta por una foto en metros: ancho (lado largo) × alto
+export const computeFootprint = (altitudeM: number, camera: CameraSensor) => {
+  const gsd = computeGsd(altitudeM, camera)
+  return { widthM: gsd * camera.imageWidthPx, heightM: gsd * camera.imageHeightPx }
+}
+
+export const formatGsd = (metersPerPixel: number) =>
+  `${(metersPerPixel * 100).toLocaleString("es-MX", { maximumFractionDigits: 2 })} cm/px`
+
+// Resolución en las dos unidades que usan las vistas: lado del píxel y superficie que representa
+export const formatResolution = (metersPerPixel: number) => {
+  const side = metersPerPixel.toLocaleString("es-MX", { maximumSignificantDigits: 4 })
+  const area = (metersPerPixel * metersPerPixel).toLocaleString("es-MX", { maximumSignificantDigits: 4 })
+  return `${side} m/px · ${area} m²/px`
+}
@@ -0,0 +1,165 @@
+import { getImagesPage, type ImageResult } from "@/lib/api"
+import { selectTrendImages } from "@/lib/image-lineage"
+import type { TrendChoices } from "@/lib/trend-versions"
+
+// ------------------------------ //
+// MAPA COROPLÉTICO DE COBERTURA DE LIRIO
+// ------------------------------ //
+
+export type ChoroplethMode = "latest" | "change"
+
+export type ColorRampId = "infestacion" | "viridis" | "azules"
+
+export const COLOR_RAMPS: Record<ColorRampId, { label: string; colors: string[] }> = {
+  infestacion: { label: "Verde → Rojo", colors: ["#1a9850", "#91cf60", "#fee08b", "#fc8d59", "#d73027"] },
+  viridis: { label: "Viridis", colors: ["#440154", "#3b528b", "#21918c", "#5ec962", "#fde725"] },
+  azules: { label: "Azules", colors: ["#eff3ff", "#bdd7e7", "#6baed6", "#3182bd", "#08519c"] },
+}
+
+// Periodos disponibles para el modo de cambio (días)
+export const CHANGE_PERIODS = [
+  { days: 30, label: "30 días" },
+  { days: 90, label: "3 meses" },
+  { days: 180, label: "6 meses" },
+  { days: 365, label: "1 año" },
+]
+
+export interface EcosystemCoverage {
+  latest: ImageResult
+  // Captura usada como referencia en el modo de cambio; `null` si ninguna es anterior al periodo
+  reference: ImageResult | null
+  // Porcentaje actual o diferencia en puntos porcentuales según el modo (`null`: sin datos para el periodo)
+  value: number | null
+}
+
+export interface ChoroplethScale {
+  min: number
+  max: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Capturas pedidas por ecosistema en cada consulta del mapa
+const COVERAGE_PAGE_SIZE = 10
+
+const sortByDateDesc = (images: ImageResult[]) =>
+  [...images].sort((a, b) => b.capture_date.localeCompare(a.capture_date))
+
+// Inicio del periodo de comparación, contado hacia atrás desde la captura más reciente
+const periodStartOf = (latest: ImageResult, periodDays: number) =>
+  new Date(latest.capture_date).getTime() - periodDays * DAY_MS
+
+/**
+ * Descarga solo las capturas que necesita el mapa: la página más reciente
+ * de cada ecosistema y, en el modo de cambio, la más reciente anterior al
+ * inicio del periodo. Evita recorrer el historial completo de todos.
+ */
+export const loadCoverageImages = async (
+  ecosystemIds: number[],
+  mode: ChoroplethMode,
+  periodDays: number,
+  signal?: AbortSignal,
+): Promise<ImageResult[]> => {
+  const perEcosystem = await Promise.all(
+    ecosystemIds.map(async (ecosystem) => {
+      const recent = await getImagesPage(
+        { ecosystem, ordering: "-capture_date", page: 1, pageSize: COVERAGE_PAGE_SIZE },
+        { signal },
+      )
+      const latest = sortByDateDesc(selectTrendImages(recent.results).filter((image) => image.capture_date))[0]
+      if (mode === "latest" || !latest) return recent.results
+
+      const previous = await getImagesPage(
+        {
+          ecosystem,
+          captureDateTo: new Date(periodStartOf(latest, periodDays)).toISOString(),
+          ordering: "-capture_date",
+          page: 1,
+          pageSize: COVERAGE_PAGE_SIZE,
+        },
+        { signal },
+      )
+      return [...recent.results, ...previous.results]
+    }),
+  )
+  return [...new Map(perEcosystem.flat().map((image) => [image.id, image])).values()]
+}
+
+/**
+ * Agrupa las capturas por ecosistema y calcula el valor a representar:
+ * la cobertura más reciente o su variación respecto a hace `periodDays`.
+ */
+export const computeEcosystemCoverage = (
+  images: ImageResult[],
+  mode: ChoroplethMode,
+  periodDays: number,
+  trendChoices?: TrendChoices,
+): Map<number, EcosystemCoverage> => {
+  const byEcosystem = new Map<number, ImageResult[]>()
+  selectTrendImages(images, trendChoices)
+    .filter((image) => image.capture_date)
+    .forEach((image) => {
+      const list = byEcosystem.get(image.ecosystem) || []
+      list.push(image)
+      byEcosystem.set(image.ecosystem, list)
+    })
+
+  const coverage = new Map<number, EcosystemCoverage>()
+  byEcosystem.forEach((list, ecosystemId) => {
+    const sorted = sortByDateDesc(list)
+    const latest = sorted[0]
+
+    if (mode === "latest") {
+      coverage.set(ecosystemId, { latest, reference: null, value: latest.vegetation_percentage })
+      return
+    }
+
+    // Referencia: la captura más reciente anterior al inicio del periodo. Si no hay ninguna
+    // no se usa otra más cercana: el valor dejaría de corresponder al periodo elegido
+    const periodStart = periodStartOf(latest, periodDays)
+    const reference = sorted.find((image) => new Date(image.capture_date).getTime() <= periodStart) ?? null
+
+    coverage.set(ecosystemId, {
+      latest,
+      reference,
+      value: reference ? latest.vegetation_percentage - reference.vegetation_percentage : null,
+    })
+  })
+
+  return coverage
+}
+
+// Dominio de la escala: 0–100 % para la cobertura, simétrico alrededor de 0 para el cambio
+export const getChoroplethScale = (coverage: Map<number, EcosystemCoverage>, mode: ChoroplethMode): ChoroplethScale => {
+  if (mode === "latest") return { min: 0, max: 100 }
+
+  const maxChange = Math.max(
+    5,
+    ...Array.from(coverage.values()).map((item) => (item.value === null ? 0 : Math.abs(item.value))),
+  )
+  const bound = Math.ceil(maxChange / 5) * 5
+  return { min: -bound, max: bound }
+}
+
+const hexToRgb = (hex: string) => {
+  const value = Number.parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+// Interpola linealmente entre los colores de la rampa
+export const getChoroplethColor = (value: number, scale: ChoroplethScale, rampId: ColorRampId): string => {
+  const colors = COLOR_RAMPS[rampId].colors
+  const t = Math.min(1, Math.max(0, (value - scale.min) / (scale.max - scale.min || 1)))
+  const position = t * (colors.length - 1)
+  const index = Math.min(colors.length - 2, Math.floor(position))
+  const local = position - index
+
+  const from = hexToRgb(colors[index])
+  const to = hexToRgb(colors[index + 1])
+  const mixed = from.map((channel, i) => Math.round(channel + (to[i] - channel) * local))
+  return `rgb(${mixed.join(", ")})`
+}
+
+// Valores equiespaciados para la leyenda
+export const getLegendStops = (scale: ChoroplethScale, steps = 5) =>
+  Array.from({ length: steps }, (_, i) => scale.min + ((scale.max - scale.min) * i) / (steps - 1))
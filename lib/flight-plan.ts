@@ -0,0 +1,299 @@
+import { computeFootprint, computeGsd, type CameraSensor } from "@/lib/camera"
+import { escapeXml, downloadFile } from "@/lib/geo-export"
+import { geodesicDistance } from "@/lib/geodesy"
+import type { LeafletPolygons } from "@/lib/wkt"
+
+// ------------------------------ //
+// PLAN DE VUELO EN CUADRÍCULA (LAWNMOWER) PARA DRON
+// ------------------------------ //
+
+export interface FlightPlanParams {
+  altitudeM: number
+  // Traslape entre fotos consecutivas de una línea y entre líneas vecinas (%)
+  frontOverlap: number
+  sideOverlap: number
+  speedMs: number
+  // Rumbo de las líneas de vuelo en grados desde el norte
+  angleDeg: number
+  camera: CameraSensor
+}
+
+export const DEFAULT_FLIGHT_PARAMS: Omit<FlightPlanParams, "camera"> = {
+  altitudeM: 80,
+  frontOverlap: 75,
+  sideOverlap: 65,
+  speedMs: 8,
+  angleDeg: 0,
+}
+
+export interface FlightWaypoint {
+  lat: number
+  lng: number
+  altitudeM: number
+  // Línea de vuelo a la que pertenece (empieza en 1)
+  transect: number
+}
+
+export interface FlightPlan {
+  params: FlightPlanParams
+  // Dos waypoints por línea (inicio y fin) en el orden de vuelo
+  waypoints: FlightWaypoint[]
+  transects: number
+  gsdMPerPx: number
+  lineSpacingM: number
+  triggerDistanceM: number
+  distanceM: number
+  estimatedPhotos: number
+  estimatedTimeS: number
+}
+
+// Evita congelar el navegador con traslapes o alturas absurdas para el área
+const MAX_TRANSECTS = 400
+const METERS_PER_DEGREE = 111_320
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+/**
+ * Genera las líneas de vuelo paralelas que cubren los polígonos. Se trabaja
+ * en un plano local en metros (suficiente para un cuerpo de agua) girado al
+ * rumbo pedido; cada línea va del primer al último cruce con el contorno.
+ */
+export const generateFlightPlan = (polygons: LeafletPolygons, params: FlightPlanParams): FlightPlan => {
+  const { altitudeM, frontOverlap, sideOverlap, speedMs, angleDeg, camera } = params
+  if (altitudeM <= 0 || speedMs <= 0) throw new Error("La altura y la velocidad deben ser mayores que cero.")
+  if (frontOverlap < 0 || frontOverlap >= 100 || sideOverlap < 0 || sideOverlap >= 100) {
+    throw new Error("Los traslapes deben estar entre 0 % y 99 %.")
+  }
+
+  const vertices = polygons.flatMap((rings) => rings[0] || [])
+  if (vertices.length < 3) throw new Error("No hay un polígono válido para planear el vuelo.")
+
+  // Origen del plano local: promedio de los vértices exteriores
+  const lat0 = vertices.reduce((sum, [lat]) => sum + lat, 0) / vertices.length
+  const lng0 = vertices.reduce((sum, [, lng]) => sum + lng, 0) / vertices.length
+  const metersPerDegreeLng = METERS_PER_DEGREE * Math.cos(toRadians(lat0))
+
+  // Eje u a lo largo de las líneas de vuelo, eje v perpendicular
+  const heading = toRadians(angleDeg)
+  const along: [number, number] = [Math.sin(heading), Math.cos(heading)]
+  const across: [number, number] = [Math.cos(heading), -Math.sin(heading)]
+
+  const toLocal = ([lat, lng]: [number, number]) => {
+    const x = (lng - lng0) * metersPerDegreeLng
+    const y = (lat - lat0) * METERS_PER_DEGREE
+    return { u: x * along[0] + y * along[1], v: x * across[0] + y * across[1] }
+  }
+  const toLatLng = (u: number, v: number): [number, number] => {
+    const x = u * along[0] + v * across[0]
+    const y = u * along[1] + v * across[1]
+    return [lat0 + y / METERS_PER_DEGREE, lng0 + x / metersPerDegreeLng]
+  }
+
+  const rings = polygons.flat().map((ring) => ring.map(toLocal))
+  const vValues = rings.flat().map((point) => point.v)
+  const vMin = Math.min(...vValues)
+  const vMax = Math.max(...vValues)
+
+  const footprint = computeFootprint(altitudeM, camera)
+  // La cámara va en horizontal: el lado largo de la foto queda perpendicular a la línea
+  const lineSpacingM = footprint.widthM * (1 - sideOverlap / 100)
+  const triggerDistanceM = footprint.heightM * (1 - frontOverlap / 100)
+
+  const count = Math.max(1, Math.ceil((vMax - vMin) / lineSpacingM))
+  if (count > MAX_TRANSECTS) {
+    throw new Error(
+      `El plan necesitaría ${count} líneas de vuelo. Sube la altura o reduce el traslape lateral (máximo ${MAX_TRANSECTS}).`,
+    )
+  }
+  // Centra el barrido para dejar el mismo margen en ambos bordes
+  const firstV = vMin + (vMax - vMin - (count - 1) * lineSpacingM) / 2
+
+  const waypoints: FlightWaypoint[] = []
+  let estimatedPhotos = 0
+  for (let i = 0; i < count; i++) {
+    const v = firstV + i * lineSpacingM
+    const crossings: number[] = []
+    for (const ring of rings) {
+      for (let j = 0; j < ring.length; j++) {
+        const a = ring[j]
+        const b = ring[(j + 1) % ring.length]
+        if (a.v <= v !== b.v <= v) crossings.push(a.u + ((v - a.v) / (b.v - a.v)) * (b.u - a.u))
+      }
+    }
+    if (crossings.length < 2) continue
+
+    // Ida y vuelta alternando el sentido de cada línea
+    const transect = waypoints.length / 2 + 1
+    const [uStart, uEnd] =
+      transect % 2 === 1 ? [Math.min(...crossings), Math.max(...crossings)] : [Math.max(...crossings), Math.min(...crossings)]
+    for (const u of [uStart, uEnd]) {
+      const [lat, lng] = toLatLng(u, v)
+      waypoints.push({ lat, lng, altitudeM, transect })
+    }
+    estimatedPhotos += Math.floor(Math.abs(uEnd - uStart) / triggerDistanceM) + 1
+  }
+
+  if (waypoints.length === 0) throw new Error("No se pudieron trazar líneas de vuelo sobre el polígono.")
+
+  const distanceM = waypoints
+    .slice(1)
+    .reduce((sum, waypoint, i) => sum + geodesicDistance([waypoints[i].lat, waypoints[i].lng], [waypoint.lat, waypoint.lng]), 0)
+
+  return {
+    params,
+    waypoints,
+    transects: waypoints.length / 2,
+    gsdMPerPx: computeGsd(altitudeM, camera),
+    lineSpacingM,
+    triggerDistanceM,
+    distanceM,
+    estimatedPhotos,
+    estimatedTimeS: distanceM / speedMs,
+  }
+}
+
+// ------------------------------ //
+// EXPORTACIÓN (KML, QGROUNDCONTROL, MAVLINK)
+// ------------------------------ //
+
+export type FlightPlanFormat = "kml" | "plan" | "waypoints"
+
+export const FLIGHT_PLAN_FORMATS: Record<FlightPlanFormat, { label: string; extension: string; mimeType: string }> = {
+  kml: { label: "KML", extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+  plan: { label: "QGC .plan", extension: "plan", mimeType: "application/json" },
+  waypoints: { label: "MAVLink", extension: "waypoints", mimeType: "text/plain;charset=utf-8" },
+}
+
+// Comandos y marcos de referencia de MAVLink usados en la misión
+const MAV_CMD_NAV_WAYPOINT = 16
+const MAV_CMD_NAV_RETURN_TO_LAUNCH = 20
+const MAV_CMD_NAV_TAKEOFF = 22
+const MAV_CMD_DO_CHANGE_SPEED = 178
+const MAV_CMD_DO_SET_CAM_TRIGG_DIST = 206
+const MAV_FRAME_MISSION = 2
+const MAV_FRAME_GLOBAL_RELATIVE_ALT = 3
+
+interface MissionItem {
+  command: number
+  frame: number
+  params: [number, number, number, number | null, number, number, number]
+}
+
+// Despegue, velocidad de crucero y, por línea, disparo por distancia entre sus dos extremos
+const buildMissionItems = ({ waypoints, params, triggerDistanceM }: FlightPlan): MissionItem[] => {
+  const navItem = (command: number, { lat, lng, altitudeM }: FlightWaypoint): MissionItem => ({
+    command,
+    frame: MAV_FRAME_GLOBAL_RELATIVE_ALT,
+    params: [0, 0, 0, null, lat, lng, altitudeM],
+  })
+  const trigger = (distance: number): MissionItem => ({
+    command: MAV_CMD_DO_SET_CAM_TRIGG_DIST,
+    frame: MAV_FRAME_MISSION,
+    params: [distance, 0, 1, 0, 0, 0, 0],
+  })
+
+  const items: MissionItem[] = [
+    navItem(MAV_CMD_NAV_TAKEOFF, waypoints[0]),
+    { command: MAV_CMD_DO_CHANGE_SPEED, frame: MAV_FRAME_MISSION, params: [1, params.speedMs, -1, 0, 0, 0, 0] },
+  ]
+  for (let i = 0; i < waypoints.length; i += 2) {
+    items.push(
+      navItem(MAV_CMD_NAV_WAYPOINT, waypoints[i]),
+      trigger(triggerDistanceM),
+      navItem(MAV_CMD_NAV_WAYPOINT, waypoints[i + 1]),
+      trigger(0),
+    )
+  }
+  items.push({ command: MAV_CMD_NAV_RETURN_TO_LAUNCH, frame: MAV_FRAME_MISSION, params: [0, 0, 0, 0, 0, 0, 0] })
+  return items
+}
+
+const toKml = (plan: FlightPlan, documentName: string) => {
+  const path = plan.waypoints.map(({ lng, lat, altitudeM }) => `${lng},${lat},${altitudeM}`).join(" ")
+  const points = plan.waypoints.map(
+    ({ lng, lat, altitudeM, transect }, index) =>
+      `      <Placemark><name>WP ${index + 1}</name><description>Línea ${transect}</description>` +
+      `<Point><altitudeMode>relativeToGround</altitudeMode><coordinates>${lng},${lat},${altitudeM}</coordinates></Point></Placemark>`,
+  )
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>${escapeXml(documentName)}</name>`,
+    `    <Style id="ruta"><LineStyle><color>ff00a5ff</color><width>3</width></LineStyle></Style>`,
+    `    <Placemark><name>Ruta de vuelo</name><styleUrl>#ruta</styleUrl>` +
+      `<LineString><tessellate>1</tessellate><altitudeMode>relativeToGround</altitudeMode>` +
+      `<coordinates>${path}</coordinates></LineString></Placemark>`,
+    `    <Folder>`,
+    `      <name>Waypoints</name>`,
+    ...points,
+    `    </Folder>`,
+    `  </Document>`,
+    `</kml>`,
+  ].join("\n")
+}
+
+// Formato JSON de QGroundControl (misión versión 2)
+const toQgcPlan = (plan: FlightPlan) => {
+  const home = plan.waypoints[0]
+  const items = buildMissionItems(plan).map((item, index) => ({
+    ...(item.frame === MAV_FRAME_GLOBAL_RELATIVE_ALT
+      ? { AMSLAltAboveTerrain: null, Altitude: item.params[6], AltitudeMode: 1 }
+      : {}),
+    autoContinue: true,
+    command: item.command,
+    doJumpId: index + 1,
+    frame: item.frame,
+    params: item.params,
+    type: "SimpleItem",
+  }))
+
+  return JSON.stringify(
+    {
+      fileType: "Plan",
+      version: 1,
+      groundStation: "QGroundControl",
+      geoFence: { circles: [], polygons: [], version: 2 },
+      rallyPoints: { points: [], version: 2 },
+      mission: {
+        cruiseSpeed: plan.params.speedMs,
+        hoverSpeed: 5,
+        firmwareType: 12,
+        vehicleType: 2,
+        globalPlanAltitudeMode: 1,
+        plannedHomePosition: [home.lat, home.lng, 0],
+        version: 2,
+        items,
+      },
+    },
+    null,
+    2,
+  )
+}
+
+// Archivo de texto "QGC WPL 110" que leen Mission Planner y QGroundControl; la fila 0 es el inicio
+const toMavlinkWaypoints = (plan: FlightPlan) => {
+  const home = plan.waypoints[0]
+  const rows = [
+    [0, 1, 0, MAV_CMD_NAV_WAYPOINT, 0, 0, 0, 0, home.lat, home.lng, 0, 1],
+    ...buildMissionItems(plan).map((item, index) => [index + 1, 0, item.frame, item.command, ...item.params.map((p) => p ?? 0), 1]),
+  ]
+  return ["QGC WPL 110", ...rows.map((row) => row.join("\t"))].join("\n")
+}
+
+export const serializeFlightPlan = (plan: FlightPlan, format: FlightPlanFormat, documentName: string): string => {
+  if (format === "plan") return toQgcPlan(plan)
+  if (format === "waypoints") return toMavlinkWaypoints(plan)
+  return toKml(plan, documentName)
+}
+
+export const downloadFlightPlan = (plan: FlightPlan, format: FlightPlanFormat, baseName: string) => {
+  const { extension, mimeType } = FLIGHT_PLAN_FORMATS[format]
+  downloadFile(serializeFlightPlan(plan, format, baseName), baseName, extension, mimeType)
+}
+
+export const formatFlightTime = (seconds: number) => {
+  const minutes = Math.round(seconds / 60)
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+}
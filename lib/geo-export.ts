@@ -0,0 +1,145 @@
+import type { Feature, FeatureCollection, GeoJsonProperties, Geometry, Position } from "geojson"
+import type { Ecosystem, ImageResult } from "@/lib/api"
+import { geometryToWKT, parseWKT, rewindGeometry } from "@/lib/wkt"
+
+// ------------------------------ //
+// EXPORTACIÓN DE GEOMETRÍAS (GEOJSON, KML, WKT)
+// ------------------------------ //
+
+export type ExportFormat = "geojson" | "kml" | "wkt"
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  geojson: { label: "GeoJSON", extension: "geojson", mimeType: "application/geo+json" },
+  kml: { label: "KML", extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+  // Texto delimitado con columna WKT: QGIS lo abre como capa con sus atributos
+  wkt: { label: "WKT (CSV)", extension: "csv", mimeType: "text/csv;charset=utf-8" },
+}
+
+/**
+ * Crea el Feature de un ecosistema con las métricas de su captura más
+ * reciente como propiedades. `null` si el ecosistema no tiene polígono.
+ */
+export const buildEcosystemFeature = (ecosystem: Ecosystem, latest?: ImageResult | null): Feature | null => {
+  const geometry = ecosystem.location ? parseWKT(ecosystem.location) : null
+  if (!geometry) return null
+
+  return {
+    type: "Feature",
+    geometry,
+    properties: {
+      id: ecosystem.id,
+      name: ecosystem.name,
+      created_at: ecosystem.created_at,
+      latest_capture_date: latest?.capture_date ?? null,
+      vegetation_percentage: latest?.vegetation_percentage ?? null,
+      vegetation_area_m2: latest?.vegetation_area_m2 ?? null,
+      water_percentage: latest?.water_percentage ?? null,
+      water_area_m2: latest?.water_area_m2 ?? null,
+    },
+  }
+}
+
+export const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const kmlCoordinates = (positions: Position[]) =>
+  `<coordinates>${positions.map((position) => position.join(",")).join(" ")}</coordinates>`
+
+const kmlPolygon = (rings: Position[][]) =>
+  `<Polygon>` +
+  `<outerBoundaryIs><LinearRing>${kmlCoordinates(rings[0])}</LinearRing></outerBoundaryIs>` +
+  rings
+    .slice(1)
+    .map((ring) => `<innerBoundaryIs><LinearRing>${kmlCoordinates(ring)}</LinearRing></innerBoundaryIs>`)
+    .join("") +
+  `</Polygon>`
+
+const kmlGeometry = (geometry: Geometry): string => {
+  switch (geometry.type) {
+    case "Point":
+      return `<Point>${kmlCoordinates([geometry.coordinates])}</Point>`
+    case "LineString":
+      return `<LineString>${kmlCoordinates(geometry.coordinates)}</LineString>`
+    case "Polygon":
+      return kmlPolygon(geometry.coordinates)
+    case "MultiPoint":
+      return `<MultiGeometry>${geometry.coordinates.map((c) => `<Point>${kmlCoordinates([c])}</Point>`).join("")}</MultiGeometry>`
+    case "MultiLineString":
+      return `<MultiGeometry>${geometry.coordinates.map((c) => `<LineString>${kmlCoordinates(c)}</LineString>`).join("")}</MultiGeometry>`
+    case "MultiPolygon":
+      return `<MultiGeometry>${geometry.coordinates.map(kmlPolygon).join("")}</MultiGeometry>`
+    case "GeometryCollection":
+      return `<MultiGeometry>${geometry.geometries.map(kmlGeometry).join("")}</MultiGeometry>`
+  }
+}
+
+const kmlExtendedData = (properties: GeoJsonProperties) =>
+  `<ExtendedData>${Object.entries(properties || {})
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+    .join("")}</ExtendedData>`
+
+const toKml = (collection: FeatureCollection, documentName: string) => {
+  const placemarks = collection.features
+    .filter((feature) => feature.geometry)
+    .map((feature, index) => {
+      const name = feature.properties?.name ?? `Elemento ${index + 1}`
+      return (
+        `    <Placemark><name>${escapeXml(String(name))}</name>` +
+        `${kmlExtendedData(feature.properties)}${kmlGeometry(feature.geometry as Geometry)}</Placemark>`
+      )
+    })
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>${escapeXml(documentName)}</name>`,
+    ...placemarks,
+    `  </Document>`,
+    `</kml>`,
+  ].join("\n")
+}
+
+const csvValue = (value: unknown) => {
+  if (value === null || value === undefined) return ""
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toWktCsv = (collection: FeatureCollection) => {
+  const features = collection.features.filter((feature) => feature.geometry)
+  const keys = Array.from(new Set(features.flatMap((feature) => Object.keys(feature.properties || {}))))
+  const rows = features.map((feature) =>
+    [geometryToWKT(feature.geometry as Geometry, null), ...keys.map((key) => feature.properties?.[key])].map(csvValue).join(","),
+  )
+  return [["wkt", ...keys].join(","), ...rows].join("\n")
+}
+
+export const serializeFeatures = (features: Feature[], format: ExportFormat, documentName: string): string => {
+  const collection: FeatureCollection = {
+    type: "FeatureCollection",
+    features: features.map((feature) => (feature.geometry ? { ...feature, geometry: rewindGeometry(feature.geometry) } : feature)),
+  }
+  if (format === "kml") return toKml(collection, documentName)
+  if (format === "wkt") return toWktCsv(collection)
+  return JSON.stringify(collection, null, 2)
+}
+
+// Descarga el contenido como archivo desde el navegador
+export const downloadFile = (content: string, baseName: string, extension: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType })
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = `${baseName.replace(/\s+/g, "-")}.${extension}`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  window.URL.revokeObjectURL(url)
+}
+
+export const downloadFeatures = (features: Feature[], format: ExportFormat, baseName: string) => {
+  const { extension, mimeType } = EXPORT_FORMATS[format]
+  downloadFile(serializeFeatures(features, format, baseName), baseName, extension, mimeType)
+}
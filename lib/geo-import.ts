@@ -0,0 +1,119 @@
+import type { Feature, FeatureCollection, GeoJsonProperties, Geometry, MultiPolygon, Polygon, Position } from "geojson"
+
+// ------------------------------ //
+// IMPORTACIÓN DE LÍMITES (GEOJSON, KML/KMZ, SHAPEFILE)
+// ------------------------------ //
+
+export interface ImportedBoundary {
+  id: string
+  name: string
+  geometry: Polygon | MultiPolygon
+  properties: GeoJsonProperties
+}
+
+export const BOUNDARY_FILE_ACCEPT = ".geojson,.json,.kml,.kmz,.zip"
+
+// Atributos habituales que contienen el nombre del elemento
+const NAME_KEYS = ["name", "Name", "NAME", "nombre", "Nombre", "NOMBRE", "NOM_CUERPO", "title"]
+
+const getFeatureName = (properties: GeoJsonProperties, fallback: string): string => {
+  const key = NAME_KEYS.find((k) => properties && typeof properties[k] === "string" && properties[k].trim() !== "")
+  return key ? (properties as Record<string, string>)[key].trim() : fallback
+}
+
+// Reduce cualquier geometría a sus polígonos (las líneas y puntos no delimitan un área)
+const toPolygonal = (geometry: Geometry | null): Polygon | MultiPolygon | null => {
+  if (!geometry) return null
+  if (geometry.type === "Polygon" || geometry.type === "MultiPolygon") return geometry
+  if (geometry.type !== "GeometryCollection") return null
+
+  const polygons = geometry.geometries
+    .map(toPolygonal)
+    .filter((g): g is Polygon | MultiPolygon => g !== null)
+    .flatMap((g): Position[][][] => (g.type === "Polygon" ? [g.coordinates] : g.coordinates))
+
+  if (polygons.length === 0) return null
+  return polygons.length === 1 ? { type: "Polygon", coordinates: polygons[0] } : { type: "MultiPolygon", coordinates: polygons }
+}
+
+const toFeatures = (data: unknown): Feature[] => {
+  const geoJson = data as FeatureCollection | Feature | Geometry
+  if (!geoJson || typeof geoJson !== "object" || !("type" in geoJson)) {
+    throw new Error("El archivo no contiene GeoJSON válido.")
+  }
+  if (geoJson.type === "FeatureCollection") return geoJson.features
+  if (geoJson.type === "Feature") return [geoJson]
+  return [{ type: "Feature", geometry: geoJson, properties: {} }]
+}
+
+const parseKmlText = async (text: string): Promise<Feature[]> => {
+  const { kml } = await import("@tmcw/togeojson")
+  const document = new DOMParser().parseFromString(text, "text/xml")
+  if (document.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("El archivo KML no es un XML válido.")
+  }
+  return kml(document).features as Feature[]
+}
+
+// Un KMZ es un ZIP con un doc.kml (o cualquier .kml) en su interior
+const parseKmz = async (buffer: ArrayBuffer): Promise<Feature[]> => {
+  const { default: JSZip } = await import("jszip")
+  const zip = await JSZip.loadAsync(buffer)
+  const kmlFile = zip.file("doc.kml") || zip.file(/\.kml$/i)[0]
+  if (!kmlFile) throw new Error("El archivo KMZ no contiene ningún KML.")
+  return parseKmlText(await kmlFile.async("text"))
+}
+
+// ZIP con uno o varios shapefiles (.shp + .dbf + .prj); shpjs reproyecta a WGS84
+const parseZippedShapefile = async (buffer: ArrayBuffer): Promise<Feature[]> => {
+  const { default: shp } = await import("shpjs")
+  const result = await shp(buffer)
+  return (Array.isArray(result) ? result : [result]).flatMap((collection) => collection.features)
+}
+
+/**
+ * Lee un archivo de límites y devuelve sus elementos poligonales en WGS84.
+ * Lanza un Error con un mensaje para el usuario si no se puede interpretar.
+ */
+export const parseBoundaryFile = async (file: File): Promise<ImportedBoundary[]> => {
+  const extension = file.name.split(".").pop()?.toLowerCase() || ""
+  let features: Feature[]
+
+  try {
+    switch (extension) {
+      case "geojson":
+      case "json":
+        features = toFeatures(JSON.parse(await file.text()))
+        break
+      case "kml":
+        features = await parseKmlText(await file.text())
+        break
+      case "kmz":
+        features = await parseKmz(await file.arrayBuffer())
+        break
+      case "zip":
+        features = await parseZippedShapefile(await file.arrayBuffer())
+        break
+      default:
+        throw new Error(`Formato no soportado (.${extension}). Usa GeoJSON, KML, KMZ o un Shapefile comprimido (.zip).`)
+    }
+  } catch (error) {
+    if (error instanceof SyntaxError) throw new Error("El archivo GeoJSON no es un JSON válido.")
+    throw error instanceof Error ? error : new Error("No se pudo leer el archivo.")
+  }
+
+  const boundaries = features
+    .map((feature, index) => ({ feature, index, geometry: toPolygonal(feature.geometry) }))
+    .filter((item): item is { feature: Feature; index: number; geometry: Polygon | MultiPolygon } => !!item.geometry)
+    .map(({ feature, index, geometry }) => ({
+      id: `${file.name}-${index}`,
+      name: getFeatureName(feature.properties, `Elemento ${index + 1}`),
+      geometry,
+      properties: feature.properties,
+    }))
+
+  if (boundaries.length === 0) {
+    throw new Error("El archivo no contiene polígonos (solo se importan áreas).")
+  }
+  return boundaries
+}
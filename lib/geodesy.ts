@@ -0,0 +1,148 @@
+import type { LeafletPolygons } from "@/lib/wkt"
+
+// ------------------------------ //
+// MEDICIONES GEODÉSICAS (ÁREA Y PERÍMETRO)
+// ------------------------------ //
+
+// Elipsoide WGS84
+const WGS84_A = 6378137
+const WGS84_F = 1 / 298.257223563
+const WGS84_B = WGS84_A * (1 - WGS84_F)
+// Radio de la esfera con la misma superficie que el elipsoide (error de área < 0.3 %)
+const AUTHALIC_RADIUS = 6371007.181
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+export interface PolygonMeasurement {
+  areaM2: number
+  perimeterM: number
+}
+
+// Distancia por haversine; respaldo cuando Vincenty no converge (puntos casi antípodas)
+const haversineDistance = ([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]) => {
+  const dLat = toRadians(lat2 - lat1)
+  const dLng = toRadians(lng2 - lng1)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2
+  return 2 * AUTHALIC_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/** Distancia sobre el elipsoide WGS84 (fórmula inversa de Vincenty), en metros. */
+export const geodesicDistance = (from: [number, number], to: [number, number]): number => {
+  const [lat1, lng1] = from
+  const [lat2, lng2] = to
+  if (lat1 === lat2 && lng1 === lng2) return 0
+
+  const L = toRadians(lng2 - lng1)
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat1)))
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat2)))
+  const sinU1 = Math.sin(U1)
+  const cosU1 = Math.cos(U1)
+  const sinU2 = Math.sin(U2)
+  const cosU2 = Math.cos(U2)
+
+  let lambda = L
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const sinLambda = Math.sin(lambda)
+    const cosLambda = Math.cos(lambda)
+    const sinSigma = Math.sqrt((cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2)
+    if (sinSigma === 0) return 0
+
+    const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda
+    const sigma = Math.atan2(sinSigma, cosSigma)
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma
+    const cosSqAlpha = 1 - sinAlpha ** 2
+    const cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0
+    const C = (WGS84_F / 16) * cosSqAlpha * (4 + WGS84_F * (4 - 3 * cosSqAlpha))
+    const previous = lambda
+    lambda =
+      L +
+      (1 - C) * WGS84_F * sinAlpha * (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)))
+
+    if (Math.abs(lambda - previous) < 1e-12) {
+      const uSq = (cosSqAlpha * (WGS84_A ** 2 - WGS84_B ** 2)) / WGS84_B ** 2
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)))
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)))
+      const deltaSigma =
+        B *
+        sinSigma *
+        (cos2SigmaM +
+          (B / 4) *
+            (cosSigma * (-1 + 2 * cos2SigmaM ** 2) -
+              (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)))
+      return WGS84_B * A * (sigma - deltaSigma)
+    }
+  }
+
+  return haversineDistance(from, to)
+}
+
+// Área de un anillo sobre la esfera auténtica (exceso esférico por trapecios)
+const ringArea = (ring: [number, number][]): number => {
+  let total = 0
+  for (let i = 0; i < ring.length; i++) {
+    const [lat1, lng1] = ring[i]
+    const [lat2, lng2] = ring[(i + 1) % ring.length]
+    total += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)))
+  }
+  return Math.abs((total * AUTHALIC_RADIUS * AUTHALIC_RADIUS) / 2)
+}
+
+const ringLength = (ring: [number, number][]): number => {
+  if (ring.length < 2) return 0
+  let total = 0
+  for (let i = 0; i < ring.length; i++) {
+    total += geodesicDistance(ring[i], ring[(i + 1) % ring.length])
+  }
+  return total
+}
+
+/**
+ * Área (descontando huecos) y perímetro (incluidos los bordes de los huecos)
+ * de uno o varios polígonos en coordenadas [lat, lng].
+ */
+export const measurePolygons = (polygons: LeafletPolygons): PolygonMeasurement =>
+  polygons.reduce(
+    (measurement, [outer, ...holes]) => ({
+      areaM2:
+        measurement.areaM2 + Math.max(0, ringArea(outer) - holes.reduce((sum, hole) => sum + ringArea(hole), 0)),
+      perimeterM: measurement.perimeterM + [outer, ...holes].reduce((sum, ring) => sum + ringLength(ring), 0),
+    }),
+    { areaM2: 0, perimeterM: 0 },
+  )
+
+/**
+ * Distancia aproximada del punto al borde más cercano de los polígonos, en
+ * metros. Usa un plano local centrado en el punto: basta para unos km.
+ */
+export const distanceToPolygonsM = ([lat, lng]: [number, number], polygons: LeafletPolygons): number => {
+  const metersPerDegreeLat = (Math.PI * AUTHALIC_RADIUS) / 180
+  const metersPerDegreeLng = metersPerDegreeLat * Math.cos(toRadians(lat))
+  const toLocal = ([pLat, pLng]: [number, number]) => [(pLng - lng) * metersPerDegreeLng, (pLat - lat) * metersPerDegreeLat]
+
+  let min = Infinity
+  for (const ring of polygons.flat()) {
+    for (let i = 0; i < ring.length; i++) {
+      const [ax, ay] = toLocal(ring[i])
+      const [bx, by] = toLocal(ring[(i + 1) % ring.length])
+      const lengthSq = (bx - ax) ** 2 + (by - ay) ** 2
+      // Proyección del origen (el punto) sobre el segmento, acotada a sus extremos
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * (bx - ax) + ay * (by - ay)) / lengthSq))
+      min = Math.min(min, Math.hypot(ax + t * (bx - ax), ay + t * (by - ay)))
+    }
+  }
+  return min
+}
+
+// ------------------------------ //
+// FORMATO
+// ------------------------------ //
+
+const numberFormat = (digits: number) =>
+  new Intl.NumberFormat("es-MX", { minimumFractionDigits: digits, maximumFractionDigits: digits })
+
+export const formatAreaM2 = (areaM2: number) => `${numberFormat(0).format(areaM2)} m²`
+export const formatAreaHa = (areaM2: number) => `${numberFormat(2).format(areaM2 / 10_000)} ha`
+export const formatAreaKm2 = (areaM2: number) => `${numberFormat(3).format(areaM2 / 1_000_000)} km²`
+
+export const formatLength = (meters: number) =>
+  meters >= 1000 ? `${numberFormat(2).format(meters / 1000)} km` : `${numberFormat(0).format(meters)} m`
@@ -0,0 +1,46 @@
+import type { ImageAdjustments } from "@/lib/api"
+import { applyAdjustments } from "@/lib/pixel-adjustments"
+
+export { isNeutralAdjustment } from "@/lib/pixel-adjustments"
+
+// ------------------------------ //
+// AJUSTES DE BRILLO, CONTRASTE Y SATURACIÓN SOBRE LOS PÍXELES
+// ------------------------------ //
+
+export const NEUTRAL_ADJUSTMENTS: ImageAdjustments = { brightness: 100, contrast: 100, saturate: 100 }
+
+// Mismo orden que `filter: brightness() contrast() saturate()` en la vista previa
+export const adjustmentsToCssFilter = ({ brightness, contrast, saturate }: ImageAdjustments) =>
+  `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturate}%)`
+
+const OUTPUT_TYPES = ["image/jpeg", "image/png", "image/webp"]
+
+export const adjustedFileName = (name: string) => {
+  const dot = name.lastIndexOf(".")
+  return dot > 0 ? `${name.slice(0, dot)}-ajustada${name.slice(dot)}` : `${name}-ajustada`
+}
+
+/**
+ * Dibuja la foto en un canvas, le aplica los ajustes y la vuelve a codificar
+ * en el mismo formato. Los metadatos EXIF se pierden: se leen antes de ajustar.
+ */
+export const renderAdjustedImage = async (file: File, adjustments: ImageAdjustments): Promise<File> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+  const canvas = document.createElement("canvas")
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  if (!context) throw new Error("El navegador no permite procesar imágenes en canvas.")
+
+  context.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height)
+  applyAdjustments(imageData.data, adjustments)
+  context.putImageData(imageData, 0, 0)
+
+  const type = OUTPUT_TYPES.includes(file.type) ? file.type : "image/jpeg"
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.92))
+  if (!blob) throw new Error(`No se pudo generar la versión ajustada de ${file.name}.`)
+
+  return new File([blob], adjustedFileName(file.name), { type, lastModified: file.lastModified })
+}
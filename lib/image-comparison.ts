@@ -0,0 +1,99 @@
+import type { ImageResult } from "@/lib/api"
+
+// ------------------------------ //
+// COMPARACIÓN ANTES / DESPUÉS ENTRE DOS CAPTURAS
+// ------------------------------ //
+
+export type ComparisonMode = "swipe" | "side-by-side" | "blend"
+
+export const COMPARISON_MODES: { value: ComparisonMode; label: string }[] = [
+  { value: "swipe", label: "Cortinilla" },
+  { value: "side-by-side", label: "Lado a lado" },
+  { value: "blend", label: "Transparencia" },
+]
+
+// Zoom y desplazamiento compartidos por las dos imágenes, en píxeles del visor
+export interface ComparisonView {
+  scale: number
+  x: number
+  y: number
+}
+
+export const INITIAL_VIEW: ComparisonView = { scale: 1, x: 0, y: 0 }
+
+export const MAX_COMPARISON_ZOOM = 8
+
+export interface MetricDelta {
+  label: string
+  unit: string
+  before: number
+  after: number
+  diff: number
+  // Si el aumento es deseable (agua) o indica más infestación (lirio)
+  higherIsBetter: boolean
+}
+
+// Ordena las dos capturas por fecha: la primera es el "antes"
+export const orderCaptures = (a: ImageResult, b: ImageResult): [ImageResult, ImageResult] =>
+  (a.capture_date || "").localeCompare(b.capture_date || "") <= 0 ? [a, b] : [b, a]
+
+export const captureDelta = (before: ImageResult, after: ImageResult): MetricDelta[] => {
+  const delta = (
+    label: string,
+    unit: string,
+    key: "vegetation_percentage" | "vegetation_area_m2" | "water_percentage" | "water_area_m2",
+    higherIsBetter: boolean,
+  ): MetricDelta => ({
+    label,
+    unit,
+    before: before[key],
+    after: after[key],
+    diff: Number((after[key] - before[key]).toFixed(2)),
+    higherIsBetter,
+  })
+
+  return [
+    delta("Lirio", "%", "vegetation_percentage", false),
+    delta("Área de lirio", "m²", "vegetation_area_m2", false),
+    delta("Agua", "%", "water_percentage", true),
+    delta("Área de agua", "m²", "water_area_m2", true),
+  ]
+}
+
+// Días transcurridos entre las dos capturas (0 si falta alguna fecha)
+export const daysBetween = (before: ImageResult, after: ImageResult) => {
+  const start = new Date(before.capture_date).getTime()
+  const end = new Date(after.capture_date).getTime()
+  if (Number.isNaN(start) || Number.isNaN(end)) return 0
+  return Math.round(Math.abs(end - start) / 86_400_000)
+}
+
+/**
+ * Limita el desplazamiento para que la imagen ampliada siempre cubra el
+ * visor; con escala 1 la vista vuelve a quedar centrada.
+ */
+export const clampView = (view: ComparisonView, width: number, height: number): ComparisonView => {
+  const scale = Math.min(MAX_COMPARISON_ZOOM, Math.max(1, view.scale))
+  return {
+    scale,
+    x: Math.min(0, Math.max(width - width * scale, view.x)),
+    y: Math.min(0, Math.max(height - height * scale, view.y)),
+  }
+}
+
+// Amplía o reduce manteniendo fijo el punto del visor bajo el puntero
+export const zoomView = (
+  view: ComparisonView,
+  factor: number,
+  origin: { x: number; y: number },
+  width: number,
+  height: number,
+): ComparisonView => {
+  const scale = Math.min(MAX_COMPARISON_ZOOM, Math.max(1, view.scale * factor))
+  const ratio = scale / view.scale
+  return clampView(
+    { scale, x: origin.x - (origin.x - view.x) * ratio, y: origin.y - (origin.y - view.y) * ratio },
+    width,
+    height,
+  )
+}
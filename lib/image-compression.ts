@@ -0,0 +1,140 @@
+import type { CaptureMetadata } from "@/lib/api"
+import {
+  getOutputType,
+  getTargetSize,
+  type CompressionOptions,
+  type CompressionRequest,
+  type CompressionResponse,
+} from "@/lib/image-resize"
+
+export type { CompressionOptions } from "@/lib/image-resize"
+
+// ------------------------------ //
+// REDUCCIÓN Y COMPRESIÓN DE IMÁGENES ANTES DE SUBIRLAS
+// ------------------------------ //
+
+export const DEFAULT_COMPRESSION_OPTIONS: CompressionOptions = { maxDimensionPx: 3000, quality: 0.8 }
+
+export const COMPRESSION_MAX_DIMENSIONS = [1600, 2048, 3000, 4000, 6000]
+
+export interface CompressedImage {
+  file: File
+  originalSize: number
+  // Reducción lineal (ancho original / ancho final): 1 si la imagen conserva su tamaño
+  scale: number
+  width: number
+  height: number
+}
+
+const withExtension = (name: string, type: string) => {
+  const extension = type === "image/webp" ? ".webp" : ".jpg"
+  const dot = name.lastIndexOf(".")
+  return `${dot > 0 ? name.slice(0, dot) : name}${extension}`
+}
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Al reducir la imagen cada píxel cubre más terreno
+export const scaleResolution = (metersPerPixel: number, scale: number) => metersPerPixel * scale
+
+// ------------------------------ //
+// EJECUCIÓN EN WEB WORKER
+// ------------------------------ //
+
+let worker: Worker | null = null
+let nextRequestId = 1
+const pendingRequests = new Map<number, { resolve: (response: CompressionResponse) => void }>()
+
+const getWorker = () => {
+  if (worker) return worker
+  worker = new Worker(new URL("./image-compression.worker.ts", import.meta.url))
+  worker.onmessage = (event: MessageEvent<CompressionResponse>) => {
+    pendingRequests.get(event.data.id)?.resolve(event.data)
+    pendingRequests.delete(event.data.id)
+  }
+  return worker
+}
+
+const supportsWorker = () => typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined"
+
+// Respaldo para navegadores sin OffscreenCanvas: misma operación en el hilo principal
+const compressOnMainThread = async (file: File, { maxDimensionPx, quality }: CompressionOptions) => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+  const { width, height } = getTargetSize(bitmap.width, bitmap.height, maxDimensionPx)
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("El navegador no permite procesar imágenes en canvas.")
+
+  context.imageSmoothingQuality = "high"
+  context.drawImage(bitmap, 0, 0, width, height)
+  const originalWidth = bitmap.width
+  bitmap.close()
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, getOutputType(file.type), quality))
+  if (!blob) throw new Error(`No se pudo comprimir ${file.name}.`)
+  return { blob, width, height, originalWidth }
+}
+
+const compressInWorker = (file: File, options: CompressionOptions) =>
+  new Promise<{ blob: Blob; width: number; height: number; originalWidth: number }>((resolve, reject) => {
+    const id = nextRequestId++
+    pendingRequests.set(id, {
+      resolve: (response) => ("error" in response ? reject(new Error(response.error)) : resolve(response)),
+    })
+    const request: CompressionRequest = { id, file, options }
+    getWorker().postMessage(request)
+  })
+
+/**
+ * Reduce la imagen a `maxDimensionPx` y la vuelve a codificar con la calidad
+ * indicada. Si el resultado pesa más que el original (fotos ya pequeñas o muy
+ * comprimidas) se conserva el archivo original.
+ */
+export const compressImage = async (file: File, options: CompressionOptions): Promise<CompressedImage> => {
+  const { blob, width, height, originalWidth } = supportsWorker()
+    ? await compressInWorker(file, options)
+    : await compressOnMainThread(file, options)
+  const scale = originalWidth / width
+
+  if (blob.size >= file.size && scale === 1) {
+    return { file, originalSize: file.size, scale: 1, width, height }
+  }
+
+  const type = blob.type || getOutputType(file.type)
+  return {
+    file: new File([blob], withExtension(file.name, type), { type, lastModified: file.lastModified }),
+    originalSize: file.size,
+    scale,
+    width,
+    height,
+  }
+}
+
+/**
+ * Archivos a subir con la resolución en terreno y las dimensiones de los
+ * metadatos corregidas según la reducción de cada imagen.
+ */
+export const prepareCompressedUpload = (
+  files: File[],
+  results: (CompressedImage | null)[],
+  resolutions: (number | null)[],
+  captures: (CaptureMetadata | null)[],
+) => ({
+  images: files.map((file, index) => results[index]?.file ?? file),
+  resolutionsMPerPx: resolutions.map((value, index) => {
+    const result = results[index]
+    return value !== null && result ? scaleResolution(value, result.scale) : value
+  }),
+  captureMetadata: captures.map((capture, index) => {
+    const result = results[index]
+    return capture && result && result.scale !== 1
+      ? { ...capture, image_width_px: result.width, image_height_px: result.height }
+      : capture
+  }),
+})
@@ -0,0 +1,25 @@
+import { getOutputType, getTargetSize, type CompressionRequest, type CompressionResponse } from "@/lib/image-resize"
+
+// Decodifica, reduce y recodifica fuera del hilo principal para no congelar el asistente
+const respond = (response: CompressionResponse) => self.postMessage(response)
+
+self.onmessage = async (event: MessageEvent<CompressionRequest>) => {
+  const { id, file, options } = event.data
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+    const { width, height } = getTargetSize(bitmap.width, bitmap.height, options.maxDimensionPx)
+    const canvas = new OffscreenCanvas(width, height)
+    const context = canvas.getContext("2d")
+    if (!context) throw new Error("El navegador no permite procesar imágenes en segundo plano.")
+
+    context.imageSmoothingQuality = "high"
+    context.drawImage(bitmap, 0, 0, width, height)
+    const originalWidth = bitmap.width
+    bitmap.close()
+
+    const blob = await canvas.convertToBlob({ type: getOutputType(file.type), quality: options.quality })
+    respond({ id, blob, width, height, originalWidth })
+  } catch (error) {
+    respond({ id, error: error instanceof Error ? error.message : `No se pudo comprimir ${file.name}.` })
+  }
+}
@@ -0,0 +1,138 @@
+import type { ImageResult } from "@/lib/api"
+
+// ------------------------------ //
+// HASH PERCEPTUAL (pHash) PARA DETECTAR FOTOS DUPLICADAS
+// ------------------------------ //
+
+const SAMPLE_SIZE = 32
+const HASH_SIZE = 8
+
+// Hasta 10 de 64 bits distintos: la misma foto recomprimida, redimensionada o con otro brillo
+export const DUPLICATE_HASH_DISTANCE = 10
+
+// Tabla de cosenos de la DCT-II para las primeras HASH_SIZE frecuencias
+const COSINES = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Array.from({ length: SAMPLE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SAMPLE_SIZE))),
+)
+
+/**
+ * Calcula el pHash de 64 bits de luminancias en escala de grises de
+ * SAMPLE_SIZE × SAMPLE_SIZE: cada bit indica si la frecuencia baja
+ * correspondiente de la DCT supera la mediana. Se devuelve en hexadecimal.
+ */
+export const perceptualHashFromGray = (gray: Float64Array) => {
+  const coefficients: number[] = []
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0
+      for (let y = 0; y < SAMPLE_SIZE; y++) {
+        const rowCos = COSINES[v][y]
+        for (let x = 0; x < SAMPLE_SIZE; x++) sum += gray[y * SAMPLE_SIZE + x] * COSINES[u][x] * rowCos
+      }
+      coefficients.push(sum)
+    }
+  }
+
+  // El término continuo (brillo medio) no entra en la mediana
+  const sorted = coefficients.slice(1).sort((a, b) => a - b)
+  const median = (sorted[31] + sorted[32]) / 2
+
+  let hex = ""
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0
+    for (let bit = 0; bit < 4; bit++) nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0)
+    hex += nibble.toString(16)
+  }
+  return hex
+}
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4]
+
+// Distancia de Hamming entre dos hashes hexadecimales
+export const hashDistance = (a: string, b: string) => {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)]
+  return distance
+}
+
+export const computePerceptualHash = async (source: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(source, {
+    imageOrientation: "from-image",
+    resizeWidth: SAMPLE_SIZE,
+    resizeHeight: SAMPLE_SIZE,
+    resizeQuality: "high",
+  })
+  const canvas = document.createElement("canvas")
+  canvas.width = SAMPLE_SIZE
+  canvas.height = SAMPLE_SIZE
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  if (!context) throw new Error("El navegador no permite procesar imágenes en canvas.")
+
+  context.drawImage(bitmap, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE)
+  bitmap.close()
+  const { data } = context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE)
+
+  const gray = new Float64Array(SAMPLE_SIZE * SAMPLE_SIZE)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return perceptualHashFromGray(gray)
+}
+
+// Las fotos ya subidas se descargan una sola vez por sesión; `null` si el servidor no permite leerlas (CORS)
+const remoteHashes = new Map<string, Promise<string | null>>()
+
+export const computeRemoteHash = (url: string) => {
+  let hash = remoteHashes.get(url)
+  if (!hash) {
+    hash = fetch(url)
+      .then((response) => (response.ok ? response.blob() : Promise.reject(new Error(`HTTP ${response.status}`))))
+      .then(computePerceptualHash)
+      .catch((error) => {
+        console.warn(`No se pudo calcular el hash de ${url}:`, error)
+        return null
+      })
+    remoteHashes.set(url, hash)
+  }
+  return hash
+}
+
+// ------------------------------ //
+// BÚSQUEDA DE DUPLICADOS
+// ------------------------------ //
+
+export interface DuplicateMatch {
+  // Foto del lote marcada como posible duplicado
+  index: number
+  distance: number
+  // Foto anterior del mismo lote con la que coincide…
+  batchIndex: number | null
+  // …o captura ya subida al ecosistema
+  historical: ImageResult | null
+}
+
+/**
+ * Compara cada foto con las anteriores del lote y con las capturas ya
+ * subidas; de cada par solo se marca la posterior, que es la que conviene
+ * omitir. Se queda con la coincidencia más cercana de cada foto.
+ */
+export const findDuplicates = (
+  fileHashes: (string | null)[],
+  historicalHashes: { image: ImageResult; hash: string }[],
+): DuplicateMatch[] =>
+  fileHashes.flatMap((hash, index) => {
+    if (!hash) return []
+    const candidates: DuplicateMatch[] = [
+      ...fileHashes.slice(0, index).flatMap((other, batchIndex) =>
+        other ? [{ index, distance: hashDistance(hash, other), batchIndex, historical: null }] : [],
+      ),
+      ...historicalHashes.map((reference) => ({
+        index,
+        distance: hashDistance(hash, reference.hash),
+        batchIndex: null,
+        historical: reference.image,
+      })),
+    ]
+    const matches = candidates.filter((candidate) => candidate.distance <= DUPLICATE_HASH_DISTANCE)
+    return matches.length > 0 ? [matches.reduce((best, match) => (match.distance < best.distance ? match : best))] : []
+  })
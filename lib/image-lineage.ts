@@ -0,0 +1,87 @@
+import type { ImageResult } from "@/lib/api"
+import { getTrendChoices, type TrendChoices } from "@/lib/trend-versions"
+
+// ------------------------------ //
+// ÁRBOL DE VERSIONES DE UNA CAPTURA (ORIGINAL Y AJUSTES)
+// ------------------------------ //
+
+export interface ImageVersion {
+  image: ImageResult
+  // 0 para la original, 1 para sus ajustes directos, etc.
+  depth: number
+}
+
+const indexById = (images: ImageResult[]) => new Map(images.map((image) => [image.id, image]))
+
+/**
+ * Id de la original de la que deriva la captura, subiendo por `parent_image`.
+ * Si un antecesor no está cargado se devuelve su id igualmente.
+ */
+export const lineageRootId = (image: ImageResult, byId: Map<number, ImageResult>) => {
+  let current = image
+  const visited = new Set<number>()
+  while (current.parent_image !== null && !visited.has(current.id)) {
+    visited.add(current.id)
+    const parent = byId.get(current.parent_image)
+    if (!parent) return current.parent_image
+    current = parent
+  }
+  return current.id
+}
+
+const childrenOf = (image: ImageResult, images: ImageResult[]) => {
+  const ids = new Set([...image.adjusted_images, ...images.filter((i) => i.parent_image === image.id).map((i) => i.id)])
+  return images.filter((candidate) => ids.has(candidate.id)).sort((a, b) => a.id - b.id)
+}
+
+/**
+ * Todas las versiones del árbol al que pertenece la captura, en orden de
+ * recorrido (cada ajuste debajo de la versión de la que deriva).
+ */
+export const buildLineage = (image: ImageResult, images: ImageResult[]): ImageVersion[] => {
+  const byId = indexById([image, ...images])
+  const root = byId.get(lineageRootId(image, byId)) ?? image
+  const all = [...byId.values()]
+
+  const versions: ImageVersion[] = []
+  const visit = (node: ImageResult, depth: number) => {
+    if (versions.some((version) => version.image.id === node.id)) return
+    versions.push({ image: node, depth })
+    childrenOf(node, all).forEach((child) => visit(child, depth + 1))
+  }
+  visit(root, 0)
+  return versions
+}
+
+// Versiones referenciadas por el árbol que no están en la lista cargada
+export const hasMissingVersions = (versions: ImageVersion[]) => {
+  const loaded = new Set(versions.map((version) => version.image.id))
+  return versions.some(
+    ({ image }) =>
+      (image.parent_image !== null && !loaded.has(image.parent_image)) ||
+      image.adjusted_images.some((id) => !loaded.has(id)),
+  )
+}
+
+// La versión elegida para las tendencias o, si no hay ninguna (o ya no existe), la original
+export const trendVersionId = (versions: ImageResult[], rootId: number, choices: TrendChoices = getTrendChoices()) => {
+  const chosen = choices[rootId]
+  return chosen !== undefined && versions.some((image) => image.id === chosen) ? chosen : rootId
+}
+
+/**
+ * Deja una sola captura por árbol de versiones: la que cuenta para las
+ * tendencias. Evita contar dos veces una foto y sus ajustes.
+ */
+export const selectTrendImages = (images: ImageResult[], choices: TrendChoices = getTrendChoices()) => {
+  const byId = indexById(images)
+  const families = new Map<number, ImageResult[]>()
+  images.forEach((image) => {
+    const rootId = lineageRootId(image, byId)
+    families.set(rootId, [...(families.get(rootId) ?? []), image])
+  })
+
+  const selected = new Set<number>()
+  families.forEach((family, rootId) => selected.add(trendVersionId(family, rootId, choices)))
+  return images.filter((image) => selected.has(image.id))
+}
@@ -0,0 +1,30 @@
+// ------------------------------ //
+// TAMAÑO Y FORMATO DE SALIDA DE LA COMPRESIÓN
+// ------------------------------ //
+
+// Funciones puras compartidas por el hilo principal y el worker de compresión
+
+export interface CompressionOptions {
+  // Lado mayor máximo de la imagen resultante
+  maxDimensionPx: number
+  // Calidad de codificación JPEG/WebP entre 0 y 1
+  quality: number
+}
+
+export interface CompressionRequest {
+  id: number
+  file: File
+  options: CompressionOptions
+}
+
+export type CompressionResponse =
+  | { id: number; blob: Blob; width: number; height: number; originalWidth: number }
+  | { id: number; error: string }
+
+export const getTargetSize = (width: number, height: number, maxDimensionPx: number) => {
+  const ratio = Math.min(1, maxDimensionPx / Math.max(width, height))
+  return { width: Math.round(width * ratio), height: Math.round(height * ratio) }
+}
+
+// WebP se conserva; el resto (JPEG, PNG) se codifica como JPEG, que es lo que reduce el peso
+export const getOutputType = (type: string) => (type === "image/webp" ? "image/webp" : "image/jpeg")
@@ -0,0 +1,356 @@
+import { getImages, isMaskCorrection, type CoverageMetrics, type ImageResult, type RoiPolygon } from "@/lib/api"
+import {
+  SEGMENT_COLORS,
+  SEGMENT_GLARE,
+  SEGMENT_OTHER,
+  SEGMENT_VEGETATION,
+  SEGMENT_WATER,
+  segmentPixels,
+} from "@/lib/segmentation-pixels"
+
+// ------------------------------ //
+// MÁSCARA EDITABLE (AGUA / LIRIO / OTRO)
+// ------------------------------ //
+
+export type MaskClass = typeof SEGMENT_WATER | typeof SEGMENT_VEGETATION | typeof SEGMENT_OTHER
+
+export const MASK_CLASSES: { value: MaskClass; label: string }[] = [
+  { value: SEGMENT_WATER, label: "Agua" },
+  { value: SEGMENT_VEGETATION, label: "Lirio" },
+  { value: SEGMENT_OTHER, label: "Otro" },
+]
+
+// Píxeles fuera de la zona de análisis de la captura: no se pintan ni se cuentan
+export const MASK_EXCLUDED = 4
+
+// Lado mayor de la máscara en el editor; los porcentajes no dependen de la escala
+export const MASK_EDITOR_SIZE = 1024
+
+const MASK_COLORS: Record<number, [number, number, number, number]> = {
+  ...SEGMENT_COLORS,
+  [MASK_EXCLUDED]: [100, 116, 139, 200],
+}
+
+export interface EditableMask {
+  width: number
+  height: number
+  data: Uint8Array
+  // Píxeles por clase, actualizados con cada trazo para recalcular la cobertura al vuelo
+  counts: number[]
+  // Dimensiones de la foto original, para convertir porcentajes en áreas
+  sourceWidth: number
+  sourceHeight: number
+}
+
+// Rectángulo de la máscara modificado por una operación, para redibujar solo esa zona
+export interface MaskRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface MaskPoint {
+  x: number
+  y: number
+}
+
+const countClasses = (data: Uint8Array) => {
+  const counts = [0, 0, 0, 0, 0]
+  data.forEach((value) => counts[value]++)
+  return counts
+}
+
+export const createEditableMask = (
+  data: Uint8Array,
+  width: number,
+  height: number,
+  sourceWidth = width,
+  sourceHeight = height,
+): EditableMask => {
+  // Los reflejos no son una clase editable: se tratan como "otro"
+  const normalized = data.map((value) => (value === SEGMENT_GLARE ? SEGMENT_OTHER : value))
+  return { width, height, data: normalized, counts: countClasses(normalized), sourceWidth, sourceHeight }
+}
+
+// Sustituye todos los píxeles (deshacer, restablecer) y recalcula los conteos
+export const replaceMaskData = (mask: EditableMask, data: Uint8Array) => {
+  mask.data.set(data)
+  mask.counts = countClasses(mask.data)
+}
+
+const setPixel = (mask: EditableMask, index: number, value: number) => {
+  const previous = mask.data[index]
+  if (previous === value || previous === MASK_EXCLUDED) return
+  mask.counts[previous]--
+  mask.counts[value]++
+  mask.data[index] = value
+}
+
+const clampRect = (mask: EditableMask, x0: number, y0: number, x1: number, y1: number): MaskRect | null => {
+  const x = Math.max(0, Math.floor(x0))
+  const y = Math.max(0, Math.floor(y0))
+  const right = Math.min(mask.width, Math.ceil(x1))
+  const bottom = Math.min(mask.height, Math.ceil(y1))
+  return right > x && bottom > y ? { x, y, width: right - x, height: bottom - y } : null
+}
+
+/**
+ * Pinta un círculo de la máscara. `valueAt` recibe el índice del píxel: el
+ * pincel devuelve siempre la clase elegida y el borrador la clasificación
+ * automática original.
+ */
+export const paintCircle = (
+  mask: EditableMask,
+  center: MaskPoint,
+  radius: number,
+  valueAt: (index: number) => number,
+): MaskRect | null => {
+  const rect = clampRect(mask, center.x - radius, center.y - radius, center.x + radius + 1, center.y + radius + 1)
+  if (!rect) return null
+
+  const radiusSquared = radius * radius
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      const dx = x + 0.5 - center.x
+      const dy = y + 0.5 - center.y
+      if (dx * dx + dy * dy > radiusSquared) continue
+      const index = y * mask.width + x
+      setPixel(mask, index, valueAt(index))
+    }
+  }
+  return rect
+}
+
+// Pinta el trazo entre dos puntos del puntero sin dejar huecos cuando el ratón va rápido
+export const paintStroke = (
+  mask: EditableMask,
+  from: MaskPoint,
+  to: MaskPoint,
+  radius: number,
+  valueAt: (index: number) => number,
+): MaskRect | null => {
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / Math.max(radius / 2, 1)))
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps
+    paintCircle(mask, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }, radius, valueAt)
+  }
+  return clampRect(
+    mask,
+    Math.min(from.x, to.x) - radius,
+    Math.min(from.y, to.y) - radius,
+    Math.max(from.x, to.x) + radius + 1,
+    Math.max(from.y, to.y) + radius + 1,
+  )
+}
+
+/**
+ * Recorre los píxeles cuyo centro cae dentro del polígono, por barrido de
+ * líneas con la regla par-impar.
+ */
+const scanPolygon = (mask: EditableMask, points: MaskPoint[], visit: (index: number) => void): MaskRect | null => {
+  if (points.length < 3) return null
+  const rect = clampRect(
+    mask,
+    Math.min(...points.map((point) => point.x)),
+    Math.min(...points.map((point) => point.y)),
+    Math.max(...points.map((point) => point.x)) + 1,
+    Math.max(...points.map((point) => point.y)) + 1,
+  )
+  if (!rect) return null
+
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    const scanY = y + 0.5
+    const crossings: number[] = []
+    points.forEach((a, i) => {
+      const b = points[(i + 1) % points.length]
+      if (a.y <= scanY === b.y <= scanY) return
+      crossings.push(a.x + ((scanY - a.y) / (b.y - a.y)) * (b.x - a.x))
+    })
+    crossings.sort((a, b) => a - b)
+
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const start = Math.max(rect.x, Math.ceil(crossings[i] - 0.5))
+      const end = Math.min(rect.x + rect.width, Math.ceil(crossings[i + 1] - 0.5))
+      for (let x = start; x < end; x++) visit(y * mask.width + x)
+    }
+  }
+  return rect
+}
+
+export const fillPolygon = (mask: EditableMask, points: MaskPoint[], value: MaskClass): MaskRect | null =>
+  scanPolygon(mask, points, (index) => setPixel(mask, index, value))
+
+// Marca como excluido todo lo que queda fuera de la zona de análisis de la captura
+export const excludeOutsideRoi = (mask: EditableMask, roi: RoiPolygon) => {
+  const inside = new Uint8Array(mask.data.length)
+  scanPolygon(
+    mask,
+    roi.map(([x, y]) => ({ x: x * mask.width, y: y * mask.height })),
+    (index) => (inside[index] = 1),
+  )
+  inside.forEach((isInside, index) => {
+    if (!isInside) mask.data[index] = MASK_EXCLUDED
+  })
+  mask.counts = countClasses(mask.data)
+}
+
+/**
+ * Cobertura de la máscara con el mismo criterio que el análisis: porcentaje
+ * de píxeles por clase dentro de la zona de análisis y área a partir de la
+ * resolución en terreno de la foto original.
+ */
+export const maskCoverage = (mask: EditableMask, resolutionMPerPx: number): CoverageMetrics => {
+  const pixelCount = Math.max(mask.width * mask.height, 1)
+  const total = Math.max(pixelCount - mask.counts[MASK_EXCLUDED], 1)
+  const analyzedFraction = total / pixelCount
+  const groundArea = mask.sourceWidth * mask.sourceHeight * resolutionMPerPx * resolutionMPerPx * analyzedFraction
+  const vegetation = mask.counts[SEGMENT_VEGETATION] / total
+  const water = mask.counts[SEGMENT_WATER] / total
+  return {
+    vegetation_percentage: Number((vegetation * 100).toFixed(2)),
+    vegetation_area_m2: Number((vegetation * groundArea).toFixed(2)),
+    water_percentage: Number((water * 100).toFixed(2)),
+    water_area_m2: Number((water * groundArea).toFixed(2)),
+  }
+}
+
+// ------------------------------ //
+// DIBUJO Y EXPORTACIÓN
+// ------------------------------ //
+
+// Copia en la capa RGBA los colores de la zona modificada (toda la máscara si no se indica)
+export const paintOverlay = (overlay: Uint8ClampedArray, mask: EditableMask, rect?: MaskRect | null) => {
+  const { x, y, width, height } = rect ?? { x: 0, y: 0, width: mask.width, height: mask.height }
+  for (let row = y; row < y + height; row++) {
+    for (let column = x; column < x + width; column++) {
+      const index = row * mask.width + column
+      overlay.set(MASK_COLORS[mask.data[index]], index * 4)
+    }
+  }
+}
+
+// PNG opaco de la máscara con la paleta del editor (fuera de la zona, gris), que es lo que se envía al servidor
+export const maskToPng = async (mask: EditableMask): Promise<Blob> => {
+  const canvas = document.createElement("canvas")
+  canvas.width = mask.width
+  canvas.height = mask.height
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("El navegador no permite procesar imágenes en canvas.")
+
+  const pixels = new Uint8ClampedArray(mask.width * mask.height * 4)
+  paintOverlay(pixels, mask)
+  for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255
+  context.putImageData(new ImageData(pixels, mask.width, mask.height), 0, 0)
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+  if (!blob) throw new Error("No se pudo generar el PNG de la máscara.")
+  return blob
+}
+
+// Clase de cada color opaco con el que `maskToPng` guarda la máscara
+const PNG_PALETTE = [SEGMENT_OTHER, SEGMENT_WATER, SEGMENT_VEGETATION, MASK_EXCLUDED].map((value) => ({
+  value,
+  color: MASK_COLORS[value],
+}))
+
+// Devuelve a cada píxel la clase del color más cercano; tolera la recompresión o el reescalado del PNG
+const decodeMaskPixels = (pixels: Uint8ClampedArray) => {
+  const data = new Uint8Array(pixels.length / 4)
+  for (let i = 0; i < data.length; i++) {
+    let best = SEGMENT_OTHER
+    let bestDistance = Infinity
+    for (const { value, color } of PNG_PALETTE) {
+      const dr = pixels[i * 4] - color[0]
+      const dg = pixels[i * 4 + 1] - color[1]
+      const db = pixels[i * 4 + 2] - color[2]
+      const distance = dr * dr + dg * dg + db * db
+      if (distance < bestDistance) {
+        best = value
+        bestDistance = distance
+      }
+    }
+    data[i] = best
+  }
+  return data
+}
+
+const downloadBlob = async (url: string, failure: string) => {
+  try {
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    return await response.blob()
+  } catch (error) {
+    console.warn(`No se pudo descargar ${url}:`, error)
+    throw new Error(failure)
+  }
+}
+
+// Lee la máscara corregida guardada, escalada sin suavizado al tamaño del editor
+const loadCorrectedMask = async (url: string, width: number, height: number) => {
+  const bitmap = await createImageBitmap(await downloadBlob(url, "No se pudo descargar la máscara corregida."))
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  if (!context) throw new Error("El navegador no permite procesar imágenes en canvas.")
+  context.imageSmoothingEnabled = false
+  context.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+  return decodeMaskPixels(context.getImageData(0, 0, width, height).data)
+}
+
+// Una corrección guarda solo la máscara: la foto es la de la captura de la que deriva
+export const findMaskPhoto = async (image: ImageResult) => {
+  if (!isMaskCorrection(image)) return image
+  const family = await getImages({ ecosystem: image.ecosystem })
+  let current = image
+  while (isMaskCorrection(current)) {
+    const parent = family.find((candidate) => candidate.id === current.parent_image)
+    if (!parent) throw new Error(`No se encontró la captura #${current.parent_image} de la que deriva la corrección.`)
+    current = parent
+  }
+  return current
+}
+
+// `corrected`: se partió de la máscara corregida guardada; `estimated`: de la clasificación por color del navegador
+export type EditableMaskSource = "corrected" | "estimated"
+
+/**
+ * Descarga la captura y la reduce al tamaño del editor. La máscara inicial
+ * es la corregida guardada (`correctedMaskUrl`) si la captura ya tiene una;
+ * si no, una estimación por índices de color, que no es la clasificación del
+ * servidor. Falla si el servidor no permite leer las imágenes desde el
+ * navegador (CORS).
+ */
+export const loadEditableMask = async (
+  url: string,
+  roi?: RoiPolygon | null,
+  correctedMaskUrl?: string | null,
+): Promise<{ mask: EditableMask; photo: ImageData; source: EditableMaskSource }> => {
+  const blob = await downloadBlob(url, "No se pudo descargar la captura para editar su máscara.")
+
+  const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" })
+  const ratio = Math.min(1, MASK_EDITOR_SIZE / Math.max(bitmap.width, bitmap.height))
+  const width = Math.max(1, Math.round(bitmap.width * ratio))
+  const height = Math.max(1, Math.round(bitmap.height * ratio))
+
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  if (!context) throw new Error("El navegador no permite procesar imágenes en canvas.")
+  context.drawImage(bitmap, 0, 0, width, height)
+  const sourceWidth = bitmap.width
+  const sourceHeight = bitmap.height
+  bitmap.close()
+
+  const photo = context.getImageData(0, 0, width, height)
+  // `segmentPixels` no modifica los píxeles, así que la misma copia sirve de fondo
+  const data = correctedMaskUrl
+    ? await loadCorrectedMask(correctedMaskUrl, width, height)
+    : segmentPixels(photo.data).mask
+  const editable = createEditableMask(data, width, height, sourceWidth, sourceHeight)
+  if (roi && roi.length >= 3) excludeOutsideRoi(editable, roi)
+  return { mask: editable, photo, source: correctedMaskUrl ? "corrected" : "estimated" }
+}
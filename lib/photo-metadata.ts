@@ -0,0 +1,103 @@
+import type { CaptureMetadata } from "@/lib/api"
+import { distanceToPolygonsM } from "@/lib/geodesy"
+import { pointInPolygons } from "@/lib/polygon-validation"
+import type { LeafletPolygons } from "@/lib/wkt"
+
+// ------------------------------ //
+// METADATOS EXIF/XMP DE FOTOS DE DRON
+// ------------------------------ //
+
+export interface PhotoMetadata {
+  // Fecha de captura lista para un <input type="datetime-local"> (hora local de la cámara)
+  captureDate: string | null
+  capture: CaptureMetadata
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN
+  return Number.isFinite(number) ? number : undefined
+}
+
+const pad = (value: number) => value.toString().padStart(2, "0")
+
+// exifr devuelve las fechas EXIF (sin zona horaria) como Date en hora local
+const toDatetimeLocal = (value: unknown): string | null => {
+  const date = value instanceof Date ? value : typeof value === "string" ? new Date(value) : null
+  if (!date || isNaN(date.getTime())) return null
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+/**
+ * Lee en el navegador la fecha, posición GPS, altura y cámara de una foto.
+ * Devuelve `null` si el archivo no tiene metadatos legibles (PNG, capturas
+ * de pantalla, fotos exportadas sin EXIF…).
+ */
+export const readPhotoMetadata = async (file: File): Promise<PhotoMetadata | null> => {
+  try {
+    const { default: exifr } = await import("exifr")
+    // XMP incluye el espacio drone-dji (RelativeAltitude, AbsoluteAltitude…) que DJI y otros fabricantes escriben
+    const tags = await exifr.parse(file, { tiff: true, exif: true, gps: true, xmp: true, ifd1: false, interop: false })
+    if (!tags) return null
+
+    // Algunos firmwares DJI solo escriben la posición en XMP (con la errata "GpsLongtitude")
+    const latitude = toNumber(tags.latitude) ?? toNumber(tags.GpsLatitude)
+    const longitude = toNumber(tags.longitude) ?? toNumber(tags.GpsLongitude) ?? toNumber(tags.GpsLongtitude)
+
+    const capture: CaptureMetadata = {
+      latitude,
+      longitude,
+      absolute_altitude_m: toNumber(tags.AbsoluteAltitude) ?? toNumber(tags.GPSAltitude),
+      relative_altitude_m: toNumber(tags.RelativeAltitude),
+      gimbal_pitch_deg: toNumber(tags.GimbalPitchDegree),
+      camera_make: typeof tags.Make === "string" ? tags.Make.trim() : undefined,
+      camera_model: typeof tags.Model === "string" ? tags.Model.trim() : undefined,
+      focal_length_mm: toNumber(tags.FocalLength),
+      image_width_px: toNumber(tags.ExifImageWidth),
+      image_height_px: toNumber(tags.ExifImageHeight),
+    }
+    const captureDate = toDatetimeLocal(tags.DateTimeOriginal ?? tags.CreateDate)
+
+    if (!captureDate && Object.values(capture).every((value) => value === undefined)) return null
+    return { captureDate, capture }
+  } catch (error) {
+    console.warn(`No se pudieron leer los metadatos de ${file.name}:`, error)
+    return null
+  }
+}
+
+export const hasPosition = (capture: CaptureMetadata): capture is CaptureMetadata & { latitude: number; longitude: number } =>
+  capture.latitude !== undefined && capture.longitude !== undefined
+
+// Descripción sugerida, p. ej. "DJI FC3582 · 80 m sobre el despegue"
+export const describePhotoMetadata = ({ camera_make, camera_model, relative_altitude_m }: CaptureMetadata) => {
+  const camera = [camera_make, camera_model].filter(Boolean).join(" ")
+  const altitude = relative_altitude_m !== undefined ? `${Math.round(relative_altitude_m)} m sobre el despegue` : ""
+  return [camera, altitude].filter(Boolean).join(" · ")
+}
+
+export const formatCoordinates = (latitude: number, longitude: number) => `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`
+
+// ------------------------------ //
+// POSICIÓN DE LA FOTO RESPECTO AL ECOSISTEMA
+// ------------------------------ //
+
+// La foto nadiral cubre terreno alrededor de la cámara: unos metros fuera de la orilla no son error
+export const PHOTO_POSITION_TOLERANCE_M = 100
+
+export type PhotoPositionStatus = "inside" | "near" | "outside" | "unknown"
+
+export interface PhotoPositionCheck {
+  status: PhotoPositionStatus
+  // Distancia al borde cuando la cámara queda fuera del polígono
+  distanceM: number | null
+}
+
+export const checkPhotoPosition = (capture: CaptureMetadata | undefined, polygons: LeafletPolygons): PhotoPositionCheck => {
+  if (!capture || !hasPosition(capture) || polygons.length === 0) return { status: "unknown", distanceM: null }
+
+  const point: [number, number] = [capture.latitude, capture.longitude]
+  if (pointInPolygons(point, polygons)) return { status: "inside", distanceM: null }
+
+  const distanceM = distanceToPolygonsM(point, polygons)
+  return { status: distanceM <= PHOTO_POSITION_TOLERANCE_M ? "near" : "outside", distanceM }
+}
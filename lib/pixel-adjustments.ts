@@ -0,0 +1,38 @@
+import type { ImageAdjustments } from "@/lib/api"
+
+// ------------------------------ //
+// AJUSTES DE COLOR SOBRE ARREGLOS DE PÍXELES
+// ------------------------------ //
+
+// Sin dependencias del DOM: se usan tanto en el hilo principal como en el worker de segmentación
+
+export const isNeutralAdjustment = ({ brightness, contrast, saturate }: ImageAdjustments) =>
+  brightness === 100 && contrast === 100 && saturate === 100
+
+const clamp = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value)
+
+/**
+ * Aplica los ajustes a los píxeles RGBA con las fórmulas de la especificación
+ * Filter Effects, para que el resultado coincida con el filtro CSS de la
+ * vista previa. Modifica el arreglo recibido.
+ */
+export const applyAdjustments = (data: Uint8ClampedArray, { brightness, contrast, saturate }: ImageAdjustments) => {
+  const b = brightness / 100
+  const c = contrast / 100
+  const s = saturate / 100
+  const intercept = 255 * (0.5 - 0.5 * c)
+  // Matriz de saturación (feColorMatrix type="saturate")
+  const [rr, rg, rb] = [0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s]
+  const [gr, gg, gb] = [0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s]
+  const [br, bg, bb] = [0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s]
+
+  for (let i = 0; i < data.length; i += 4) {
+    // Cada filtro recorta a [0, 255] antes del siguiente, como el navegador
+    const r = clamp(clamp(data[i] * b) * c + intercept)
+    const g = clamp(clamp(data[i + 1] * b) * c + intercept)
+    const bl = clamp(clamp(data[i + 2] * b) * c + intercept)
+    data[i] = rr * r + rg * g + rb * bl
+    data[i + 1] = gr * r + gg * g + gb * bl
+    data[i + 2] = br * r + bg * g + bb * bl
+  }
+}
@@ -0,0 +1,237 @@
+import { measurePolygons } from "@/lib/geodesy"
+import type { LeafletPolygons } from "@/lib/wkt"
+
+// ------------------------------ //
+// VALIDACIÓN DE POLÍGONOS ANTES DEL ANÁLISIS
+// ------------------------------ //
+
+// Límites razonables para un cuerpo de agua monitoreado con dron (m²)
+export const MIN_ANALYSIS_AREA_M2 = 100
+export const MAX_ANALYSIS_AREA_M2 = 500 * 1_000_000
+
+export type PolygonIssueCode =
+  | "degenerate"
+  | "duplicate-vertices"
+  | "self-intersection"
+  | "area-too-small"
+  | "area-too-large"
+  | "outside-selected"
+  | "overlaps-existing"
+
+export interface PolygonIssue {
+  code: PolygonIssueCode
+  // Los errores bloquean el análisis; las advertencias permiten continuar
+  severity: "error" | "warning"
+  message: string
+  fixable: boolean
+}
+
+export interface ReferencePolygon {
+  id: number
+  name: string
+  polygons: LeafletPolygons
+}
+
+export interface PolygonValidationOptions {
+  selectedEcosystem?: ReferencePolygon | null
+  ecosystems?: ReferencePolygon[]
+}
+
+type Point = [number, number]
+type Ring = Point[]
+
+const samePoint = (a: Point, b: Point) => a[0] === b[0] && a[1] === b[1]
+
+// Anillo abierto (sin repetir el primer vértice al final)
+const openRing = (ring: Ring): Ring => (ring.length > 1 && samePoint(ring[0], ring[ring.length - 1]) ? ring.slice(0, -1) : ring)
+
+const hasDuplicateVertices = (ring: Ring) =>
+  openRing(ring).some((point, i, points) => i > 0 && samePoint(point, points[i - 1]))
+
+const removeConsecutiveDuplicates = (ring: Ring): Ring =>
+  openRing(ring).filter((point, index, points) => index === 0 || !samePoint(point, points[index - 1]))
+
+// Área con signo en el plano lng/lat: positiva = sentido antihorario
+const signedArea = (ring: Ring): number => {
+  const points = openRing(ring)
+  let total = 0
+  for (let i = 0; i < points.length; i++) {
+    const [lat1, lng1] = points[i]
+    const [lat2, lng2] = points[(i + 1) % points.length]
+    total += lng1 * lat2 - lng2 * lat1
+  }
+  return total / 2
+}
+
+const orientation = (a: Point, b: Point, c: Point) => {
+  const value = (b[1] - a[1]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[1] - a[1])
+  return Math.abs(value) < 1e-15 ? 0 : value > 0 ? 1 : -1
+}
+
+const onSegment = (a: Point, b: Point, p: Point) =>
+  Math.min(a[0], b[0]) <= p[0] &&
+  p[0] <= Math.max(a[0], b[0]) &&
+  Math.min(a[1], b[1]) <= p[1] &&
+  p[1] <= Math.max(a[1], b[1])
+
+const segmentsIntersect = (p1: Point, p2: Point, q1: Point, q2: Point) => {
+  const o1 = orientation(p1, p2, q1)
+  const o2 = orientation(p1, p2, q2)
+  const o3 = orientation(q1, q2, p1)
+  const o4 = orientation(q1, q2, p2)
+  if (o1 !== o2 && o3 !== o4) return true
+  return (
+    (o1 === 0 && onSegment(p1, p2, q1)) ||
+    (o2 === 0 && onSegment(p1, p2, q2)) ||
+    (o3 === 0 && onSegment(q1, q2, p1)) ||
+    (o4 === 0 && onSegment(q1, q2, p2))
+  )
+}
+
+const edges = (ring: Ring): [Point, Point][] => {
+  const points = openRing(ring)
+  return points.map((point, i) => [point, points[(i + 1) % points.length]])
+}
+
+// Cruces entre aristas no contiguas del mismo anillo
+const hasSelfIntersection = (ring: Ring) => {
+  const ringEdges = edges(removeConsecutiveDuplicates(ring))
+  const n = ringEdges.length
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      // Las aristas vecinas comparten un vértice por definición
+      if (j === i + 1 || (i === 0 && j === n - 1)) continue
+      if (segmentsIntersect(ringEdges[i][0], ringEdges[i][1], ringEdges[j][0], ringEdges[j][1])) return true
+    }
+  }
+  return false
+}
+
+// Menos de 3 vértices distintos, o área nula sin cruces (vértices alineados)
+const isDegenerate = (ring: Ring) => {
+  const points = removeConsecutiveDuplicates(ring)
+  return points.length < 3 || (Math.abs(signedArea(points)) < 1e-14 && !hasSelfIntersection(points))
+}
+
+const pointInRing = ([lat, lng]: Point, ring: Ring) => {
+  let inside = false
+  const points = openRing(ring)
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [latI, lngI] = points[i]
+    const [latJ, lngJ] = points[j]
+    if (latI > lat !== latJ > lat && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) inside = !inside
+  }
+  return inside
+}
+
+const pointInPolygon = (point: Point, [outer, ...holes]: Ring[]) =>
+  pointInRing(point, outer) && !holes.some((hole) => pointInRing(point, hole))
+
+// Punto [lat, lng] dentro de alguno de los polígonos (fuera de sus huecos)
+export const pointInPolygons = (point: Point, polygons: LeafletPolygons) =>
+  polygons.some((polygon) => polygon.length > 0 && pointInPolygon(point, polygon))
+
+// Dos conjuntos de polígonos se superponen si alguna arista se cruza o uno contiene al otro
+const polygonsOverlap = (a: LeafletPolygons, b: LeafletPolygons) =>
+  a.some((polygonA) =>
+    b.some(
+      (polygonB) =>
+        edges(polygonA[0]).some(([p1, p2]) => edges(polygonB[0]).some(([q1, q2]) => segmentsIntersect(p1, p2, q1, q2))) ||
+        pointInPolygon(polygonA[0][0], polygonB) ||
+        pointInPolygon(polygonB[0][0], polygonA),
+    ),
+  )
+
+const formatKm2 = (areaM2: number) => `${(areaM2 / 1_000_000).toLocaleString("es-MX", { maximumFractionDigits: 2 })} km²`
+
+/**
+ * Revisa la geometría dibujada y devuelve los problemas encontrados con un
+ * mensaje para el usuario. Una lista vacía significa que se puede analizar.
+ */
+export const validatePolygons = (polygons: LeafletPolygons, options: PolygonValidationOptions = {}): PolygonIssue[] => {
+  const issues: PolygonIssue[] = []
+  const rings = polygons.flat()
+
+  if (rings.some(hasDuplicateVertices)) {
+    issues.push({
+      code: "duplicate-vertices",
+      severity: "warning",
+      message: "Hay vértices repetidos consecutivos. Se pueden eliminar sin cambiar la forma.",
+      fixable: true,
+    })
+  }
+
+  if (rings.some(isDegenerate)) {
+    issues.push({
+      code: "degenerate",
+      severity: "error",
+      message: "Algún polígono o hueco tiene menos de 3 vértices distintos o área nula. Se puede descartar automáticamente.",
+      fixable: true,
+    })
+  }
+
+  if (rings.some((ring) => !isDegenerate(ring) && hasSelfIntersection(ring))) {
+    issues.push({
+      code: "self-intersection",
+      severity: "error",
+      message:
+        "El contorno se cruza consigo mismo (forma de moño). Edita los vértices para que los bordes no se crucen o dibuja el área de nuevo.",
+      fixable: false,
+    })
+  }
+
+  const { areaM2 } = measurePolygons(polygons)
+  if (areaM2 < MIN_ANALYSIS_AREA_M2) {
+    issues.push({
+      code: "area-too-small",
+      severity: "error",
+      message: `El área dibujada (${Math.round(areaM2)} m²) es menor que el mínimo de ${MIN_ANALYSIS_AREA_M2} m². Amplía el polígono.`,
+      fixable: false,
+    })
+  } else if (areaM2 > MAX_ANALYSIS_AREA_M2) {
+    issues.push({
+      code: "area-too-large",
+      severity: "error",
+      message: `El área dibujada (${formatKm2(areaM2)}) supera el máximo de ${formatKm2(MAX_ANALYSIS_AREA_M2)}. Revisa que no hayas dibujado a un zoom muy alejado.`,
+      fixable: false,
+    })
+  }
+
+  const { selectedEcosystem, ecosystems = [] } = options
+  if (selectedEcosystem && selectedEcosystem.polygons.length > 0) {
+    if (!polygonsOverlap(polygons, selectedEcosystem.polygons)) {
+      issues.push({
+        code: "outside-selected",
+        severity: "warning",
+        message: `El área no se superpone con el ecosistema seleccionado "${selectedEcosystem.name}". Verifica que estés analizando el lugar correcto.`,
+        fixable: false,
+      })
+    }
+  } else {
+    const overlapping = ecosystems.filter((ecosystem) => polygonsOverlap(polygons, ecosystem.polygons))
+    if (overlapping.length > 0) {
+      issues.push({
+        code: "overlaps-existing",
+        severity: "warning",
+        message: `El área se superpone con ${overlapping.map((e) => `"${e.name}"`).join(", ")}. Si es el mismo cuerpo de agua, selecciónalo para no crear un ecosistema duplicado.`,
+        fixable: false,
+      })
+    }
+  }
+
+  return issues
+}
+
+// Si `fixPolygons` cambiaría algo; permite dejar intactas las capas que ya son válidas
+export const needsPolygonFixes = (polygons: LeafletPolygons) =>
+  polygons.flat().some((ring) => hasDuplicateVertices(ring) || isDegenerate(ring))
+
+/**
+ * Aplica las correcciones automáticas: quita vértices repetidos y descarta
+ * anillos degenerados. El sentido de giro no se toca aquí; se normaliza al
+ * exportar la geometría (ver `rewindGeometry`).
+ */
+export const fixPolygons = (polygons: LeafletPolygons): LeafletPolygons =>
+  polygons
+    .filter(([outer]) => outer && !isDegenerate(outer))
+    .map(([outer, ...holes]) => [outer, ...holes.filter((hole) => !isDegenerate(hole))].map(removeConsecutiveDuplicates))
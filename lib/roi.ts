@@ -0,0 +1,130 @@
+import type { CaptureMetadata, RoiPolygon } from "@/lib/api"
+
+// ------------------------------ //
+// ZONA DE ANÁLISIS (ROI) DENTRO DE UNA FOTO
+// ------------------------------ //
+
+// Por debajo del 1 % de la foto casi seguro es un clic accidental
+export const MIN_ROI_FRACTION = 0.01
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+export const normalizeRoiPoint = (x: number, y: number): [number, number] => [
+  Number(clamp01(x).toFixed(4)),
+  Number(clamp01(y).toFixed(4)),
+]
+
+// Fracción de la foto que cubre el polígono (fórmula del área de Gauss)
+export const roiAreaFraction = (roi: RoiPolygon) => {
+  let twiceArea = 0
+  roi.forEach(([x1, y1], i) => {
+    const [x2, y2] = roi[(i + 1) % roi.length]
+    twiceArea += x1 * y2 - x2 * y1
+  })
+  return Math.abs(twiceArea) / 2
+}
+
+export const isUsableRoi = (roi: RoiPolygon | null | undefined): roi is RoiPolygon =>
+  !!roi && roi.length >= 3 && roiAreaFraction(roi) >= MIN_ROI_FRACTION
+
+export const formatRoiFraction = (roi: RoiPolygon) => `${(roiAreaFraction(roi) * 100).toFixed(0)}% de la foto`
+
+// Trazado SVG en el sistema de coordenadas 0-1 de la foto
+export const roiToSvgPath = (roi: RoiPolygon) =>
+  roi.length > 0 ? `M ${roi.map(([x, y]) => `${x} ${y}`).join(" L ")} Z` : ""
+
+// ------------------------------ //
+// RECORTE DE LA FOTO A LA ZONA DE ANÁLISIS
+// ------------------------------ //
+
+// Blanco fuera de la zona: el análisis no lo cuenta como agua ni como lirio
+const OUTSIDE_ROI_FILL = "#ffffff"
+
+const OUTPUT_TYPES = ["image/jpeg", "image/png", "image/webp"]
+
+// Rectángulo (coordenadas 0-1) que contiene la zona de análisis
+export const roiBounds = (roi: RoiPolygon) => {
+  const xs = roi.map(([x]) => x)
+  const ys = roi.map(([, y]) => y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+/**
+ * Recorta la foto al rectángulo de la zona y pinta de blanco lo que queda
+ * fuera del polígono, de modo que el servidor solo analiza la zona. Devuelve
+ * también la zona expresada respecto al recorte.
+ */
+export const cropToRoi = async (file: File, roi: RoiPolygon) => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+  const bounds = roiBounds(roi)
+  const left = Math.floor(bounds.x * bitmap.width)
+  const top = Math.floor(bounds.y * bitmap.height)
+  const width = Math.max(1, Math.ceil((bounds.x + bounds.width) * bitmap.width) - left)
+  const height = Math.max(1, Math.ceil((bounds.y + bounds.height) * bitmap.height) - top)
+
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("El navegador no permite procesar imágenes en canvas.")
+
+  context.fillStyle = OUTSIDE_ROI_FILL
+  context.fillRect(0, 0, width, height)
+  context.beginPath()
+  roi.forEach(([x, y], index) => {
+    const px = x * bitmap.width - left
+    const py = y * bitmap.height - top
+    if (index === 0) context.moveTo(px, py)
+    else context.lineTo(px, py)
+  })
+  context.closePath()
+  context.clip()
+  context.drawImage(bitmap, -left, -top)
+  const sourceWidth = bitmap.width
+  const sourceHeight = bitmap.height
+  bitmap.close()
+
+  const type = OUTPUT_TYPES.includes(file.type) ? file.type : "image/jpeg"
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.92))
+  if (!blob) throw new Error(`No se pudo recortar ${file.name} a su zona de análisis.`)
+
+  return {
+    file: new File([blob], file.name, { type, lastModified: file.lastModified }),
+    width,
+    height,
+    roi: roi.map(([x, y]) =>
+      normalizeRoiPoint((x * sourceWidth - left) / width, (y * sourceHeight - top) / height),
+    ),
+  }
+}
+
+/**
+ * Aplica a cada imagen del envío su zona de análisis antes de subirla. Se
+ * procesan de una en una: decodificar varias fotos grandes a la vez agota la
+ * memoria en móviles.
+ */
+export const cropUploadToRois = async <T extends { images: File[]; captureMetadata: (CaptureMetadata | null)[] }>(
+  upload: T,
+  rois: (RoiPolygon | null)[],
+) => {
+  const images: File[] = []
+  const captureMetadata: (CaptureMetadata | null)[] = []
+  const croppedRois: (RoiPolygon | null)[] = []
+  for (const [index, file] of upload.images.entries()) {
+    const roi = rois[index]
+    const metadata = upload.captureMetadata[index] ?? null
+    if (!isUsableRoi(roi)) {
+      images.push(file)
+      captureMetadata.push(metadata)
+      croppedRois.push(null)
+      continue
+    }
+    const cropped = await cropToRoi(file, roi)
+    images.push(cropped.file)
+    captureMetadata.push(metadata && { ...metadata, image_width_px: cropped.width, image_height_px: cropped.height })
+    croppedRois.push(cropped.roi)
+  }
+  return { ...upload, images, captureMetadata, rois: croppedRois }
+}
@@ -0,0 +1,133 @@
+import type { ImageAdjustments } from "@/lib/api"
+import { applyAdjustments, isNeutralAdjustment } from "@/lib/pixel-adjustments"
+
+// ------------------------------ //
+// CLASIFICACIÓN DE PÍXELES AGUA / LIRIO POR ÍNDICES DE COLOR
+// ------------------------------ //
+
+// Funciones puras compartidas por el hilo principal y el worker de segmentación
+
+export const SEGMENT_OTHER = 0
+export const SEGMENT_WATER = 1
+export const SEGMENT_VEGETATION = 2
+// Reflejo del sol o nube: píxel casi blanco que no se puede clasificar
+export const SEGMENT_GLARE = 3
+
+// Lado mayor de la imagen reducida que se clasifica; basta para estimar porcentajes
+export const SEGMENTATION_PREVIEW_SIZE = 480
+
+export interface SegmentationThresholds {
+  // Exceso de verde normalizado (2g − r − b) a partir del cual el píxel es vegetación
+  vegetationExg: number
+  // Índice azul-rojo normalizado (b − r) / (b + r) a partir del cual el píxel es agua
+  waterIndex: number
+  // Brillo medio por debajo del cual un píxel sin vegetación se toma como agua profunda o sombra del agua
+  darkWaterBrightness: number
+  // Canal mínimo por encima del cual el píxel es reflejo o nube
+  glareMinChannel: number
+}
+
+export const DEFAULT_SEGMENTATION_THRESHOLDS: SegmentationThresholds = {
+  vegetationExg: 0.15,
+  waterIndex: 0.04,
+  darkWaterBrightness: 55,
+  glareMinChannel: 215,
+}
+
+export interface SegmentationStats {
+  waterPercentage: number
+  vegetationPercentage: number
+  otherPercentage: number
+  glarePercentage: number
+  meanBrightness: number
+}
+
+const classifyPixel = (r: number, g: number, b: number, thresholds: SegmentationThresholds) => {
+  if (Math.min(r, g, b) >= thresholds.glareMinChannel) return SEGMENT_GLARE
+  const sum = r + g + b
+  if (sum === 0) return SEGMENT_WATER
+  const exg = (2 * g - r - b) / sum
+  if (exg > thresholds.vegetationExg && g > 35) return SEGMENT_VEGETATION
+  if ((b - r) / (b + r + 1) > thresholds.waterIndex || sum / 3 < thresholds.darkWaterBrightness) return SEGMENT_WATER
+  return SEGMENT_OTHER
+}
+
+/**
+ * Clasifica cada píxel RGBA en agua, lirio, reflejo u otro. Es una
+ * aproximación para revisar la foto antes de subirla, no sustituye al
+ * modelo del servidor.
+ */
+export const segmentPixels = (
+  data: Uint8ClampedArray,
+  thresholds: SegmentationThresholds = DEFAULT_SEGMENTATION_THRESHOLDS,
+) => {
+  const pixelCount = data.length / 4
+  const mask = new Uint8Array(pixelCount)
+  const counts = [0, 0, 0, 0]
+  let brightness = 0
+
+  for (let i = 0; i < pixelCount; i++) {
+    const r = data[i * 4]
+    const g = data[i * 4 + 1]
+    const b = data[i * 4 + 2]
+    const segment = classifyPixel(r, g, b, thresholds)
+    mask[i] = segment
+    counts[segment]++
+    brightness += (r + g + b) / 3
+  }
+
+  const percentage = (count: number) => Number(((count / Math.max(pixelCount, 1)) * 100).toFixed(1))
+  const stats: SegmentationStats = {
+    waterPercentage: percentage(counts[SEGMENT_WATER]),
+    vegetationPercentage: percentage(counts[SEGMENT_VEGETATION]),
+    otherPercentage: percentage(counts[SEGMENT_OTHER]),
+    glarePercentage: percentage(counts[SEGMENT_GLARE]),
+    meanBrightness: brightness / Math.max(pixelCount, 1),
+  }
+  return { mask, stats }
+}
+
+// Colores RGBA de la capa superpuesta; "otro" queda transparente
+export const SEGMENT_COLORS: Record<number, [number, number, number, number]> = {
+  [SEGMENT_OTHER]: [0, 0, 0, 0],
+  [SEGMENT_WATER]: [37, 99, 235, 140],
+  [SEGMENT_VEGETATION]: [22, 163, 74, 160],
+  [SEGMENT_GLARE]: [250, 204, 21, 180],
+}
+
+export const maskToOverlay = (mask: Uint8Array) => {
+  const overlay = new Uint8ClampedArray(mask.length * 4)
+  mask.forEach((segment, i) => overlay.set(SEGMENT_COLORS[segment], i * 4))
+  return overlay
+}
+
+// ------------------------------ //
+// MENSAJES CON EL WEB WORKER
+// ------------------------------ //
+
+export interface SegmentationRequest {
+  id: number
+  file: File
+  adjustments: ImageAdjustments | null
+  thresholds: SegmentationThresholds
+}
+
+export type SegmentationResponse =
+  | { id: number; overlay: Blob; stats: SegmentationStats }
+  | { id: number; error: string }
+
+export const getPreviewSize = (width: number, height: number) => {
+  const ratio = Math.min(1, SEGMENTATION_PREVIEW_SIZE / Math.max(width, height))
+  return { width: Math.max(1, Math.round(width * ratio)), height: Math.max(1, Math.round(height * ratio)) }
+}
+
+// Aplica los ajustes de color que se enviarán y clasifica los píxeles ya reducidos
+export const segmentImageData = (
+  data: Uint8ClampedArray,
+  adjustments: ImageAdjustments | null,
+  thresholds: SegmentationThresholds,
+) => {
+  if (adjustments && !isNeutralAdjustment(adjustments)) applyAdjustments(data, adjustments)
+  const { mask, stats } = segmentPixels(data, thresholds)
+  return { overlay: maskToOverlay(mask), stats }
+}
@@ -0,0 +1,92 @@
+import type { ImageAdjustments } from "@/lib/api"
+import {
+  DEFAULT_SEGMENTATION_THRESHOLDS,
+  getPreviewSize,
+  segmentImageData,
+  type SegmentationRequest,
+  type SegmentationResponse,
+  type SegmentationStats,
+  type SegmentationThresholds,
+} from "@/lib/segmentation-pixels"
+
+// ------------------------------ //
+// SEGMENTACIÓN PRELIMINAR AGUA / LIRIO POR ÍNDICES DE COLOR
+// ------------------------------ //
+
+// Problemas evidentes que conviene corregir antes de subir la foto
+export const segmentationWarnings = (stats: SegmentationStats) => {
+  const warnings: string[] = []
+  if (stats.glarePercentage > 5) warnings.push(`Reflejos o nubes en el ${stats.glarePercentage}% de la imagen`)
+  if (stats.otherPercentage > 60) warnings.push("La mayor parte de la imagen no es agua ni lirio: revisa el encuadre")
+  if (stats.meanBrightness < 35) warnings.push("La imagen está muy oscura")
+  return warnings
+}
+
+// ------------------------------ //
+// EJECUCIÓN EN WEB WORKER
+// ------------------------------ //
+
+export interface SegmentationPreview {
+  // URL de objeto de la capa PNG con la máscara, del mismo encuadre que la foto
+  overlayUrl: string
+  stats: SegmentationStats
+  warnings: string[]
+}
+
+let worker: Worker | null = null
+let nextRequestId = 1
+const pendingRequests = new Map<number, (response: SegmentationResponse) => void>()
+
+const getWorker = () => {
+  if (worker) return worker
+  worker = new Worker(new URL("./segmentation.worker.ts", import.meta.url))
+  worker.onmessage = (event: MessageEvent<SegmentationResponse>) => {
+    pendingRequests.get(event.data.id)?.(event.data)
+    pendingRequests.delete(event.data.id)
+  }
+  return worker
+}
+
+const segmentInWorker = (request: Omit<SegmentationRequest, "id">) =>
+  new Promise<{ overlay: Blob; stats: SegmentationStats }>((resolve, reject) => {
+    const id = nextRequestId++
+    pendingRequests.set(id, (response) => ("error" in response ? reject(new Error(response.error)) : resolve(response)))
+    getWorker().postMessage({ ...request, id } satisfies SegmentationRequest)
+  })
+
+// Respaldo para navegadores sin OffscreenCanvas
+const segmentOnMainThread = async ({ file, adjustments, thresholds }: Omit<SegmentationRequest, "id">) => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+  const { width, height } = getPreviewSize(bitmap.width, bitmap.height)
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  if (!context) throw new Error("El navegador no permite procesar imágenes en canvas.")
+
+  context.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+  const { overlay, stats } = segmentImageData(context.getImageData(0, 0, width, height).data, adjustments, thresholds)
+  context.putImageData(new ImageData(overlay, width, height), 0, 0)
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+  if (!blob) throw new Error(`No se pudo generar la vista previa de ${file.name}.`)
+  return { overlay: blob, stats }
+}
+
+/**
+ * Genera la vista previa de segmentación de una foto: la máscara como PNG
+ * semitransparente y los porcentajes estimados.
+ */
+export const previewSegmentation = async (
+  file: File,
+  adjustments: ImageAdjustments | null = null,
+  thresholds: SegmentationThresholds = DEFAULT_SEGMENTATION_THRESHOLDS,
+): Promise<SegmentationPreview> => {
+  const request = { file, adjustments, thresholds }
+  const { overlay, stats } =
+    typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined"
+      ? await segmentInWorker(request)
+      : await segmentOnMainThread(request)
+  return { overlayUrl: URL.createObjectURL(overlay), stats, warnings: segmentationWarnings(stats) }
+}
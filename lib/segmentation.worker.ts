@@ -0,0 +1,29 @@
+import {
+  getPreviewSize,
+  segmentImageData,
+  type SegmentationRequest,
+  type SegmentationResponse,
+} from "@/lib/segmentation-pixels"
+
+// Reduce, clasifica y dibuja la máscara fuera del hilo principal
+const respond = (response: SegmentationResponse) => self.postMessage(response)
+
+self.onmessage = async (event: MessageEvent<SegmentationRequest>) => {
+  const { id, file, adjustments, thresholds } = event.data
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+    const { width, height } = getPreviewSize(bitmap.width, bitmap.height)
+    const canvas = new OffscreenCanvas(width, height)
+    const context = canvas.getContext("2d", { willReadFrequently: true })
+    if (!context) throw new Error("El navegador no permite procesar imágenes en segundo plano.")
+
+    context.drawImage(bitmap, 0, 0, width, height)
+    bitmap.close()
+    const { overlay, stats } = segmentImageData(context.getImageData(0, 0, width, height).data, adjustments, thresholds)
+    context.putImageData(new ImageData(overlay, width, height), 0, 0)
+
+    respond({ id, overlay: await canvas.convertToBlob({ type: "image/png" }), stats })
+  } catch (error) {
+    respond({ id, error: error instanceof Error ? error.message : `No se pudo segmentar ${file.name}.` })
+  }
+}
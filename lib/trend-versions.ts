@@ -0,0 +1,41 @@
+// ------------------------------ //
+// VERSIÓN DE CADA CAPTURA QUE CUENTA PARA LAS TENDENCIAS
+// ------------------------------ //
+
+// Id de la original → id de la versión elegida. El servidor no guarda esta elección: se recuerda en el navegador
+export type TrendChoices = Readonly<Record<number, number>>
+
+const STORAGE_KEY = "monitoreo-trend-versions"
+const NO_CHOICES: TrendChoices = {}
+
+const listeners = new Set<() => void>()
+let choices: TrendChoices | null = null
+
+const readChoices = (): TrendChoices => {
+  if (choices) return choices
+  try {
+    choices = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "{}") as TrendChoices
+  } catch {
+    choices = NO_CHOICES
+  }
+  return choices
+}
+
+export const getTrendChoices = (): TrendChoices => (typeof window === "undefined" ? NO_CHOICES : readChoices())
+
+export const setTrendChoice = (rootId: number, imageId: number) => {
+  choices = { ...readChoices(), [rootId]: imageId }
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(choices))
+  } catch (error) {
+    console.warn("No se pudo guardar la versión elegida para las tendencias:", error)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+export const subscribeToTrendChoices = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,180 @@
+import { convert, parse } from "terraformer-wkt-parser"
+import type { GeoJSON, Geometry, MultiPolygon, Polygon, Position } from "geojson"
+
+// ------------------------------ //
+// LECTURA Y ESCRITURA DE GEOMETRÍAS WKT
+// ------------------------------ //
+
+// Polígonos en el orden de Leaflet [lat, lng]: polígono → anillos (exterior + huecos) → vértices
+export type LeafletPolygons = [number, number][][][]
+
+const SRID_PREFIX = /^\s*SRID=\d+\s*;\s*/i
+const COLLECTION = /^GEOMETRYCOLLECTION\s*(?:ZM|Z|M)?\s*\(([\s\S]*)\)\s*$/i
+
+// Separa los miembros de una GEOMETRYCOLLECTION respetando los paréntesis anidados
+const splitTopLevel = (body: string): string[] => {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "(") depth++
+    else if (body[i] === ")") depth--
+    else if (body[i] === "," && depth === 0) {
+      parts.push(body.slice(start, i))
+      start = i + 1
+    }
+  }
+  parts.push(body.slice(start))
+  return parts.map((part) => part.trim()).filter(Boolean)
+}
+
+/**
+ * Convierte WKT/EWKT en GeoJSON. Admite POLYGON con huecos, MULTIPOLYGON,
+ * coordenadas Z y GEOMETRYCOLLECTION (que terraformer no reconoce).
+ */
+export const parseWKT = (wkt: string): Geometry | null => {
+  // terraformer solo reconoce las palabras clave en mayúsculas; QGIS y PostGIS a veces las exportan en minúsculas
+  const clean = wkt.replace(SRID_PREFIX, "").trim().toUpperCase()
+  if (!clean || /\bEMPTY\s*$/i.test(clean)) return null
+
+  const collection = clean.match(COLLECTION)
+  if (collection) {
+    const geometries = splitTopLevel(collection[1])
+      .map(parseWKT)
+      .filter((geometry): geometry is Geometry => geometry !== null)
+    return { type: "GeometryCollection", geometries }
+  }
+
+  try {
+    return parse(clean) as Geometry
+  } catch (error) {
+    console.error("Error al parsear WKT:", error)
+    return null
+  }
+}
+
+// Reúne todos los polígonos de la geometría (incluidos los de colecciones)
+const collectPolygons = (geometry: Geometry): Position[][][] => {
+  switch (geometry.type) {
+    case "Polygon":
+      return [geometry.coordinates]
+    case "MultiPolygon":
+      return geometry.coordinates
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(collectPolygons)
+    default:
+      return []
+  }
+}
+
+/**
+ * Devuelve los polígonos del WKT listos para `<Polygon positions>` de
+ * react-leaflet, descartando la coordenada Z. `null` si no hay polígonos.
+ */
+export const wktToLeafletPolygons = (wkt: string): LeafletPolygons | null => {
+  const geometry = parseWKT(wkt)
+  return geometry ? geometryToLeafletPolygons(geometry) : null
+}
+
+// Igual que `wktToLeafletPolygons` pero partiendo de una geometría GeoJSON
+export const geometryToLeafletPolygons = (geometry: Geometry): LeafletPolygons | null => {
+  const polygons = collectPolygons(geometry).map((rings) =>
+    rings.map((ring) => ring.map(([lng, lat]) => [lat, lng] as [number, number])),
+  )
+  return polygons.length > 0 ? polygons : null
+}
+
+// Área con signo de un anillo GeoJSON (lng, lat): positiva = sentido antihorario
+const ringSignedArea = (ring: Position[]) =>
+  ring.reduce((total, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length]
+    return total + x1 * y2 - x2 * y1
+  }, 0) / 2
+
+const rewindPolygon = (rings: Position[][]) =>
+  rings.map((ring, index) => {
+    const area = ringSignedArea(ring)
+    return (index === 0 ? area < 0 : area > 0) ? [...ring].reverse() : ring
+  })
+
+/**
+ * Orienta los anillos según RFC 7946 (exterior antihorario, huecos en
+ * sentido horario). Se aplica al exportar; el dibujo del usuario no cambia.
+ */
+export const rewindGeometry = <T extends Geometry>(geometry: T): T => {
+  switch (geometry.type) {
+    case "Polygon":
+      return { ...geometry, coordinates: rewindPolygon(geometry.coordinates) }
+    case "MultiPolygon":
+      return { ...geometry, coordinates: geometry.coordinates.map(rewindPolygon) }
+    case "GeometryCollection":
+      return { ...geometry, geometries: geometry.geometries.map(rewindGeometry) }
+    default:
+      return geometry
+  }
+}
+
+// Anillo cerrado en (lng, lat), o `null` si tiene menos de tres vértices distintos
+const closeRing = (ring: [number, number][]) => {
+  const positions = ring.map(([lat, lng]) => [lng, lat])
+  const distinct = new Set(positions.map(([lng, lat]) => `${lng},${lat}`))
+  if (distinct.size < 3) return null
+  const [first, last] = [positions[0], positions[positions.length - 1]]
+  // Los anillos WKT/GeoJSON deben cerrarse; Leaflet no repite el primer vértice
+  return first[0] === last[0] && first[1] === last[1] ? positions : [...positions, first]
+}
+
+/**
+ * Geometría GeoJSON (lng, lat) equivalente a los polígonos de Leaflet. Se
+ * descartan los anillos vacíos o degenerados y los polígonos sin anillo
+ * exterior válido; si no queda ninguno devuelve `null`.
+ */
+export const leafletPolygonsToGeometry = (polygons: LeafletPolygons): Polygon | MultiPolygon | null => {
+  const coordinates = polygons.flatMap((rings) => {
+    const [exterior, ...holes] = rings.map(closeRing)
+    if (!exterior) return []
+    return [[exterior, ...holes.filter((hole): hole is number[][] => hole !== null)]]
+  })
+  if (coordinates.length === 0) return null
+  return rewindGeometry(
+    coordinates.length === 1 ? { type: "Polygon", coordinates: coordinates[0] } : { type: "MultiPolygon", coordinates },
+  )
+}
+
+// Serializa una geometría como EWKT con el SRID que espera el backend (`null` = WKT plano)
+export const geometryToWKT = (geometry: Geometry, srid: number | null = 4326): string => {
+  const wkt = convert(rewindGeometry(geometry))
+  return srid === null ? wkt : `SRID=${srid};${wkt}`
+}
+
+/**
+ * Serializa todas las geometrías de una FeatureCollection (o Feature): los
+ * polígonos se agrupan en POLYGON/MULTIPOLYGON y cualquier otra mezcla en
+ * GEOMETRYCOLLECTION.
+ */
+export const featureCollectionToWKT = (geoJson: GeoJSON): string | null => {
+  const geometries = (
+    geoJson.type === "FeatureCollection"
+      ? geoJson.features.map((feature) => feature.geometry)
+      : geoJson.type === "Feature"
+        ? [geoJson.geometry]
+        : [geoJson]
+  ).filter((geometry): geometry is Geometry => !!geometry)
+
+  if (geometries.length === 0) return null
+  if (geometries.length === 1) return geometryToWKT(geometries[0])
+
+  if (geometries.every((geometry) => geometry.type === "Polygon" || geometry.type === "MultiPolygon")) {
+    return geometryToWKT({ type: "MultiPolygon", coordinates: geometries.flatMap(collectPolygons) })
+  }
+
+  return geometryToWKT({ type: "GeometryCollection", geometries })
+}
+
+// Centro aproximado: promedio de los vértices de los anillos exteriores
+export const getPolygonsCenter = (polygons: LeafletPolygons): [number, number] => {
+  const vertices = polygons.flatMap((rings) => rings[0] || [])
+  const latSum = vertices.reduce((sum, coord) => sum + coord[0], 0)
+  const lngSum = vertices.reduce((sum, coord) => sum + coord[1], 0)
+  return [latSum / vertices.length, lngSum / vertices.length]
+}